@@ -1,27 +1,49 @@
 import {
+  FileView,
   MarkdownView,
   Notice,
   normalizePath,
+  OpenViewState,
   Plugin,
+  TAbstractFile,
   TFile,
   TFolder,
+  Vault,
   ViewState,
   WorkspaceLeaf,
 } from 'obsidian';
+import { around } from 'monkey-around';
 import { parse as parseYaml } from 'yaml';
 
+import { openConfirmModal } from './modals/ConfirmModal';
+import { parseBlockLink } from './model/backlinks';
 import { createDefaultBoard } from './model/boardTemplate';
+import { convertObsidianKanbanMarkdown, isObsidianKanbanMarkdown } from './model/obsidianKanban';
 import { serializeBoardMarkdown } from './model/serialize';
 import { DEFAULT_SETTINGS, KanbanNextSettingTab, KanbanNextSettings } from './settings';
+import { BoardIndex } from './state/BoardIndex';
+import { SaveJournal } from './state/SaveJournal';
+import { BOARD_SEARCH_VIEW_TYPE, BoardSearchView } from './view/BoardSearchView';
 import { KANBAN_NEXT_ICON, KANBAN_NEXT_VIEW_TYPE, KanbanView } from './view/KanbanView';
 
+const IMPORT_BACKUP_SUFFIX = ' (obsidian-kanban backup)';
+
 export default class KanbanNextPlugin extends Plugin {
   settings: KanbanNextSettings;
+  saveJournal: SaveJournal;
+  private boardIndex: Promise<BoardIndex> | null = null;
+  // Leaves switched to markdown on purpose, keyed to the file they showed, so auto-open leaves them alone.
+  private markdownLeaves = new WeakMap<WorkspaceLeaf, string>();
+  private linkedCards = new WeakMap<WorkspaceLeaf, { path: string; cardId: string }>();
 
   async onload(): Promise<void> {
     await this.loadSettings();
 
+    const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.saveJournal = new SaveJournal(this.app.vault.adapter, normalizePath(`${pluginDir}/journal`));
+
     this.registerView(KANBAN_NEXT_VIEW_TYPE, (leaf) => new KanbanView(leaf, this));
+    this.registerView(BOARD_SEARCH_VIEW_TYPE, (leaf) => new BoardSearchView(leaf, this));
     this.addSettingTab(new KanbanNextSettingTab(this.app, this));
 
     this.addRibbonIcon(KANBAN_NEXT_ICON, 'Create new Kanban board', async () => {
@@ -31,6 +53,7 @@ export default class KanbanNextPlugin extends Plugin {
     this.registerCommands();
     this.registerContextMenu();
     this.registerBoardDefaultOpenBehavior();
+    this.registerBoardIndexUpdates();
   }
 
   onunload(): void {
@@ -46,11 +69,28 @@ export default class KanbanNextPlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
+  applySettingsToOpenBoards(): void {
+    this.app.workspace.getLeavesOfType(KANBAN_NEXT_VIEW_TYPE).forEach((leaf) => {
+      if (leaf.view instanceof KanbanView) {
+        leaf.view.applySettings();
+      }
+    });
+  }
+
   isKanbanFile(file: TFile): boolean {
     const cache = this.app.metadataCache.getFileCache(file);
     return cache?.frontmatter?.kanban === true;
   }
 
+  isObsidianKanbanFile(file: TFile): boolean {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    return (
+      file.extension.toLowerCase() === 'md' &&
+      !file.basename.endsWith(IMPORT_BACKUP_SUFFIX) &&
+      Boolean(frontmatter && 'kanban-plugin' in frontmatter && frontmatter.kanban !== true)
+    );
+  }
+
   private async isKanbanFileWithFallback(file: TFile): Promise<boolean> {
     if (this.isKanbanFile(file)) {
       return true;
@@ -80,19 +120,28 @@ export default class KanbanNextPlugin extends Plugin {
     return this.app.workspace.getActiveViewOfType(KanbanView);
   }
 
-  async setKanbanView(leaf: WorkspaceLeaf, file: TFile): Promise<void> {
+  async setKanbanView(leaf: WorkspaceLeaf, file: TFile, cardId: string | null = null): Promise<void> {
+    this.markdownLeaves.delete(leaf);
+    this.linkedCards.delete(leaf);
     if (leaf.view.getViewType() === KANBAN_NEXT_VIEW_TYPE) {
       return;
     }
 
-    await leaf.setViewState({
-      type: KANBAN_NEXT_VIEW_TYPE,
-      state: { file: file.path },
-      popstate: true,
-    } as ViewState);
+    await leaf.setViewState(
+      {
+        type: KANBAN_NEXT_VIEW_TYPE,
+        state: { file: file.path },
+        popstate: true,
+      } as ViewState,
+      cardId ? { subpath: `#^${cardId}` } : undefined
+    );
   }
 
   async setMarkdownView(leaf: WorkspaceLeaf, focus = true): Promise<void> {
+    if (leaf.view instanceof FileView && leaf.view.file) {
+      this.markdownLeaves.set(leaf, leaf.view.file.path);
+    }
+
     await leaf.setViewState(
       {
         type: 'markdown',
@@ -103,6 +152,105 @@ export default class KanbanNextPlugin extends Plugin {
     );
   }
 
+  async openMarkdownAtLine(leaf: WorkspaceLeaf, line: number, column = 1): Promise<void> {
+    const file = leaf.view instanceof FileView ? leaf.view.file : null;
+    if (!file) {
+      return;
+    }
+
+    const viewState: ViewState = {
+      type: 'markdown',
+      state: { file: file.path, mode: 'source' },
+      active: true,
+    };
+    this.markdownLeaves.set(leaf, file.path);
+    await leaf.setViewState(viewState, { focus: true });
+    leaf.setEphemeralState({ line: Math.max(0, line - 1) });
+
+    const view = leaf.view;
+    if (view instanceof MarkdownView) {
+      view.editor.setCursor({ line: Math.max(0, line - 1), ch: Math.max(0, column - 1) });
+      view.editor.focus();
+    }
+  }
+
+  getBoardIndex(): Promise<BoardIndex> {
+    if (!this.boardIndex) {
+      this.boardIndex = this.buildBoardIndex();
+    }
+
+    return this.boardIndex;
+  }
+
+  async openBoard(file: TFile, cardId: string | null = null): Promise<void> {
+    const openLeaf = this.app.workspace
+      .getLeavesOfType(KANBAN_NEXT_VIEW_TYPE)
+      .find((leaf) => leaf.view instanceof KanbanView && leaf.view.file === file);
+    const leaf = openLeaf || this.app.workspace.getLeaf('tab');
+
+    await leaf.setViewState(
+      { type: KANBAN_NEXT_VIEW_TYPE, state: { file: file.path }, active: true },
+      cardId ? { subpath: `#^${cardId}` } : undefined
+    );
+  }
+
+  async openBoardSearch(): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(BOARD_SEARCH_VIEW_TYPE)[0];
+    const leaf = existing || this.app.workspace.getLeaf('tab');
+    if (!existing) {
+      await leaf.setViewState({ type: BOARD_SEARCH_VIEW_TYPE, active: true });
+    }
+
+    await this.app.workspace.revealLeaf(leaf);
+  }
+
+  private async buildBoardIndex(): Promise<BoardIndex> {
+    const index = new BoardIndex();
+    const files = this.app.vault.getMarkdownFiles().filter((file) => this.isKanbanFile(file));
+
+    for (const file of files) {
+      index.update(file.path, await this.app.vault.cachedRead(file));
+    }
+
+    return index;
+  }
+
+  private async reindexBoardFile(file: TFile): Promise<void> {
+    const index = this.boardIndex ? await this.boardIndex : null;
+    if (!index || !(index.has(file.path) || (await this.isKanbanFileWithFallback(file)))) {
+      return;
+    }
+
+    index.update(file.path, await this.app.vault.cachedRead(file));
+  }
+
+  private registerBoardIndexUpdates(): void {
+    const reindex = (file: TAbstractFile) => {
+      if (file instanceof TFile) {
+        void this.reindexBoardFile(file);
+      }
+    };
+
+    this.registerEvent(this.app.vault.on('create', reindex));
+    this.registerEvent(this.app.vault.on('modify', reindex));
+
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        void this.boardIndex?.then((index) => {
+          index.rename(oldPath, file.path);
+        });
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        void this.boardIndex?.then((index) => {
+          index.remove(file.path);
+        });
+      })
+    );
+  }
+
   async createBoard(folder?: TFolder): Promise<void> {
     const activeFile = this.app.workspace.getActiveFile();
     const targetFolder = folder || activeFile?.parent || this.app.vault.getRoot();
@@ -124,6 +272,67 @@ export default class KanbanNextPlugin extends Plugin {
     }
   }
 
+  async importObsidianKanbanBoard(file: TFile): Promise<void> {
+    try {
+      if (!(await this.convertObsidianKanbanFile(file))) {
+        new Notice(`"${file.basename}" is not an obsidian-kanban board.`);
+        return;
+      }
+
+      new Notice(`Imported "${file.basename}" into gx-kanban. The original was kept as a backup copy.`);
+      await this.maybeOpenAsKanban(file, this.app.workspace.getMostRecentLeaf() || undefined);
+    } catch (error) {
+      console.error('gx-kanban: failed to import board', error);
+      new Notice(`gx-kanban could not import "${file.basename}". Check console for details.`);
+    }
+  }
+
+  async importObsidianKanbanFolder(folder: TFolder): Promise<void> {
+    const files: TFile[] = [];
+    Vault.recurseChildren(folder, (entry) => {
+      if (entry instanceof TFile && this.isObsidianKanbanFile(entry)) {
+        files.push(entry);
+      }
+    });
+
+    const folderLabel = folder.path || this.app.vault.getName();
+    if (files.length === 0) {
+      new Notice(`No obsidian-kanban boards found in "${folderLabel}".`);
+      return;
+    }
+
+    const confirmed = await openConfirmModal(this.app, {
+      title: 'Import obsidian-kanban boards',
+      message:
+        `Convert ${files.length} obsidian-kanban board${files.length === 1 ? '' : 's'} in "${folderLabel}" ` +
+        'to the gx-kanban format? A backup copy of each file is written next to it.',
+      confirmLabel: 'Import',
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    let imported = 0;
+    const failed: string[] = [];
+
+    for (const file of files) {
+      try {
+        if (await this.convertObsidianKanbanFile(file)) {
+          imported += 1;
+        }
+      } catch (error) {
+        console.error(`gx-kanban: failed to import ${file.path}`, error);
+        failed.push(file.basename);
+      }
+    }
+
+    new Notice(
+      `Imported ${imported} board${imported === 1 ? '' : 's'} into gx-kanban.` +
+        (failed.length > 0 ? ` Failed: ${failed.join(', ')}. Check console for details.` : '')
+    );
+  }
+
   async renameBoardFile(file: TFile, desiredTitle: string): Promise<TFile> {
     const cleanedTitle = this.sanitizeFileBaseName(desiredTitle);
     if (!cleanedTitle) {
@@ -143,6 +352,21 @@ export default class KanbanNextPlugin extends Plugin {
     return renamed instanceof TFile ? renamed : file;
   }
 
+  private async convertObsidianKanbanFile(file: TFile): Promise<boolean> {
+    const content = await this.app.vault.read(file);
+    if (!isObsidianKanbanMarkdown(content)) {
+      return false;
+    }
+
+    const board = convertObsidianKanbanMarkdown(content, file.basename);
+    board.density = this.settings.defaultDensity;
+
+    const parent = file.parent || this.app.vault.getRoot();
+    await this.app.vault.copy(file, this.getNextBoardPath(parent, `${file.basename}${IMPORT_BACKUP_SUFFIX}`));
+    await this.app.vault.modify(file, serializeBoardMarkdown(board));
+    return true;
+  }
+
   private registerCommands(): void {
     this.addCommand({
       id: 'create-board',
@@ -152,6 +376,50 @@ export default class KanbanNextPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'search-all-boards',
+      name: 'Search all boards',
+      callback: async () => {
+        await this.openBoardSearch();
+      },
+    });
+
+    this.addCommand({
+      id: 'import-obsidian-kanban-board',
+      name: 'Import obsidian-kanban board from current file',
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.isObsidianKanbanFile(file)) {
+          return false;
+        }
+
+        if (checking) {
+          return true;
+        }
+
+        void this.importObsidianKanbanBoard(file);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'import-obsidian-kanban-folder',
+      name: 'Import obsidian-kanban boards in current folder',
+      checkCallback: (checking) => {
+        const folder = this.app.workspace.getActiveFile()?.parent;
+        if (!folder) {
+          return false;
+        }
+
+        if (checking) {
+          return true;
+        }
+
+        void this.importObsidianKanbanFolder(folder);
+        return true;
+      },
+    });
+
     this.addCommand({
       id: 'toggle-board-markdown',
       name: 'Toggle board/markdown view',
@@ -234,6 +502,96 @@ export default class KanbanNextPlugin extends Plugin {
         return true;
       },
     });
+
+    this.addCommand({
+      id: 'save-board-now',
+      name: 'Save board now',
+      checkCallback: (checking) => {
+        const activeKanbanView = this.getActiveKanbanView();
+        if (!activeKanbanView) {
+          return false;
+        }
+
+        if (checking) {
+          return true;
+        }
+
+        void activeKanbanView.saveNow();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'upgrade-board-format',
+      name: 'Upgrade board format',
+      checkCallback: (checking) => {
+        const activeKanbanView = this.getActiveKanbanView();
+        if (!activeKanbanView) {
+          return false;
+        }
+
+        if (checking) {
+          return true;
+        }
+
+        void activeKanbanView.upgradeBoardFormat();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'open-board-archive',
+      name: 'Open archived cards',
+      checkCallback: (checking) => {
+        const activeKanbanView = this.getActiveKanbanView();
+        if (!activeKanbanView) {
+          return false;
+        }
+
+        if (checking) {
+          return true;
+        }
+
+        activeKanbanView.openArchive();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'undo-board-change',
+      name: 'Undo last board change',
+      checkCallback: (checking) => {
+        const activeKanbanView = this.getActiveKanbanView();
+        if (!activeKanbanView || !activeKanbanView.canUndo()) {
+          return false;
+        }
+
+        if (checking) {
+          return true;
+        }
+
+        activeKanbanView.undo();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'redo-board-change',
+      name: 'Redo board change',
+      checkCallback: (checking) => {
+        const activeKanbanView = this.getActiveKanbanView();
+        if (!activeKanbanView || !activeKanbanView.canRedo()) {
+          return false;
+        }
+
+        if (checking) {
+          return true;
+        }
+
+        activeKanbanView.redo();
+        return true;
+      },
+    });
   }
 
   private registerContextMenu(): void {
@@ -253,6 +611,28 @@ export default class KanbanNextPlugin extends Plugin {
                 void this.createBoard(file);
               });
           });
+          menu.addItem((item) => {
+            item
+              .setTitle('Import obsidian-kanban boards')
+              .setIcon('import')
+              .setSection('action')
+              .onClick(() => {
+                void this.importObsidianKanbanFolder(file);
+              });
+          });
+          return;
+        }
+
+        if (file instanceof TFile && this.isObsidianKanbanFile(file)) {
+          menu.addItem((item) => {
+            item
+              .setTitle('Import into gx-kanban')
+              .setIcon(KANBAN_NEXT_ICON)
+              .setSection('action')
+              .onClick(() => {
+                void this.importObsidianKanbanBoard(file);
+              });
+          });
           return;
         }
 
@@ -288,14 +668,15 @@ export default class KanbanNextPlugin extends Plugin {
       return;
     }
 
+    const keepPreferredLeaf = preferredLeaf ? this.keepsMarkdownView(preferredLeaf) : false;
     if (!(await this.isKanbanFileWithFallback(file))) {
       return;
     }
 
-    if (preferredLeaf?.view instanceof MarkdownView) {
+    if (preferredLeaf?.view instanceof MarkdownView && !keepPreferredLeaf) {
       const markdownView = preferredLeaf.view;
       if (markdownView.file === file) {
-        await this.setKanbanView(preferredLeaf, file);
+        await this.setKanbanView(preferredLeaf, file, this.findLinkedCardId(preferredLeaf, file));
         return;
       }
     }
@@ -306,15 +687,55 @@ export default class KanbanNextPlugin extends Plugin {
       }
 
       const markdownView = leaf.view;
-      return markdownView.file === file;
+      return markdownView.file === file && !this.keepsMarkdownView(leaf);
     });
 
     for (const leaf of matchingMarkdownLeaves) {
-      await this.setKanbanView(leaf, file);
+      const cardId = this.findLinkedCardId(leaf, file);
+      await this.setKanbanView(leaf, file, cardId);
     }
   }
 
+  private keepsMarkdownView(leaf: WorkspaceLeaf): boolean {
+    const file = leaf.view instanceof FileView ? leaf.view.file : null;
+    if (file && this.markdownLeaves.get(leaf) === file.path) {
+      return true;
+    }
+
+    this.markdownLeaves.delete(leaf);
+    return false;
+  }
+
+  private findLinkedCardId(leaf: WorkspaceLeaf, file: TFile): string | null {
+    const linked = this.linkedCards.get(leaf);
+    return linked?.path === file.path ? linked.cardId : null;
+  }
+
+  // A `Board#^card-id` link first opens the markdown view, which drops the subpath, so the `^block` anchor
+  // is noted here for the switch to the board view.
+  private registerBlockLinkTracking(): void {
+    const linkedCards = this.linkedCards;
+    this.register(
+      around(WorkspaceLeaf.prototype, {
+        openFile(next) {
+          return function (this: WorkspaceLeaf, file: TFile, openState?: OpenViewState) {
+            const subpath = openState?.eState?.subpath;
+            const link = typeof subpath === 'string' ? parseBlockLink(subpath) : null;
+            if (link) {
+              linkedCards.set(this, { path: file.path, cardId: link.blockId });
+            } else {
+              linkedCards.delete(this);
+            }
+
+            return next.call(this, file, openState);
+          };
+        },
+      })
+    );
+  }
+
   private registerBoardDefaultOpenBehavior(): void {
+    this.registerBlockLinkTracking();
     const scheduleOpenChecks = (file: TFile | null) => {
       if (!(file instanceof TFile)) {
         return;
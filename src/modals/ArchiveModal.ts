@@ -0,0 +1,322 @@
+import { App, Modal, Notice } from 'obsidian';
+
+import { Card } from '../model/types';
+import { BoardStore } from '../state/BoardStore';
+import { openConfirmModal } from './ConfirmModal';
+
+const POSITION_TOP = 'top';
+const POSITION_BOTTOM = 'bottom';
+
+class ArchiveModal extends Modal {
+  private store: BoardStore;
+  private onChange: () => void;
+  private describeDeleteWarning: (cardIds: string[]) => string;
+  private unsubscribe: (() => void) | null;
+
+  private query: string;
+  private selectedIds: Set<string>;
+  private targetColumnId: string;
+  private targetPosition: string;
+
+  private listEl: HTMLElement | null;
+  private summaryEl: HTMLElement | null;
+  private columnSelectEl: HTMLSelectElement | null;
+  private positionSelectEl: HTMLSelectElement | null;
+  private restoreSelectedButtonEl: HTMLButtonElement | null;
+  private deleteSelectedButtonEl: HTMLButtonElement | null;
+
+  constructor(
+    app: App,
+    store: BoardStore,
+    onChange: () => void,
+    describeDeleteWarning: (cardIds: string[]) => string
+  ) {
+    super(app);
+    this.store = store;
+    this.onChange = onChange;
+    this.describeDeleteWarning = describeDeleteWarning;
+    this.unsubscribe = null;
+
+    this.query = '';
+    this.selectedIds = new Set();
+    this.targetColumnId = store.getBoard().columns[0]?.id || '';
+    this.targetPosition = POSITION_BOTTOM;
+
+    this.listEl = null;
+    this.summaryEl = null;
+    this.columnSelectEl = null;
+    this.positionSelectEl = null;
+    this.restoreSelectedButtonEl = null;
+    this.deleteSelectedButtonEl = null;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    this.modalEl.addClass('kanban-next-archive-modal');
+    contentEl.addClass('kanban-next-archive-content');
+
+    contentEl.createEl('h2', { text: 'Archive' });
+
+    const searchInput = contentEl.createEl('input', {
+      type: 'text',
+      cls: 'kanban-next-filter-input kanban-next-archive-search',
+      placeholder: 'Search archived cards…',
+    });
+    searchInput.setAttr('aria-label', 'Search archived cards');
+    searchInput.addEventListener('input', () => {
+      this.query = searchInput.value;
+      this.renderList();
+    });
+
+    const targetRow = contentEl.createDiv({ cls: 'kanban-next-archive-target' });
+    targetRow.createSpan({ text: 'Restore to' });
+
+    const columnSelect = targetRow.createEl('select', { cls: 'dropdown' });
+    columnSelect.setAttr('aria-label', 'Restore to column');
+    columnSelect.addEventListener('change', () => {
+      this.targetColumnId = columnSelect.value;
+      this.targetPosition = POSITION_BOTTOM;
+      this.renderPositionOptions();
+    });
+
+    const positionSelect = targetRow.createEl('select', { cls: 'dropdown' });
+    positionSelect.setAttr('aria-label', 'Restore position');
+    positionSelect.addEventListener('change', () => {
+      this.targetPosition = positionSelect.value;
+    });
+
+    this.summaryEl = contentEl.createDiv({ cls: 'kanban-next-archive-summary' });
+    this.listEl = contentEl.createDiv({ cls: 'kanban-next-archive-list' });
+
+    const actions = contentEl.createDiv({ cls: 'kanban-next-modal-actions' });
+
+    const deleteButton = actions.createEl('button', {
+      text: 'Delete selected',
+      cls: 'mod-warning kanban-next-danger-button',
+    });
+    const restoreButton = actions.createEl('button', {
+      text: 'Restore selected',
+      cls: 'mod-cta',
+    });
+
+    deleteButton.addEventListener('click', () => {
+      void this.deleteSelected();
+    });
+
+    restoreButton.addEventListener('click', () => {
+      this.restore(Array.from(this.selectedIds));
+    });
+
+    this.columnSelectEl = columnSelect;
+    this.positionSelectEl = positionSelect;
+    this.restoreSelectedButtonEl = restoreButton;
+    this.deleteSelectedButtonEl = deleteButton;
+
+    this.unsubscribe = this.store.subscribe(() => {
+      this.renderColumnOptions();
+      this.renderList();
+    });
+
+    window.setTimeout(() => searchInput.focus(), 0);
+  }
+
+  onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private renderColumnOptions(): void {
+    if (!this.columnSelectEl) {
+      return;
+    }
+
+    const columns = this.store.getBoard().columns;
+    if (!columns.some((column) => column.id === this.targetColumnId)) {
+      this.targetColumnId = columns[0]?.id || '';
+    }
+
+    this.columnSelectEl.empty();
+    columns.forEach((column) => {
+      this.columnSelectEl?.createEl('option', { value: column.id, text: column.title });
+    });
+    this.columnSelectEl.value = this.targetColumnId;
+    this.columnSelectEl.disabled = columns.length === 0;
+
+    this.renderPositionOptions();
+  }
+
+  private renderPositionOptions(): void {
+    if (!this.positionSelectEl) {
+      return;
+    }
+
+    const column = this.store.getBoard().columns.find((entry) => entry.id === this.targetColumnId);
+    const cards = column?.cards || [];
+
+    this.positionSelectEl.empty();
+    this.positionSelectEl.createEl('option', { value: POSITION_TOP, text: 'Top' });
+    cards.forEach((card, index) => {
+      if (index === cards.length - 1) {
+        return;
+      }
+
+      this.positionSelectEl?.createEl('option', {
+        value: String(index + 1),
+        text: `After "${card.title}"`,
+      });
+    });
+    this.positionSelectEl.createEl('option', { value: POSITION_BOTTOM, text: 'Bottom' });
+
+    const values = Array.from(this.positionSelectEl.options).map((option) => option.value);
+    if (!values.includes(this.targetPosition)) {
+      this.targetPosition = POSITION_BOTTOM;
+    }
+    this.positionSelectEl.value = this.targetPosition;
+    this.positionSelectEl.disabled = !column;
+  }
+
+  private renderList(): void {
+    if (!this.listEl || !this.summaryEl) {
+      return;
+    }
+
+    const archive = this.store.getBoard().archive;
+    const archivedIds = new Set(archive.map((card) => card.id));
+    this.selectedIds.forEach((id) => {
+      if (!archivedIds.has(id)) {
+        this.selectedIds.delete(id);
+      }
+    });
+
+    const query = this.query.trim().toLowerCase();
+    const visible = query ? archive.filter((card) => card.searchText.includes(query)) : archive;
+
+    this.summaryEl.setText(
+      query
+        ? `${visible.length} of ${archive.length} archived cards`
+        : `${archive.length} archived card${archive.length === 1 ? '' : 's'}`
+    );
+
+    this.listEl.empty();
+
+    if (visible.length === 0) {
+      this.listEl.createEl('p', {
+        cls: 'kanban-next-archive-empty',
+        text: archive.length === 0 ? 'No archived cards.' : 'No archived cards match the search.',
+      });
+    }
+
+    visible.forEach((card) => {
+      this.renderEntry(card);
+    });
+
+    const hasSelection = this.selectedIds.size > 0;
+    if (this.restoreSelectedButtonEl) {
+      this.restoreSelectedButtonEl.disabled = !hasSelection || !this.targetColumnId;
+    }
+    if (this.deleteSelectedButtonEl) {
+      this.deleteSelectedButtonEl.disabled = !hasSelection;
+    }
+  }
+
+  private renderEntry(card: Card): void {
+    const entryEl = this.listEl?.createDiv({ cls: 'kanban-next-archive-entry' });
+    if (!entryEl) {
+      return;
+    }
+
+    const checkbox = entryEl.createEl('input', { type: 'checkbox' });
+    checkbox.checked = this.selectedIds.has(card.id);
+    checkbox.setAttr('aria-label', `Select "${card.title}"`);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        this.selectedIds.add(card.id);
+      } else {
+        this.selectedIds.delete(card.id);
+      }
+      this.renderList();
+    });
+
+    const textEl = entryEl.createDiv({ cls: 'kanban-next-archive-entry-text' });
+    textEl.createDiv({ cls: 'kanban-next-archive-entry-title', text: card.title });
+
+    const details = [card.description.split('\n')[0]?.trim() || '', card.dueDate ? `due ${card.dueDate}` : '']
+      .filter((part) => part.length > 0)
+      .join(' · ');
+    if (details) {
+      textEl.createDiv({ cls: 'kanban-next-archive-entry-details', text: details });
+    }
+
+    const restoreButton = entryEl.createEl('button', {
+      text: 'Restore',
+      cls: 'kanban-next-button',
+    });
+    restoreButton.disabled = !this.targetColumnId;
+    restoreButton.addEventListener('click', () => {
+      this.restore([card.id]);
+    });
+  }
+
+  private restore(cardIds: string[]): void {
+    if (cardIds.length === 0 || !this.targetColumnId) {
+      return;
+    }
+
+    const column = this.store.getBoard().columns.find((entry) => entry.id === this.targetColumnId);
+    if (!column) {
+      return;
+    }
+
+    const targetIndex =
+      this.targetPosition === POSITION_TOP
+        ? 0
+        : this.targetPosition === POSITION_BOTTOM
+          ? column.cards.length
+          : Number.parseInt(this.targetPosition, 10);
+
+    const restored = this.store.restoreArchivedCards(cardIds, column.id, targetIndex);
+    if (restored > 0) {
+      this.onChange();
+      new Notice(`Restored ${restored} card${restored === 1 ? '' : 's'} to "${column.title}".`);
+    }
+  }
+
+  private async deleteSelected(): Promise<void> {
+    const cardIds = Array.from(this.selectedIds);
+    if (cardIds.length === 0) {
+      return;
+    }
+
+    const warning = this.describeDeleteWarning(cardIds);
+    const confirmed = await openConfirmModal(this.app, {
+      title: 'Delete archived cards',
+      message:
+        `Permanently delete ${cardIds.length} archived card${cardIds.length === 1 ? '' : 's'}?` +
+        (warning ? ` ${warning}` : ''),
+      confirmLabel: 'Delete',
+      danger: true,
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    const deleted = this.store.deleteArchivedCards(cardIds);
+    if (deleted > 0) {
+      this.onChange();
+    }
+  }
+}
+
+export function openArchiveModal(
+  app: App,
+  store: BoardStore,
+  onChange: () => void,
+  describeDeleteWarning: (cardIds: string[]) => string = () => ''
+): void {
+  const modal = new ArchiveModal(app, store, onChange, describeDeleteWarning);
+  modal.open();
+}
@@ -1,12 +1,21 @@
 import { App, Modal, Notice, Setting } from 'obsidian';
 
-import { BoardDocument, CardDensity } from '../model/types';
+import {
+  COLUMN_RULE_LABELS,
+  COLUMN_RULE_TYPES,
+  columnRuleTakesDays,
+  columnRuleTakesTag,
+  createColumnRule,
+  describeColumnRule,
+} from '../model/automation';
+import { BoardDocument, CardDensity, Column, ColumnRule, ColumnRuleType } from '../model/types';
 
 export interface BoardSettingsResult {
   boardTitle: string;
   boardDescription: string;
   density: CardDensity;
   wipLimitByColumnId: Record<string, number | null>;
+  rulesByColumnId: Record<string, ColumnRule[]>;
 }
 
 class BoardSettingsModal extends Modal {
@@ -18,6 +27,7 @@ class BoardSettingsModal extends Modal {
   private descriptionValue: string;
   private densityValue: CardDensity;
   private wipValues: Record<string, string>;
+  private rulesValues: Record<string, ColumnRule[]>;
 
   constructor(app: App, board: BoardDocument, resolver: (value: BoardSettingsResult | null) => void) {
     super(app);
@@ -32,6 +42,10 @@ class BoardSettingsModal extends Modal {
       acc[column.id] = column.wipLimit === null ? '' : String(column.wipLimit);
       return acc;
     }, {});
+    this.rulesValues = board.columns.reduce<Record<string, ColumnRule[]>>((acc, column) => {
+      acc[column.id] = (column.rules || []).map((rule) => ({ ...rule }));
+      return acc;
+    }, {});
   }
 
   onOpen(): void {
@@ -87,6 +101,16 @@ class BoardSettingsModal extends Modal {
         });
     });
 
+    contentEl.createEl('h3', { text: 'Column automation' });
+    contentEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'Rules run in order whenever a card is added to or moved into the column.',
+    });
+
+    this.board.columns.forEach((column) => {
+      this.renderColumnRules(contentEl.createDiv({ cls: 'kanban-next-column-rules' }), column);
+    });
+
     const actions = contentEl.createDiv({ cls: 'kanban-next-modal-actions' });
     const cancelButton = actions.createEl('button', { text: 'Cancel' });
     const saveButton = actions.createEl('button', {
@@ -130,11 +154,83 @@ class BoardSettingsModal extends Modal {
         boardDescription: this.descriptionValue.trim(),
         density: this.densityValue,
         wipLimitByColumnId,
+        rulesByColumnId: this.rulesValues,
       });
       this.close();
     });
   }
 
+  private renderColumnRules(containerEl: HTMLElement, column: Column): void {
+    containerEl.empty();
+    const rules = this.rulesValues[column.id] || [];
+
+    new Setting(containerEl)
+      .setName(column.title)
+      .setDesc(rules.length === 0 ? 'No rules.' : '')
+      .setHeading();
+
+    rules.forEach((rule, index) => {
+      new Setting(containerEl).setName(describeColumnRule(rule)).addExtraButton((button) => {
+        button
+          .setIcon('trash')
+          .setTooltip('Remove rule')
+          .onClick(() => {
+            this.rulesValues[column.id] = rules.filter((_entry, entryIndex) => entryIndex !== index);
+            this.renderColumnRules(containerEl, column);
+          });
+      });
+    });
+
+    let type: ColumnRuleType = 'check';
+    let argument = '';
+    let argumentInput: HTMLInputElement | null = null;
+    const syncArgumentInput = () => {
+      if (!argumentInput) {
+        return;
+      }
+
+      const takesArgument = columnRuleTakesDays(type) || columnRuleTakesTag(type);
+      argumentInput.disabled = !takesArgument;
+      argumentInput.placeholder = columnRuleTakesDays(type) ? 'Days' : columnRuleTakesTag(type) ? '#tag' : '';
+      if (!takesArgument) {
+        argumentInput.value = '';
+        argument = '';
+      }
+    };
+
+    new Setting(containerEl)
+      .addDropdown((dropdown) => {
+        COLUMN_RULE_TYPES.forEach((ruleType) => {
+          dropdown.addOption(ruleType, COLUMN_RULE_LABELS[ruleType]);
+        });
+        dropdown.setValue(type).onChange((value) => {
+          type = COLUMN_RULE_TYPES.find((ruleType) => ruleType === value) || 'check';
+          syncArgumentInput();
+        });
+      })
+      .addText((text) => {
+        argumentInput = text.inputEl;
+        text.onChange((value) => {
+          argument = value;
+        });
+        syncArgumentInput();
+      })
+      .addButton((button) => {
+        button.setButtonText('Add rule').onClick(() => {
+          const rule = createColumnRule(type, argument);
+          if (!rule) {
+            new Notice(
+              columnRuleTakesDays(type) ? 'Enter a whole number of days.' : 'Enter a tag such as #done.'
+            );
+            return;
+          }
+
+          this.rulesValues[column.id] = [...rules, rule];
+          this.renderColumnRules(containerEl, column);
+        });
+      });
+  }
+
   onClose(): void {
     this.contentEl.empty();
     this.resolveOnce(null);
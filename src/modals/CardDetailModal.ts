@@ -0,0 +1,282 @@
+import { App, Modal, Notice, Setting, setIcon } from 'obsidian';
+
+import { extractTags, normalizeDueDate, normalizeTagFilter, removeTagFromText } from '../model/card';
+import { CardFields, FIRST_CLASS_FIELD_KEYS, getField, setField } from '../model/fields';
+import { Card, Column } from '../model/types';
+
+export interface CardDetailResult {
+  title: string;
+  description: string;
+  checked: boolean;
+  startDate: string | null;
+  dueDate: string | null;
+  fields: CardFields;
+  columnId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  assignee: 'Assignee',
+  priority: 'Priority',
+  estimate: 'Estimate',
+};
+
+class CardDetailModal extends Modal {
+  private card: Card;
+  private columns: Column[];
+  private resolver: (value: CardDetailResult | null) => void;
+  private settled: boolean;
+
+  private titleValue: string;
+  private descriptionValue: string;
+  private checkedValue: boolean;
+  private startDateValue: string;
+  private dueDateValue: string;
+  private fieldsValue: CardFields;
+  private columnIdValue: string;
+
+  private titleInputEl: HTMLInputElement | null;
+  private descriptionInputEl: HTMLTextAreaElement | null;
+  private tagListEl: HTMLElement | null;
+
+  constructor(
+    app: App,
+    card: Card,
+    columnId: string,
+    columns: Column[],
+    resolver: (value: CardDetailResult | null) => void
+  ) {
+    super(app);
+    this.card = card;
+    this.columns = columns;
+    this.resolver = resolver;
+    this.settled = false;
+
+    this.titleValue = card.title;
+    this.descriptionValue = card.description;
+    this.checkedValue = card.checked;
+    this.startDateValue = card.startDate || '';
+    this.dueDateValue = card.dueDate || '';
+    this.fieldsValue = { ...card.fields };
+    this.columnIdValue = columnId;
+
+    this.titleInputEl = null;
+    this.descriptionInputEl = null;
+    this.tagListEl = null;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    this.modalEl.addClass('kanban-next-card-detail-modal');
+    contentEl.createEl('h2', { text: 'Card details' });
+
+    new Setting(contentEl).setName('Title').addText((text) => {
+      this.titleInputEl = text.inputEl;
+      text.setValue(this.titleValue).onChange((value) => {
+        this.titleValue = value;
+        this.renderTags();
+      });
+    });
+
+    const descriptionSetting = new Setting(contentEl)
+      .setName('Description')
+      .setDesc('Markdown. Links and #tags are kept as written.')
+      .addTextArea((textarea) => {
+        this.descriptionInputEl = textarea.inputEl;
+        textarea.inputEl.rows = 10;
+        textarea.inputEl.addClass('kanban-next-card-detail-description');
+        textarea.setValue(this.descriptionValue).onChange((value) => {
+          this.descriptionValue = value;
+          this.renderTags();
+        });
+      });
+    descriptionSetting.settingEl.addClass('kanban-next-card-detail-description-setting');
+
+    const tagSetting = new Setting(contentEl).setName('Tags');
+    this.tagListEl = tagSetting.controlEl.createDiv({ cls: 'kanban-next-card-detail-tags' });
+    tagSetting.addText((text) => {
+      text.setPlaceholder('Add tag…');
+      text.inputEl.addEventListener('keydown', (event) => {
+        if (event.key !== 'Enter') {
+          return;
+        }
+
+        event.preventDefault();
+        const tag = normalizeTagFilter(text.getValue());
+        if (!tag || tag === '#') {
+          return;
+        }
+
+        if (!extractTags(`${this.titleValue}\n${this.descriptionValue}`).includes(tag)) {
+          this.titleValue = `${this.titleValue.trimEnd()} ${tag}`;
+          this.syncTextInputs();
+        }
+
+        text.setValue('');
+        this.renderTags();
+      });
+    });
+
+    this.renderTags();
+
+    new Setting(contentEl).setName('Start date').addText((text) => {
+      text.inputEl.type = 'date';
+      text.setValue(this.startDateValue).onChange((value) => {
+        this.startDateValue = value;
+      });
+    });
+
+    new Setting(contentEl).setName('Due date').addText((text) => {
+      text.inputEl.type = 'date';
+      text.setValue(this.dueDateValue).onChange((value) => {
+        this.dueDateValue = value;
+      });
+    });
+
+    new Setting(contentEl).setName('Done').addToggle((toggle) => {
+      toggle.setValue(this.checkedValue).onChange((value) => {
+        this.checkedValue = value;
+      });
+    });
+
+    FIRST_CLASS_FIELD_KEYS.forEach((key) => {
+      new Setting(contentEl).setName(FIELD_LABELS[key] || key).addText((text) => {
+        text.setValue(getField(this.fieldsValue, key) || '').onChange((value) => {
+          this.fieldsValue = setField(this.fieldsValue, key, value);
+        });
+      });
+    });
+
+    new Setting(contentEl).setName('Column').addDropdown((dropdown) => {
+      this.columns.forEach((column) => {
+        dropdown.addOption(column.id, column.title);
+      });
+      dropdown.setValue(this.columnIdValue).onChange((value) => {
+        this.columnIdValue = value;
+      });
+    });
+
+    const actions = contentEl.createDiv({ cls: 'kanban-next-modal-actions' });
+    const cancelButton = actions.createEl('button', { text: 'Cancel' });
+    const saveButton = actions.createEl('button', {
+      text: 'Save',
+      cls: 'mod-cta',
+    });
+
+    cancelButton.addEventListener('click', () => {
+      this.resolveOnce(null);
+      this.close();
+    });
+
+    saveButton.addEventListener('click', () => {
+      const title = this.titleValue.trim();
+      if (!title) {
+        new Notice('Card title cannot be empty.');
+        return;
+      }
+
+      const rawStartDate = this.startDateValue.trim();
+      const startDate = normalizeDueDate(rawStartDate);
+      if (rawStartDate && !startDate) {
+        new Notice('Start date must use the YYYY-MM-DD format.');
+        return;
+      }
+
+      const rawDueDate = this.dueDateValue.trim();
+      const dueDate = normalizeDueDate(rawDueDate);
+      if (rawDueDate && !dueDate) {
+        new Notice('Due date must use the YYYY-MM-DD format.');
+        return;
+      }
+
+      this.resolveOnce({
+        title,
+        description: this.descriptionValue.trimEnd(),
+        checked: this.checkedValue,
+        startDate,
+        dueDate,
+        fields: this.fieldsValue,
+        columnId: this.columnIdValue,
+      });
+      this.close();
+    });
+
+    window.setTimeout(() => {
+      this.titleInputEl?.focus();
+      if (this.card.title === 'Untitled') {
+        this.titleInputEl?.select();
+      }
+    }, 0);
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.titleInputEl = null;
+    this.descriptionInputEl = null;
+    this.tagListEl = null;
+    this.resolveOnce(null);
+  }
+
+  private renderTags(): void {
+    if (!this.tagListEl) {
+      return;
+    }
+
+    this.tagListEl.empty();
+    const tags = extractTags(`${this.titleValue}\n${this.descriptionValue}`);
+
+    if (tags.length === 0) {
+      this.tagListEl.createSpan({ cls: 'kanban-next-card-detail-no-tags', text: 'No tags' });
+      return;
+    }
+
+    tags.forEach((tag) => {
+      const chip = this.tagListEl?.createSpan({ cls: 'kanban-next-chip kanban-next-tag-chip', text: tag });
+      if (!chip) {
+        return;
+      }
+
+      const removeButton = chip.createEl('button', { cls: 'kanban-next-chip-remove' });
+      setIcon(removeButton, 'x');
+      removeButton.setAttr('aria-label', `Remove ${tag}`);
+      removeButton.addEventListener('click', () => {
+        this.titleValue = removeTagFromText(this.titleValue, tag).trim() || this.titleValue;
+        this.descriptionValue = removeTagFromText(this.descriptionValue, tag);
+        this.syncTextInputs();
+        this.renderTags();
+      });
+    });
+  }
+
+  private syncTextInputs(): void {
+    if (this.titleInputEl) {
+      this.titleInputEl.value = this.titleValue;
+    }
+
+    if (this.descriptionInputEl) {
+      this.descriptionInputEl.value = this.descriptionValue;
+    }
+  }
+
+  private resolveOnce(value: CardDetailResult | null): void {
+    if (this.settled) {
+      return;
+    }
+
+    this.settled = true;
+    this.resolver(value);
+  }
+}
+
+export function openCardDetailModal(
+  app: App,
+  card: Card,
+  columnId: string,
+  columns: Column[]
+): Promise<CardDetailResult | null> {
+  return new Promise((resolve) => {
+    const modal = new CardDetailModal(app, card, columnId, columns, resolve);
+    modal.open();
+  });
+}
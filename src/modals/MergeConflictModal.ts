@@ -0,0 +1,116 @@
+import { App, Modal } from 'obsidian';
+
+import { MergeConflict, MergeSide } from '../model/merge';
+
+class MergeConflictModal extends Modal {
+  private conflicts: MergeConflict[];
+  private resolver: (value: Record<string, MergeSide> | null) => void;
+  private settled: boolean;
+  private choices: Record<string, MergeSide>;
+
+  constructor(
+    app: App,
+    conflicts: MergeConflict[],
+    resolver: (value: Record<string, MergeSide> | null) => void
+  ) {
+    super(app);
+    this.conflicts = conflicts;
+    this.resolver = resolver;
+    this.settled = false;
+    this.choices = Object.fromEntries(conflicts.map((conflict) => [conflict.id, 'local' as MergeSide]));
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    this.modalEl.addClass('kanban-next-merge-modal');
+    contentEl.createEl('h2', { text: 'Resolve board conflicts' });
+
+    const subject =
+      this.conflicts.length === 1 ? 'this conflict' : `these ${this.conflicts.length} conflicts`;
+    contentEl.createEl('p', {
+      cls: 'kanban-next-merge-intro',
+      text: `The board file changed on disk while you had unsaved edits. Other changes were merged automatically; choose which version to keep for ${subject}.`,
+    });
+
+    const listEl = contentEl.createDiv({ cls: 'kanban-next-merge-list' });
+    this.conflicts.forEach((conflict) => {
+      const entryEl = listEl.createDiv({ cls: 'kanban-next-merge-entry' });
+      entryEl.createDiv({ cls: 'kanban-next-merge-label', text: conflict.label });
+
+      const optionsEl = entryEl.createDiv({ cls: 'kanban-next-merge-options' });
+      this.renderOption(optionsEl, conflict, 'local', 'Your version', conflict.local);
+      this.renderOption(optionsEl, conflict, 'incoming', 'Version on disk', conflict.incoming);
+    });
+
+    const actions = contentEl.createDiv({ cls: 'kanban-next-modal-actions' });
+    const keepMineButton = actions.createEl('button', { text: 'Keep all mine' });
+    const takeTheirsButton = actions.createEl('button', { text: 'Take all from disk' });
+    const applyButton = actions.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+
+    keepMineButton.addEventListener('click', () => {
+      this.resolveAll('local');
+    });
+
+    takeTheirsButton.addEventListener('click', () => {
+      this.resolveAll('incoming');
+    });
+
+    applyButton.addEventListener('click', () => {
+      this.resolveOnce({ ...this.choices });
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolveOnce(null);
+  }
+
+  private renderOption(
+    parent: HTMLElement,
+    conflict: MergeConflict,
+    side: MergeSide,
+    title: string,
+    summary: string
+  ): void {
+    const optionEl = parent.createEl('label', { cls: 'kanban-next-merge-option' });
+    const radio = optionEl.createEl('input', { type: 'radio' });
+    radio.name = `kanban-next-merge-${conflict.id}`;
+    radio.checked = this.choices[conflict.id] === side;
+    radio.addEventListener('change', () => {
+      if (radio.checked) {
+        this.choices[conflict.id] = side;
+      }
+    });
+
+    const textEl = optionEl.createDiv({ cls: 'kanban-next-merge-option-text' });
+    textEl.createDiv({ cls: 'kanban-next-merge-option-title', text: title });
+    textEl.createDiv({ cls: 'kanban-next-merge-option-summary', text: summary });
+  }
+
+  private resolveAll(side: MergeSide): void {
+    this.resolveOnce(Object.fromEntries(this.conflicts.map((conflict) => [conflict.id, side])));
+    this.close();
+  }
+
+  private resolveOnce(value: Record<string, MergeSide> | null): void {
+    if (this.settled) {
+      return;
+    }
+
+    this.settled = true;
+    this.resolver(value);
+  }
+}
+
+export function openMergeConflictModal(
+  app: App,
+  conflicts: MergeConflict[]
+): Promise<Record<string, MergeSide> | null> {
+  return new Promise((resolve) => {
+    const modal = new MergeConflictModal(app, conflicts, resolve);
+    modal.open();
+  });
+}
@@ -0,0 +1,74 @@
+import { App, Modal, Platform } from 'obsidian';
+
+interface ShortcutEntry {
+  keys: string[];
+  description: string;
+}
+
+function getShortcutSections(): Array<{ title: string; shortcuts: ShortcutEntry[] }> {
+  const mod = Platform.isMacOS ? 'Cmd' : 'Ctrl';
+
+  return [
+    {
+      title: 'Navigate',
+      shortcuts: [
+        { keys: ['↑', '↓', 'k', 'j'], description: 'Focus the previous / next card in the column' },
+        { keys: ['←', '→', 'h', 'l'], description: 'Focus the card in the previous / next column' },
+        { keys: ['/'], description: 'Search cards' },
+        { keys: ['?'], description: 'Show this cheat sheet' },
+      ],
+    },
+    {
+      title: 'Cards',
+      shortcuts: [
+        { keys: ['Enter'], description: 'Edit the focused card' },
+        { keys: [`${mod}+Enter`], description: 'Finish editing' },
+        { keys: ['Space'], description: 'Toggle the focused card done / open' },
+        { keys: ['n'], description: 'New card in the focused column' },
+        { keys: ['Alt+↑', 'Alt+↓'], description: 'Move the focused card up / down' },
+        { keys: ['Alt+←', 'Alt+→'], description: 'Move the focused card to the previous / next column' },
+      ],
+    },
+    {
+      title: 'Board',
+      shortcuts: [
+        { keys: [`${mod}+Click`, 'Shift+Click'], description: 'Add cards to the selection' },
+        { keys: ['Escape'], description: 'Clear the selection or close popovers' },
+        { keys: [`${mod}+Z`], description: 'Undo' },
+        { keys: [`${mod}+Shift+Z`], description: 'Redo' },
+      ],
+    },
+  ];
+}
+
+class ShortcutHelpModal extends Modal {
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    this.modalEl.addClass('kanban-next-shortcut-modal');
+    contentEl.createEl('h2', { text: 'Keyboard shortcuts' });
+
+    getShortcutSections().forEach((section) => {
+      contentEl.createEl('h3', { cls: 'kanban-next-shortcut-section', text: section.title });
+      const listEl = contentEl.createDiv({ cls: 'kanban-next-shortcut-list' });
+
+      section.shortcuts.forEach((shortcut) => {
+        const keysEl = listEl.createDiv({ cls: 'kanban-next-shortcut-keys' });
+        shortcut.keys.forEach((key) => {
+          keysEl.createEl('kbd', { text: key });
+        });
+        listEl.createDiv({ cls: 'kanban-next-shortcut-description', text: shortcut.description });
+      });
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+export function openShortcutHelpModal(app: App): void {
+  const modal = new ShortcutHelpModal(app);
+  modal.open();
+}
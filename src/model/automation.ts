@@ -0,0 +1,170 @@
+import { normalizeCard, normalizeTagFilter, removeTagFromText } from './card';
+import { addDays, toDayNumber } from './dueDate';
+import { getField, setField } from './fields';
+import { BoardDocument, Card, ColumnRule, ColumnRuleType } from './types';
+
+export const COLUMN_RULE_TYPES: ColumnRuleType[] = [
+  'check',
+  'uncheck',
+  'set-due',
+  'add-tag',
+  'remove-tag',
+  'archive-after',
+  'stamp-completed',
+];
+
+export const COLUMN_RULE_LABELS: Record<ColumnRuleType, string> = {
+  check: 'Mark checked',
+  uncheck: 'Unmark checked',
+  'set-due': 'Set due to today + N days',
+  'add-tag': 'Add tag',
+  'remove-tag': 'Remove tag',
+  'archive-after': 'Archive after N days',
+  'stamp-completed': 'Stamp completed:: date',
+};
+
+// Cards entering a column with an archive-after rule get the date they will be archived on.
+export const AUTO_ARCHIVE_FIELD = 'auto-archive';
+const COMPLETED_FIELD = 'completed';
+
+export function columnRuleTakesDays(type: ColumnRuleType): boolean {
+  return type === 'set-due' || type === 'archive-after';
+}
+
+export function columnRuleTakesTag(type: ColumnRuleType): boolean {
+  return type === 'add-tag' || type === 'remove-tag';
+}
+
+export function createColumnRule(type: ColumnRuleType, argument: string): ColumnRule | null {
+  if (columnRuleTakesDays(type)) {
+    const days = Number(argument.trim());
+    return Number.isInteger(days) && days >= 0 ? ({ type, days } as ColumnRule) : null;
+  }
+
+  if (columnRuleTakesTag(type)) {
+    const tag = normalizeTagFilter(argument);
+    return /^#[a-z0-9/_-]+$/.test(tag) ? ({ type, tag } as ColumnRule) : null;
+  }
+
+  return { type } as ColumnRule;
+}
+
+export function describeColumnRule(rule: ColumnRule): string {
+  switch (rule.type) {
+    case 'set-due':
+      return `Set due to today + ${rule.days} ${rule.days === 1 ? 'day' : 'days'}`;
+    case 'add-tag':
+      return `Add tag ${rule.tag}`;
+    case 'remove-tag':
+      return `Remove tag ${rule.tag}`;
+    case 'archive-after':
+      return `Archive after ${rule.days} ${rule.days === 1 ? 'day' : 'days'}`;
+    default:
+      return COLUMN_RULE_LABELS[rule.type];
+  }
+}
+
+// Rules are stored as `- check` or `- set-due: 3` entries under a column definition.
+export function parseColumnRules(value: unknown): ColumnRule[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry: unknown) => {
+    const [type, argument] =
+      typeof entry === 'string'
+        ? [entry, '']
+        : entry && typeof entry === 'object' && Object.keys(entry).length === 1
+          ? Object.entries(entry as Record<string, unknown>)[0] || ['', '']
+          : ['', ''];
+    if (!COLUMN_RULE_TYPES.includes(type as ColumnRuleType)) {
+      return [];
+    }
+
+    const argumentText = typeof argument === 'number' || typeof argument === 'string' ? String(argument) : '';
+    const rule = createColumnRule(type as ColumnRuleType, argumentText);
+    return rule ? [rule] : [];
+  });
+}
+
+export function serializeColumnRules(rules: ColumnRule[]): Array<string | Record<string, unknown>> {
+  return rules.map((rule) => {
+    if ('days' in rule) {
+      return { [rule.type]: rule.days };
+    }
+
+    return 'tag' in rule ? { [rule.type]: rule.tag } : rule.type;
+  });
+}
+
+export function applyColumnRules(card: Card, rules: ColumnRule[], today: string): Card {
+  let { title, description, checked, dueDate, fields } = card;
+
+  if (!rules.some((rule) => rule.type === 'archive-after')) {
+    fields = setField(fields, AUTO_ARCHIVE_FIELD, null);
+  }
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'check':
+        checked = true;
+        break;
+      case 'uncheck':
+        checked = false;
+        break;
+      case 'set-due':
+        dueDate = addDays(today, rule.days);
+        break;
+      case 'add-tag':
+        if (!normalizeCard({ ...card, title, description }).tags.includes(rule.tag)) {
+          title = `${title.trimEnd()} ${rule.tag}`;
+        }
+        break;
+      case 'remove-tag':
+        title = removeTagFromText(title, rule.tag);
+        description = removeTagFromText(description, rule.tag);
+        break;
+      case 'archive-after':
+        fields = setField(fields, AUTO_ARCHIVE_FIELD, addDays(today, rule.days));
+        break;
+      case 'stamp-completed':
+        fields = setField(fields, COMPLETED_FIELD, today);
+        break;
+    }
+  }
+
+  return normalizeCard({
+    id: card.id,
+    title,
+    description,
+    checked,
+    startDate: card.startDate,
+    dueDate,
+    fields,
+  });
+}
+
+export function clearAutoArchive(card: Card): Card {
+  if (getField(card.fields, AUTO_ARCHIVE_FIELD) === null) {
+    return card;
+  }
+
+  return normalizeCard({ ...card, fields: setField(card.fields, AUTO_ARCHIVE_FIELD, null) });
+}
+
+export function collectExpiredCardIds(board: BoardDocument, today: string): string[] {
+  const todayNumber = toDayNumber(today);
+  if (todayNumber === null) {
+    return [];
+  }
+
+  return board.columns
+    .filter((column) => column.rules?.some((rule) => rule.type === 'archive-after'))
+    .flatMap((column) =>
+      column.cards.filter((card) => {
+        const archiveOn = toDayNumber(getField(card.fields, AUTO_ARCHIVE_FIELD) || '');
+        return archiveOn !== null && archiveOn <= todayNumber;
+      })
+    )
+    .map((card) => card.id);
+}
@@ -0,0 +1,70 @@
+export interface BlockLink {
+  linkpath: string;
+  blockId: string;
+}
+
+export interface LinkSource {
+  path: string;
+  links: string[];
+}
+
+export interface CardBacklinks {
+  count: number;
+  sourcePaths: string[];
+}
+
+export type LinkpathResolver = (linkpath: string, sourcePath: string) => string | null;
+
+export function parseBlockLink(link: string): BlockLink | null {
+  const index = link.indexOf('#^');
+  if (index < 0) {
+    return null;
+  }
+
+  const blockId = link.slice(index + 2).trim();
+  return blockId ? { linkpath: link.slice(0, index).trim(), blockId } : null;
+}
+
+export function collectCardBacklinks(
+  sources: LinkSource[],
+  boardPath: string,
+  resolve: LinkpathResolver
+): Map<string, CardBacklinks> {
+  const backlinks = new Map<string, CardBacklinks>();
+
+  for (const source of sources) {
+    for (const link of source.links) {
+      const parsed = parseBlockLink(link);
+      if (!parsed) {
+        continue;
+      }
+
+      const target = parsed.linkpath ? resolve(parsed.linkpath, source.path) : source.path;
+      if (target !== boardPath) {
+        continue;
+      }
+
+      const entry = backlinks.get(parsed.blockId) || { count: 0, sourcePaths: [] };
+      entry.count += 1;
+      if (!entry.sourcePaths.includes(source.path)) {
+        entry.sourcePaths.push(source.path);
+      }
+      backlinks.set(parsed.blockId, entry);
+    }
+  }
+
+  return backlinks;
+}
+
+export function describeBacklinkWarning(backlinks: Map<string, CardBacklinks>, cardIds: string[]): string {
+  const linked = cardIds.map((cardId) => backlinks.get(cardId)).filter((entry) => entry !== undefined);
+  if (linked.length === 0) {
+    return '';
+  }
+
+  const count = linked.reduce((total, entry) => total + entry.count, 0);
+  const notes = new Set(linked.flatMap((entry) => entry.sourcePaths)).size;
+  const links = count === 1 ? '1 link points' : `${count} links point`;
+  const target = cardIds.length === 1 ? 'this card' : 'these cards';
+  return `${links} to ${target} from ${notes} ${notes === 1 ? 'note' : 'notes'} and will break.`;
+}
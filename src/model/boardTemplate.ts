@@ -5,6 +5,9 @@ export function createDefaultBoard(boardTitle: string): BoardDocument {
     boardTitle,
     boardDescription: '',
     density: 'normal',
+    swimlanes: 'none',
+    layout: 'board',
+    views: [],
     columns: [],
     archive: [],
   };
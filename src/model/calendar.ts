@@ -0,0 +1,101 @@
+import { addDays, fromDayNumber, toDayNumber } from './dueDate';
+import { Card, Column } from './types';
+
+export type CalendarScale = 'month' | 'week';
+
+export interface CalendarEntry {
+  card: Card;
+  columnId: string;
+  columnTitle: string;
+}
+
+export interface CalendarDay {
+  date: string;
+  inRange: boolean;
+  entries: CalendarEntry[];
+}
+
+export interface CalendarGrid {
+  weeks: CalendarDay[][];
+  unscheduled: CalendarEntry[];
+}
+
+// Day 0 (1970-01-01) was a Thursday.
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+export function startOfWeek(date: string, weekStart = 1): string | null {
+  const dayNumber = toDayNumber(date);
+  if (dayNumber === null) {
+    return null;
+  }
+
+  return fromDayNumber(dayNumber - ((weekdayOf(dayNumber) - weekStart + 7) % 7));
+}
+
+export function shiftCalendarAnchor(anchor: string, scale: CalendarScale, delta: number): string {
+  if (scale === 'week') {
+    return addDays(anchor, delta * 7) || anchor;
+  }
+
+  const [year = 1970, month = 1] = anchor.split('-').map((part) => Number.parseInt(part, 10));
+  const shifted = new Date(Date.UTC(year, month - 1 + delta, 1));
+  return fromDayNumber(Math.round(shifted.getTime() / (24 * 60 * 60 * 1000)));
+}
+
+function listRangeDays(anchor: string, scale: CalendarScale, weekStart: number): string[] {
+  if (scale === 'week') {
+    const start = startOfWeek(anchor, weekStart) || anchor;
+    return Array.from({ length: 7 }, (_value, index) => addDays(start, index) || start);
+  }
+
+  const monthStart = `${anchor.slice(0, 8)}01`;
+  const nextMonth = shiftCalendarAnchor(monthStart, 'month', 1);
+  const gridStart = toDayNumber(startOfWeek(monthStart, weekStart) || monthStart) || 0;
+  const monthEnd = (toDayNumber(nextMonth) || gridStart) - 1;
+  const gridEnd = monthEnd + ((weekStart + 6 - weekdayOf(monthEnd)) % 7);
+
+  return Array.from({ length: gridEnd - gridStart + 1 }, (_value, index) =>
+    fromDayNumber(gridStart + index)
+  );
+}
+
+export function buildCalendarGrid(
+  columns: Column[],
+  anchor: string,
+  scale: CalendarScale,
+  weekStart = 1
+): CalendarGrid {
+  const byDate = new Map<string, CalendarEntry[]>();
+  const unscheduled: CalendarEntry[] = [];
+
+  for (const column of columns) {
+    for (const card of column.cards) {
+      const entry = { card, columnId: column.id, columnTitle: column.title };
+      const date = card.dueDate && toDayNumber(card.dueDate) !== null ? card.dueDate : null;
+      if (!date) {
+        unscheduled.push(entry);
+        continue;
+      }
+
+      const entries = byDate.get(date) || [];
+      entries.push(entry);
+      byDate.set(date, entries);
+    }
+  }
+
+  const month = anchor.slice(0, 7);
+  const days = listRangeDays(anchor, scale, weekStart).map((date) => ({
+    date,
+    inRange: scale === 'week' || date.startsWith(month),
+    entries: byDate.get(date) || [],
+  }));
+
+  const weeks: CalendarDay[][] = [];
+  for (let index = 0; index < days.length; index += 7) {
+    weeks.push(days.slice(index, index + 7));
+  }
+
+  return { weeks, unscheduled };
+}
@@ -1,3 +1,4 @@
+import { CardFields, normalizeFields } from './fields';
 import { Card } from './types';
 
 const tagRegex = /(^|\s)#([A-Za-z0-9/_-]+)/g;
@@ -17,6 +18,27 @@ export function extractTags(text: string): string[] {
   return Array.from(tags).sort((left, right) => left.localeCompare(right));
 }
 
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function removeTagFromText(text: string, tag: string): string {
+  const pattern = new RegExp(`(^|[ \\t])${escapeRegex(tag)}(?=[ \\t]|$)`, 'gi');
+
+  return text
+    .split('\n')
+    .map((line) => {
+      const next = line.replace(pattern, '$1');
+      if (next === line) {
+        return line;
+      }
+
+      const indent = line.match(/^[ \t]*/)?.[0] || '';
+      return indent + next.slice(indent.length).replace(/[ \t]{2,}/g, ' ').trim();
+    })
+    .join('\n');
+}
+
 export function normalizeDueDate(value: string | null | undefined): string | null {
   if (!value) {
     return null;
@@ -43,20 +65,30 @@ export function buildSearchText(
   title: string,
   description: string,
   tags: string[],
-  dueDate: string | null
+  dueDate: string | null,
+  fields: CardFields = {}
 ): string {
-  const parts = [title, description, tags.join(' '), dueDate || ''];
+  const fieldText = Object.entries(fields)
+    .map(([key, value]) => `${key}:${value}`)
+    .join(' ');
+  const parts = [title, description, tags.join(' '), dueDate || '', fieldText];
   return parts.join('\n').toLowerCase();
 }
 
-export function normalizeCard(input: Omit<Card, 'tags' | 'searchText'>): Card {
+export function normalizeCard(
+  input: Omit<Card, 'tags' | 'searchText' | 'startDate'> & { startDate?: string | null }
+): Card {
+  const startDate = normalizeDueDate(input.startDate);
   const dueDate = normalizeDueDate(input.dueDate);
+  const fields = normalizeFields(input.fields);
   const tags = extractTags(`${input.title}\n${input.description}`);
 
   return {
     ...input,
+    startDate,
     dueDate,
+    fields,
     tags,
-    searchText: buildSearchText(input.title, input.description, tags, dueDate),
+    searchText: buildSearchText(input.title, input.description, tags, dueDate, fields),
   };
 }
@@ -0,0 +1,16 @@
+import { BoardDiagnostic, BoardDiagnosticFix } from './types';
+
+export function applyDiagnosticFix(content: string, fix: BoardDiagnosticFix): string {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const edits = [...fix.edits].sort((left, right) => right.line - left.line);
+
+  for (const edit of edits) {
+    lines.splice(edit.line - 1, edit.deleteCount, ...edit.insert);
+  }
+
+  return lines.join('\n');
+}
+
+export function compareDiagnostics(left: BoardDiagnostic, right: BoardDiagnostic): number {
+  return left.line - right.line || left.column - right.column;
+}
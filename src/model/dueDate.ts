@@ -0,0 +1,80 @@
+import { normalizeDueDate } from './card';
+
+export type DueState = 'overdue' | 'today' | 'upcoming';
+
+export interface DueDescription {
+  label: string;
+  state: DueState;
+  days: number;
+}
+
+const msPerDay = 24 * 60 * 60 * 1000;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function toDayNumber(value: string): number | null {
+  const normalized = normalizeDueDate(value);
+  if (!normalized) {
+    return null;
+  }
+
+  const [year, month, day] = normalized.split('-').map((part) => Number.parseInt(part, 10));
+  if (year === undefined || month === undefined || day === undefined) {
+    return null;
+  }
+
+  const time = Date.UTC(year, month - 1, day);
+  const check = new Date(time);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+
+  return Math.round(time / msPerDay);
+}
+
+export function fromDayNumber(dayNumber: number): string {
+  const date = new Date(dayNumber * msPerDay);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+export function addDays(value: string, days: number): string | null {
+  const dayNumber = toDayNumber(value);
+  return dayNumber === null ? null : fromDayNumber(dayNumber + days);
+}
+
+export function daysBetween(from: string, to: string): number | null {
+  const fromDay = toDayNumber(from);
+  const toDay = toDayNumber(to);
+  if (fromDay === null || toDay === null) {
+    return null;
+  }
+
+  return toDay - fromDay;
+}
+
+export function describeDueDate(dueDate: string, today: string): DueDescription | null {
+  const days = daysBetween(today, dueDate);
+  if (days === null) {
+    return null;
+  }
+
+  if (days < 0) {
+    return { label: `overdue ${-days}d`, state: 'overdue', days };
+  }
+
+  if (days === 0) {
+    return { label: 'due today', state: 'today', days };
+  }
+
+  if (days === 1) {
+    return { label: 'due tomorrow', state: 'upcoming', days };
+  }
+
+  return { label: `in ${days} days`, state: 'upcoming', days };
+}
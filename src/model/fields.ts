@@ -0,0 +1,131 @@
+export type CardFields = Record<string, string>;
+
+export const FIRST_CLASS_FIELD_KEYS = ['assignee', 'priority', 'estimate'];
+
+// Keys the plugin reads or writes itself; other keys only count as fields in the trailing field block.
+const KNOWN_FIELD_KEYS = new Set([...FIRST_CLASS_FIELD_KEYS, 'repeat', 'completed', 'auto-archive']);
+const RESERVED_FIELD_KEYS = new Set(['due', 'start']);
+const fieldLineRegex = /^([A-Za-z][A-Za-z0-9_-]*)::\s*(.*?)\s*$/;
+
+export function normalizeFieldKey(key: string): string {
+  return key.trim().toLowerCase();
+}
+
+export function isReservedFieldKey(key: string): boolean {
+  return RESERVED_FIELD_KEYS.has(normalizeFieldKey(key));
+}
+
+export function isKnownFieldKey(key: string): boolean {
+  return KNOWN_FIELD_KEYS.has(normalizeFieldKey(key));
+}
+
+export function findFieldKey(fields: CardFields, key: string): string | null {
+  const normalizedKey = normalizeFieldKey(key);
+  return Object.keys(fields).find((entry) => normalizeFieldKey(entry) === normalizedKey) ?? null;
+}
+
+export function parseFieldLine(line: string): { key: string; value: string } | null {
+  const match = line.trim().match(fieldLineRegex);
+  if (!match) {
+    return null;
+  }
+
+  const key = (match[1] || '').trim();
+  const value = (match[2] || '').trim();
+  if (!key || !value || isReservedFieldKey(key)) {
+    return null;
+  }
+
+  return { key, value };
+}
+
+export function compareFieldKeys(left: string, right: string): number {
+  const leftRank = FIRST_CLASS_FIELD_KEYS.indexOf(normalizeFieldKey(left));
+  const rightRank = FIRST_CLASS_FIELD_KEYS.indexOf(normalizeFieldKey(right));
+
+  if (leftRank >= 0 || rightRank >= 0) {
+    if (leftRank < 0) {
+      return 1;
+    }
+
+    if (rightRank < 0) {
+      return -1;
+    }
+
+    return leftRank - rightRank;
+  }
+
+  return normalizeFieldKey(left).localeCompare(normalizeFieldKey(right));
+}
+
+export function normalizeFields(fields: CardFields | null | undefined): CardFields {
+  const next: CardFields = {};
+  if (!fields) {
+    return next;
+  }
+
+  const entries = Object.entries(fields)
+    .map(([key, value]) => [key.trim(), String(value).replace(/\s+/g, ' ').trim()] as const)
+    .filter(([key, value]) => key.length > 0 && value.length > 0 && !isReservedFieldKey(key))
+    .sort(([left], [right]) => compareFieldKeys(left, right));
+
+  for (const [key, value] of entries) {
+    if (findFieldKey(next, key) === null) {
+      next[key] = value;
+    }
+  }
+
+  return next;
+}
+
+export function getField(fields: CardFields, key: string): string | null {
+  const existingKey = findFieldKey(fields, key);
+  return existingKey === null ? null : (fields[existingKey] ?? null);
+}
+
+export function setField(fields: CardFields, key: string, value: string | null): CardFields {
+  const existingKey = findFieldKey(fields, key);
+  const next = { ...fields };
+
+  if (value === null || value.trim() === '') {
+    if (existingKey !== null) {
+      delete next[existingKey];
+    }
+  } else {
+    next[existingKey ?? key.trim()] = value.trim();
+  }
+
+  return normalizeFields(next);
+}
+
+const PRIORITY_RANKS: Record<string, number> = {
+  urgent: 0,
+  critical: 0,
+  p0: 0,
+  highest: 0,
+  high: 1,
+  p1: 1,
+  medium: 2,
+  normal: 2,
+  p2: 2,
+  low: 3,
+  p3: 3,
+  lowest: 4,
+  p4: 4,
+};
+const UNKNOWN_PRIORITY_RANK = 5;
+
+export function priorityRank(value: string | null | undefined): number {
+  const normalized = (value || '').trim().toLowerCase();
+  if (!normalized) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  const known = PRIORITY_RANKS[normalized];
+  if (known !== undefined) {
+    return known;
+  }
+
+  const numeric = Number.parseFloat(normalized);
+  return Number.isNaN(numeric) ? UNKNOWN_PRIORITY_RANK : numeric;
+}
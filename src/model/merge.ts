@@ -0,0 +1,406 @@
+import { normalizeCard } from './card';
+import { BoardDocument, Card, Column } from './types';
+
+export type MergeSide = 'local' | 'incoming';
+
+export interface MergeConflict {
+  id: string;
+  kind: 'board' | 'column' | 'card';
+  label: string;
+  local: string;
+  incoming: string;
+}
+
+export interface MergeResult {
+  board: BoardDocument;
+  conflicts: MergeConflict[];
+}
+
+interface CardState {
+  card: Card;
+  location: string | null;
+}
+
+interface ColumnState {
+  title: string;
+  wipLimit: number | null;
+  sortMode: Column['sortMode'];
+  rules: Column['rules'];
+  notes: Column['notes'];
+}
+
+type BoardSettingKey =
+  | 'boardTitle'
+  | 'boardDescription'
+  | 'density'
+  | 'swimlanes'
+  | 'layout'
+  | 'views'
+  | 'preamble'
+  | 'epilogue'
+  | 'archiveNotes'
+  | 'extraFrontmatter';
+
+const BOARD_SETTING_LABELS: Record<BoardSettingKey, string> = {
+  boardTitle: 'Board title',
+  boardDescription: 'Board description',
+  density: 'Card density',
+  swimlanes: 'Swimlanes',
+  layout: 'Layout',
+  views: 'Saved views',
+  preamble: 'Text before the first column',
+  epilogue: 'Text after the archive',
+  archiveNotes: 'Notes in the archive',
+  extraFrontmatter: 'Other frontmatter properties',
+};
+
+const CARD_PROPERTIES = ['title', 'description', 'checked', 'startDate', 'dueDate', 'fields'] as const;
+const COLUMN_PROPERTIES = ['title', 'wipLimit', 'sortMode', 'rules', 'notes'] as const;
+
+function same(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function mergeValue<T>(base: T, local: T, incoming: T): { value: T; conflict: boolean } {
+  if (same(local, incoming) || same(incoming, base)) {
+    return { value: local, conflict: false };
+  }
+
+  if (same(local, base)) {
+    return { value: incoming, conflict: false };
+  }
+
+  return { value: local, conflict: true };
+}
+
+function collectCardStates(board: BoardDocument): Map<string, CardState> {
+  const states = new Map<string, CardState>();
+
+  board.columns.forEach((column) => {
+    column.cards.forEach((card) => {
+      states.set(card.id, { card, location: column.id });
+    });
+  });
+
+  board.archive.forEach((card) => {
+    states.set(card.id, { card, location: null });
+  });
+
+  return states;
+}
+
+function collectColumnStates(board: BoardDocument): Map<string, ColumnState> {
+  return new Map(
+    board.columns.map((column) => [
+      column.id,
+      {
+        title: column.title,
+        wipLimit: column.wipLimit,
+        sortMode: column.sortMode || 'manual',
+        rules: column.rules,
+        notes: column.notes,
+      },
+    ])
+  );
+}
+
+function listCardIds(board: BoardDocument, location: string | null): string[] {
+  const cards =
+    location === null ? board.archive : board.columns.find((column) => column.id === location)?.cards;
+  return (cards || []).map((card) => card.id);
+}
+
+function sameCardState(left: CardState, right: CardState): boolean {
+  return (
+    left.location === right.location &&
+    CARD_PROPERTIES.every((property) => same(left.card[property], right.card[property]))
+  );
+}
+
+function sameColumnState(left: ColumnState, right: ColumnState): boolean {
+  return COLUMN_PROPERTIES.every((property) => same(left[property], right[property]));
+}
+
+// Follows whichever side reordered relative to base; the other side's extras go after their predecessor.
+export function mergeOrder(base: string[], local: string[], incoming: string[], keep: Set<string>): string[] {
+  const shared = (ids: string[], other: string[]) => ids.filter((id) => other.includes(id));
+  const localChanged = !same(shared(local, base), shared(base, local));
+  const [primary, secondary] = localChanged ? [local, incoming] : [incoming, local];
+
+  const result = primary.filter((id) => keep.has(id));
+  secondary.forEach((id, index) => {
+    if (!keep.has(id) || result.includes(id)) {
+      return;
+    }
+
+    const predecessor = secondary
+      .slice(0, index)
+      .reverse()
+      .find((candidate) => result.includes(candidate));
+    result.splice(predecessor ? result.indexOf(predecessor) + 1 : 0, 0, id);
+  });
+
+  keep.forEach((id) => {
+    if (!result.includes(id)) {
+      result.push(id);
+    }
+  });
+
+  return result;
+}
+
+function describeCard(state: CardState | undefined, board: BoardDocument): string {
+  if (!state) {
+    return 'Deleted';
+  }
+
+  const { card, location } = state;
+  const where =
+    location === null
+      ? 'Archived'
+      : `In "${board.columns.find((column) => column.id === location)?.title || location}"`;
+  const details = [
+    where,
+    card.checked ? 'done' : '',
+    card.startDate ? `starts ${card.startDate}` : '',
+    card.dueDate ? `due ${card.dueDate}` : '',
+    ...Object.entries(card.fields).map(([key, value]) => `${key}: ${value}`),
+  ].filter((part) => part.length > 0);
+
+  return [card.title, card.description, details.join(' · ')].filter((part) => part.length > 0).join('\n');
+}
+
+function describeColumn(state: ColumnState | undefined): string {
+  if (!state) {
+    return 'Deleted (with its cards)';
+  }
+
+  return [
+    state.title,
+    state.wipLimit === null ? 'no WIP limit' : `WIP ${state.wipLimit}`,
+    `sort: ${state.sortMode || 'manual'}`,
+    ...(state.rules?.length ? [`${state.rules.length} rule${state.rules.length === 1 ? '' : 's'}`] : []),
+    ...(state.notes?.length ? [`${state.notes.length} note${state.notes.length === 1 ? '' : 's'}`] : []),
+  ].join(' · ');
+}
+
+function describeSetting(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? 'None' : value.map((entry) => JSON.stringify(entry)).join('\n');
+  }
+
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value, null, 2);
+  }
+
+  return typeof value === 'string' && value.length > 0 ? value : 'Empty';
+}
+
+function mergeCardState(
+  base: CardState,
+  local: CardState,
+  incoming: CardState
+): { state: CardState; conflict: boolean } {
+  let conflict = false;
+  const merged = { ...local.card };
+
+  CARD_PROPERTIES.forEach((property) => {
+    const result = mergeValue(base.card[property], local.card[property], incoming.card[property]);
+    conflict = conflict || result.conflict;
+    Object.assign(merged, { [property]: result.value });
+  });
+
+  const location = mergeValue(base.location, local.location, incoming.location);
+
+  return {
+    state: {
+      card: normalizeCard({
+        id: merged.id,
+        title: merged.title,
+        description: merged.description,
+        checked: merged.checked,
+        startDate: merged.startDate,
+        dueDate: merged.dueDate,
+        fields: merged.fields,
+      }),
+      location: location.value,
+    },
+    conflict: conflict || location.conflict,
+  };
+}
+
+function unionKeys<T>(...maps: Array<Map<string, T>>): string[] {
+  return Array.from(new Set(maps.flatMap((map) => Array.from(map.keys()))));
+}
+
+export function mergeBoards(
+  base: BoardDocument,
+  local: BoardDocument,
+  incoming: BoardDocument,
+  resolutions: Record<string, MergeSide> = {}
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const pick = (id: string) => resolutions[id] || 'local';
+
+  const settings = {} as Pick<BoardDocument, BoardSettingKey>;
+  (Object.keys(BOARD_SETTING_LABELS) as BoardSettingKey[]).forEach((key) => {
+    const result = mergeValue(base[key], local[key], incoming[key]);
+    let value = result.value;
+
+    if (result.conflict) {
+      const id = `board:${key}`;
+      conflicts.push({
+        id,
+        kind: 'board',
+        label: BOARD_SETTING_LABELS[key],
+        local: describeSetting(local[key]),
+        incoming: describeSetting(incoming[key]),
+      });
+      value = pick(id) === 'local' ? local[key] : incoming[key];
+    }
+
+    Object.assign(settings, { [key]: value });
+  });
+
+  const baseColumns = collectColumnStates(base);
+  const localColumns = collectColumnStates(local);
+  const incomingColumns = collectColumnStates(incoming);
+  const mergedColumns = new Map<string, ColumnState>();
+
+  unionKeys(baseColumns, localColumns, incomingColumns).forEach((id) => {
+    const baseState = baseColumns.get(id);
+    const localState = localColumns.get(id);
+    const incomingState = incomingColumns.get(id);
+    const conflictId = `column:${id}`;
+    const label = `Column "${localState?.title || incomingState?.title || baseState?.title || id}"`;
+    const addConflict = () => {
+      conflicts.push({
+        id: conflictId,
+        kind: 'column',
+        label,
+        local: describeColumn(localState),
+        incoming: describeColumn(incomingState),
+      });
+      return pick(conflictId) === 'local' ? localState : incomingState;
+    };
+
+    let merged: ColumnState | undefined;
+    if (!baseState) {
+      merged =
+        localState && incomingState && !sameColumnState(localState, incomingState)
+          ? addConflict()
+          : localState || incomingState;
+    } else if (!localState || !incomingState) {
+      const kept = localState || incomingState;
+      const keptBoard = localState ? local : incoming;
+      const keptChanged =
+        kept !== undefined &&
+        (!sameColumnState(baseState, kept) || !same(listCardIds(base, id), listCardIds(keptBoard, id)));
+      merged = kept && keptChanged ? addConflict() : undefined;
+    } else {
+      let conflict = false;
+      const next = { ...localState };
+      COLUMN_PROPERTIES.forEach((property) => {
+        const result = mergeValue(baseState[property], localState[property], incomingState[property]);
+        conflict = conflict || result.conflict;
+        Object.assign(next, { [property]: result.value });
+      });
+      merged = conflict ? addConflict() : next;
+    }
+
+    if (merged) {
+      mergedColumns.set(id, merged);
+    }
+  });
+
+  const baseCards = collectCardStates(base);
+  const localCards = collectCardStates(local);
+  const incomingCards = collectCardStates(incoming);
+  const mergedCards = new Map<string, CardState>();
+
+  unionKeys(baseCards, localCards, incomingCards).forEach((id) => {
+    const baseState = baseCards.get(id);
+    const localState = localCards.get(id);
+    const incomingState = incomingCards.get(id);
+    const conflictId = `card:${id}`;
+    const addConflict = () => {
+      conflicts.push({
+        id: conflictId,
+        kind: 'card',
+        label: `Card "${localState?.card.title || incomingState?.card.title || baseState?.card.title || id}"`,
+        local: describeCard(localState, local),
+        incoming: describeCard(incomingState, incoming),
+      });
+      return pick(conflictId) === 'local' ? localState : incomingState;
+    };
+
+    let merged: CardState | undefined;
+    if (!baseState) {
+      merged =
+        localState && incomingState && !sameCardState(localState, incomingState)
+          ? addConflict()
+          : localState || incomingState;
+    } else if (!localState || !incomingState) {
+      const kept = localState || incomingState;
+      merged = kept && !sameCardState(baseState, kept) ? addConflict() : undefined;
+    } else {
+      const result = mergeCardState(baseState, localState, incomingState);
+      merged = result.conflict ? addConflict() : result.state;
+    }
+
+    if (merged && (merged.location === null || mergedColumns.has(merged.location))) {
+      mergedCards.set(id, merged);
+    }
+  });
+
+  const cardsAt = (location: string | null): Card[] => {
+    const keep = new Set(
+      Array.from(mergedCards.entries())
+        .filter(([, state]) => state.location === location)
+        .map(([id]) => id)
+    );
+    const order = mergeOrder(
+      listCardIds(base, location),
+      listCardIds(local, location),
+      listCardIds(incoming, location),
+      keep
+    );
+    return order.flatMap((id) => {
+      const state = mergedCards.get(id);
+      return state ? [state.card] : [];
+    });
+  };
+
+  const columnOrder = mergeOrder(
+    base.columns.map((column) => column.id),
+    local.columns.map((column) => column.id),
+    incoming.columns.map((column) => column.id),
+    new Set(mergedColumns.keys())
+  );
+
+  return {
+    board: {
+      ...settings,
+      columns: columnOrder.flatMap((id) => {
+        const state = mergedColumns.get(id);
+        if (!state) {
+          return [];
+        }
+
+        return [
+          {
+            id,
+            title: state.title,
+            wipLimit: state.wipLimit,
+            sortMode: state.sortMode,
+            rules: state.rules,
+            notes: state.notes,
+            cards: cardsAt(id),
+          },
+        ];
+      }),
+      archive: cardsAt(null),
+    },
+    conflicts,
+  };
+}
@@ -0,0 +1,72 @@
+export const CURRENT_KANBAN_VERSION = 1;
+
+export interface RawBoardDocument {
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+export interface BoardMigration {
+  from: number;
+  description: string;
+  migrate: (document: RawBoardDocument) => RawBoardDocument;
+}
+
+export interface BoardMigrationResult {
+  document: RawBoardDocument;
+  // Null when `kanbanVersion` is present but not a version number; such documents are left untouched.
+  sourceVersion: number | null;
+  applied: BoardMigration[];
+}
+
+export class BoardMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BoardMigrationError';
+  }
+}
+
+// Each entry upgrades a document from `from` to `from + 1`; the pipeline stamps the new kanbanVersion.
+export const BOARD_MIGRATIONS: BoardMigration[] = [
+  {
+    from: 0,
+    description: 'Stamp kanbanVersion on boards written before the format was versioned',
+    migrate: (document) => document,
+  },
+];
+
+export function readKanbanVersion(frontmatter: Record<string, unknown>): number | null {
+  const value = frontmatter.kanbanVersion;
+  if (value === undefined || value === null) {
+    return 0;
+  }
+
+  const version = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : null;
+}
+
+export function migrateBoardDocument(
+  document: RawBoardDocument,
+  migrations: BoardMigration[] = BOARD_MIGRATIONS,
+  targetVersion = CURRENT_KANBAN_VERSION
+): BoardMigrationResult {
+  const sourceVersion = readKanbanVersion(document.frontmatter);
+  if (sourceVersion === null) {
+    return { document, sourceVersion, applied: [] };
+  }
+
+  const applied: BoardMigration[] = [];
+  let current = document;
+
+  for (let version = sourceVersion; version < targetVersion; version += 1) {
+    const migration = migrations.find((entry) => entry.from === version);
+    if (!migration) {
+      throw new BoardMigrationError(`No migration is registered for kanbanVersion ${version}.`);
+    }
+
+    const migrated = migration.migrate(current);
+    current = { ...migrated, frontmatter: { ...migrated.frontmatter, kanbanVersion: version + 1 } };
+    applied.push(migration);
+  }
+
+  return { document: current, sourceVersion, applied };
+}
@@ -0,0 +1,245 @@
+import { parse as parseYaml } from 'yaml';
+
+import { normalizeCard, normalizeDueDate } from './card';
+import { createDefaultBoard } from './boardTemplate';
+import { CardFields } from './fields';
+import { createId } from './id';
+import { BoardParseError, parseExtraFrontmatter } from './parse';
+import { BoardDocument, Card, Column } from './types';
+
+const frontmatterRegex = /^---\n([\s\S]*?)\n---\n?/;
+const settingsBlockRegex = /%%\s*kanban:settings[\s\S]*?%%/;
+const laneHeadingRegex = /^##\s+(.+?)\s*$/;
+const laneWipRegex = /^(.*?)\s*\((\d+)\)$/;
+const itemRegex = /^- \[([^\]])]\s?(.*)$/;
+const completeMarkerRegex = /^\*\*Complete\*\*\s*$/;
+const archiveSeparatorRegex = /^\*\*\*\s*$/;
+const blockIdRegex = /\s+\^([A-Za-z0-9-]+)\s*$/;
+const lineBreakRegex = /<br\s*\/?>/gi;
+
+interface ImportSettings {
+  dateTrigger: string;
+  timeTrigger: string;
+}
+
+interface RawLane {
+  title: string;
+  wipLimit: number | null;
+  items: string[][];
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function splitFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } | null {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const match = normalized.match(frontmatterRegex);
+  if (!match) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(match[1] || '');
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  return {
+    frontmatter: parsed as Record<string, unknown>,
+    body: normalized.slice((match[0] || '').length),
+  };
+}
+
+export function isObsidianKanbanMarkdown(content: string): boolean {
+  const split = splitFrontmatter(content);
+  return Boolean(split && 'kanban-plugin' in split.frontmatter && split.frontmatter.kanban !== true);
+}
+
+function readSettings(body: string): ImportSettings {
+  const settings: ImportSettings = { dateTrigger: '@', timeTrigger: '@@' };
+  const block = body.match(settingsBlockRegex)?.[0] || '';
+  const json = block.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    return settings;
+  }
+
+  try {
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    if (typeof parsed['date-trigger'] === 'string' && parsed['date-trigger'].trim()) {
+      settings.dateTrigger = parsed['date-trigger'].trim();
+    }
+    if (typeof parsed['time-trigger'] === 'string' && parsed['time-trigger'].trim()) {
+      settings.timeTrigger = parsed['time-trigger'].trim();
+    }
+  } catch {
+    return settings;
+  }
+
+  return settings;
+}
+
+function readPreamble(lines: string[]): string {
+  const firstLane = lines.findIndex((line) => laneHeadingRegex.test(line));
+  return lines
+    .slice(0, firstLane < 0 ? lines.length : firstLane)
+    .join('\n')
+    .replace(/^(?:[ \t]*\n)+/, '')
+    .trimEnd();
+}
+
+function readLanes(lines: string[]): RawLane[] {
+  const lanes: RawLane[] = [];
+  let current: RawLane | null = null;
+  let currentItem: string[] | null = null;
+
+  for (const line of lines) {
+    const heading = line.match(laneHeadingRegex);
+    if (heading) {
+      const wip = (heading[1] || '').match(laneWipRegex);
+      current = {
+        title: (wip ? wip[1] : heading[1])?.trim() || 'Untitled',
+        wipLimit: wip ? Number.parseInt(wip[2] || '', 10) : null,
+        items: [],
+      };
+      currentItem = null;
+      lanes.push(current);
+      continue;
+    }
+
+    if (!current || completeMarkerRegex.test(line)) {
+      continue;
+    }
+
+    if (itemRegex.test(line)) {
+      currentItem = [line];
+      current.items.push(currentItem);
+      continue;
+    }
+
+    if (currentItem && (line.trim() === '' || /^(\t| {2})/.test(line))) {
+      currentItem.push(line);
+      continue;
+    }
+
+    currentItem = null;
+  }
+
+  return lanes;
+}
+
+function extractDates(
+  text: string,
+  settings: ImportSettings
+): { text: string; dueDate: string | null; time: string | null } {
+  const date = escapeRegex(settings.dateTrigger);
+  const time = escapeRegex(settings.timeTrigger);
+  let dueDate: string | null = null;
+  let timeValue: string | null = null;
+
+  const withoutTime = text.replace(new RegExp(`${time}\\{([^}]*)\\}`, 'g'), (_match, value: string) => {
+    timeValue = timeValue || value.trim();
+    return '';
+  });
+
+  const withoutDate = withoutTime.replace(
+    new RegExp(`${date}(?:\\{([^}]*)\\}|\\[\\[([^\\]]*)\\]\\])`, 'g'),
+    (match, braced: string | undefined, linked: string | undefined) => {
+      const normalized = normalizeDueDate(braced ?? linked);
+      if (!normalized || dueDate) {
+        return match;
+      }
+
+      dueDate = normalized;
+      return '';
+    }
+  );
+
+  return { text: withoutDate, dueDate, time: timeValue };
+}
+
+function convertItem(lines: string[], settings: ImportSettings, usedIds: Set<string>): Card {
+  const match = (lines[0] || '').match(itemRegex);
+  const checked = (match?.[1] || ' ').toLowerCase() === 'x';
+  let firstLine = match?.[2] || '';
+
+  let id = '';
+  const blockId = firstLine.match(blockIdRegex);
+  if (blockId && !usedIds.has(blockId[1] || '')) {
+    id = blockId[1] || '';
+    firstLine = firstLine.replace(blockIdRegex, '');
+  }
+  if (!id) {
+    id = createId('card');
+  }
+  usedIds.add(id);
+
+  const continuation = lines.slice(1).map((line) => line.replace(/^(\t| {2,4})/, ''));
+  const text = [...firstLine.split(lineBreakRegex), ...continuation].join('\n');
+  const { text: cleaned, dueDate, time } = extractDates(text, settings);
+  const [title = '', ...descriptionLines] = cleaned.split('\n');
+
+  const fields: CardFields = {};
+  if (time) {
+    fields.time = time;
+  }
+
+  return normalizeCard({
+    id,
+    title: title.replace(/[ \t]{2,}/g, ' ').trim() || 'Untitled',
+    description: descriptionLines
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .trim(),
+    checked,
+    dueDate,
+    fields,
+  });
+}
+
+export function convertObsidianKanbanMarkdown(content: string, boardTitle: string): BoardDocument {
+  const split = splitFrontmatter(content);
+  if (!split || !('kanban-plugin' in split.frontmatter)) {
+    throw new BoardParseError('File frontmatter is missing `kanban-plugin`.');
+  }
+
+  const settings = readSettings(split.body);
+  const lines = split.body.replace(settingsBlockRegex, '').split('\n');
+  const separatorIndex = lines.findIndex((line) => archiveSeparatorRegex.test(line));
+  const laneLines = separatorIndex >= 0 ? lines.slice(0, separatorIndex) : lines;
+  const archiveLines = separatorIndex >= 0 ? lines.slice(separatorIndex + 1) : [];
+
+  const usedIds = new Set<string>();
+  const columns: Column[] = readLanes(laneLines).map((lane) => ({
+    id: createId('column'),
+    title: lane.title,
+    wipLimit: lane.wipLimit,
+    sortMode: 'manual',
+    cards: lane.items.map((item) => convertItem(item, settings, usedIds)),
+  }));
+  const archive = readLanes(['## Archive', ...archiveLines]).flatMap((lane) =>
+    lane.items.map((item) => convertItem(item, settings, usedIds))
+  );
+
+  const board = createDefaultBoard(boardTitle);
+  board.columns = columns;
+  board.archive = archive;
+
+  const extraFrontmatter = parseExtraFrontmatter(split.frontmatter);
+  delete extraFrontmatter['kanban-plugin'];
+  if (Object.keys(extraFrontmatter).length > 0) {
+    board.extraFrontmatter = extraFrontmatter;
+  }
+
+  const preamble = readPreamble(laneLines);
+  if (preamble) {
+    board.preamble = preamble;
+  }
+
+  return board;
+}
@@ -1,35 +1,103 @@
 import { parse as parseYaml } from 'yaml';
 
+import { parseColumnRules, serializeColumnRules } from './automation';
 import { normalizeCard, normalizeDueDate } from './card';
 import { createDefaultBoard } from './boardTemplate';
+import { compareDiagnostics } from './diagnostics';
+import { toDayNumber } from './dueDate';
+import { CardFields, findFieldKey, isKnownFieldKey, parseFieldLine } from './fields';
 import { createId } from './id';
-import { BoardDocument, Card, CardDensity, Column, ColumnDefinition } from './types';
+import { CURRENT_KANBAN_VERSION, migrateBoardDocument } from './migrations';
+import { parseRecurrence } from './recurrence';
+import {
+  BoardDiagnostic,
+  BoardDiagnosticFix,
+  BoardDocument,
+  BoardFormatInfo,
+  BoardLayout,
+  Card,
+  CardDensity,
+  CardIdRepair,
+  Column,
+  ColumnDefinition,
+  ColumnNote,
+  ColumnSortMode,
+  FilterView,
+  SwimlaneGroup,
+} from './types';
 
 const headingRegex = /^##\s+\[([^\]]+)]\s+(.+?)\s*$/;
 const cardRegex = /^-\s+\[([ xX])]\s+\[([^\]]+)]\s*(.*)$/;
 const dueLineRegex = /^due::\s*(\d{4}-\d{2}-\d{2})\s*$/;
+const startLineRegex = /^start::\s*(\d{4}-\d{2}-\d{2})\s*$/;
 const blockAnchorRegex = /^\^[A-Za-z0-9/_-]+\s*$/;
 const archiveBlockRegex =
   /%%\s*kanban-next:archive:start\s*%%\n?([\s\S]*?)\n?%%\s*kanban-next:archive:end\s*%%/m;
+const archiveStartRegex = /^%%\s*kanban-next:archive:start\s*%%\n?/;
+const cardIdRegex = /^(-\s+\[[ xX]]\s+\[)([^\]]+)(])/;
+const headingIdRegex = /^(##\s+\[)([^\]]+)(])/;
+const frontmatterIdRegex = /^(\s*(?:-\s+)?id:\s*)(['"]?)(.+?)\2\s*$/;
+
+const KNOWN_FRONTMATTER_KEYS = new Set([
+  'kanban',
+  'kanbanVersion',
+  'boardTitle',
+  'boardDescription',
+  'density',
+  'swimlanes',
+  'layout',
+  'views',
+  'columns',
+]);
 
 interface ParsedColumn {
   id: string;
   title: string;
+  line: number;
+  text: string;
   cards: Card[];
+  notes: ColumnNote[];
+}
+
+interface ParseContext {
+  diagnostics: BoardDiagnostic[];
+  cardIds: Set<string>;
+  // Every id written in the file, so a repaired duplicate never takes an id another card already owns.
+  writtenCardIds: Set<string>;
+  idRepairs: CardIdRepair[];
+}
+
+interface ParsedSection {
+  cards: Card[];
+  notes: ColumnNote[];
 }
 
 interface ParsedFrontmatter {
   kanban?: unknown;
+  kanbanVersion?: unknown;
   boardTitle?: unknown;
   boardDescription?: unknown;
   density?: unknown;
+  swimlanes?: unknown;
+  layout?: unknown;
+  views?: unknown;
   columns?: unknown;
 }
 
+interface SplitFrontmatter {
+  frontmatter: ParsedFrontmatter;
+  frontmatterLines: string[];
+  body: string;
+  bodyLine: number;
+}
+
 export class BoardParseError extends Error {
-  constructor(message: string) {
+  readonly line: number | null;
+
+  constructor(message: string, line: number | null = null) {
     super(message);
     this.name = 'BoardParseError';
+    this.line = line;
   }
 }
 
@@ -37,28 +105,40 @@ function normalizeNewlines(content: string): string {
   return content.replace(/\r\n/g, '\n');
 }
 
-function splitFrontmatter(content: string): { frontmatter: ParsedFrontmatter; body: string } {
+function countNewlines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+function readYamlErrorLine(error: unknown): number | null {
+  const linePos = (error as { linePos?: Array<{ line: number }> } | null)?.linePos;
+  const line = Array.isArray(linePos) ? linePos[0]?.line : undefined;
+  return typeof line === 'number' ? line + 1 : null;
+}
+
+function splitFrontmatter(content: string): SplitFrontmatter {
   const normalized = normalizeNewlines(content);
   const match = normalized.match(/^---\n([\s\S]*?)\n---\n?/);
 
   if (!match) {
-    throw new BoardParseError('Kanban board is missing YAML frontmatter.');
+    throw new BoardParseError('Kanban board is missing YAML frontmatter.', 1);
   }
 
   let parsed: unknown;
   try {
     parsed = parseYaml(match[1] || '');
-  } catch {
-    throw new BoardParseError('Kanban frontmatter could not be parsed as YAML.');
+  } catch (error) {
+    throw new BoardParseError('Kanban frontmatter could not be parsed as YAML.', readYamlErrorLine(error));
   }
 
   if (!parsed || typeof parsed !== 'object') {
-    throw new BoardParseError('Kanban frontmatter must be a YAML object.');
+    throw new BoardParseError('Kanban frontmatter must be a YAML object.', 1);
   }
 
   return {
     frontmatter: parsed as ParsedFrontmatter,
+    frontmatterLines: (match[1] || '').split('\n'),
     body: normalized.slice((match[0] || '').length),
+    bodyLine: countNewlines(match[0] || '') + 1,
   };
 }
 
@@ -66,6 +146,46 @@ function parseDensity(value: unknown): CardDensity {
   return value === 'compact' ? 'compact' : 'normal';
 }
 
+function parseSwimlaneGroup(value: unknown): SwimlaneGroup {
+  return value === 'tag' || value === 'assignee' || value === 'priority' ? value : 'none';
+}
+
+function parseBoardLayout(value: unknown): BoardLayout {
+  return value === 'calendar' || value === 'table' || value === 'timeline' ? value : 'board';
+}
+
+function parseColumnSortMode(value: unknown): ColumnSortMode {
+  return value === 'due' || value === 'title' || value === 'created' || value === 'priority'
+    ? value
+    : 'manual';
+}
+
+function parseFilterViews(value: unknown): FilterView[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const views: FilterView[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') {
+      continue;
+    }
+
+    const name = (entry as { name?: unknown }).name;
+    const query = (entry as { query?: unknown }).query;
+    if (typeof name !== 'string' || typeof query !== 'string' || !name.trim() || seen.has(name.trim())) {
+      continue;
+    }
+
+    seen.add(name.trim());
+    views.push({ name: name.trim(), query: query.trim() });
+  }
+
+  return views;
+}
+
 function parseWipLimit(value: unknown): number | null {
   if (typeof value !== 'number' || Number.isNaN(value)) {
     return null;
@@ -98,17 +218,45 @@ function parseColumnDefinitions(value: unknown): ColumnDefinition[] {
       continue;
     }
 
+    const rules = parseColumnRules((entry as { rules?: unknown }).rules);
     columns.push({
       id,
       title,
       wipLimit: parseWipLimit((entry as { wipLimit?: unknown }).wipLimit),
+      sortMode: parseColumnSortMode((entry as { sortMode?: unknown }).sortMode),
+      ...(rules.length > 0 ? { rules: serializeColumnRules(rules) } : {}),
     });
   }
 
   return columns;
 }
 
-function normalizeDescription(rawLines: string[]): { description: string; dueDate: string | null } {
+function trimBlankLines(text: string): string {
+  return text.trim() ? text.replace(/^(?:[ \t]*\n)+/, '').trimEnd() : '';
+}
+
+export function parseExtraFrontmatter(frontmatter: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(frontmatter).filter(([key]) => !KNOWN_FRONTMATTER_KEYS.has(key))
+  );
+}
+
+function isFieldBlockLine(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    parseFieldLine(trimmed) !== null ||
+    dueLineRegex.test(trimmed) ||
+    startLineRegex.test(trimmed) ||
+    blockAnchorRegex.test(trimmed)
+  );
+}
+
+function normalizeDescription(rawLines: string[]): {
+  description: string;
+  startDate: string | null;
+  dueDate: string | null;
+  fields: CardFields;
+} {
   const lines = [...rawLines];
   while (lines.length > 0) {
     const last = lines[lines.length - 1];
@@ -118,10 +266,16 @@ function normalizeDescription(rawLines: string[]): { description: string; dueDat
     lines.pop();
   }
 
+  let startDate: string | null = null;
   let dueDate: string | null = null;
+  const fields: CardFields = {};
   const bodyLines: string[] = [];
+  let trailingStart = lines.length;
+  while (trailingStart > 0 && isFieldBlockLine(lines[trailingStart - 1] || '')) {
+    trailingStart -= 1;
+  }
 
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
     if (line.trim().match(blockAnchorRegex)) {
       continue;
     }
@@ -132,27 +286,132 @@ function normalizeDescription(rawLines: string[]): { description: string; dueDat
       continue;
     }
 
+    const startMatch = line.trim().match(startLineRegex);
+    if (!startDate && startMatch) {
+      startDate = normalizeDueDate(startMatch[1] || '');
+      continue;
+    }
+
+    const field = parseFieldLine(line);
+    const structured = field !== null && (index >= trailingStart || isKnownFieldKey(field.key));
+    if (field && structured && findFieldKey(fields, field.key) === null) {
+      fields[field.key] = field.value;
+      continue;
+    }
+
     bodyLines.push(line);
   }
 
   return {
     description: bodyLines.join('\n').trimEnd(),
+    startDate,
     dueDate,
+    fields,
   };
 }
 
-function parseCardsFromLines(lines: string[]): Card[] {
+function collectWrittenCardIds(body: string): Set<string> {
+  const ids = new Set<string>();
+  for (const line of body.split('\n')) {
+    const id = line.match(cardIdRegex)?.[2]?.trim();
+    if (id) {
+      ids.add(id);
+    }
+  }
+
+  return ids;
+}
+
+function claimCardId(text: string, lineNumber: number, context: ParseContext): string {
+  const match = text.match(cardIdRegex);
+  const id = (match?.[2] || '').trim();
+  if (!id) {
+    return createId('card');
+  }
+
+  if (!context.cardIds.has(id)) {
+    context.cardIds.add(id);
+    return id;
+  }
+
+  let suffix = 2;
+  while (context.cardIds.has(`${id}-${suffix}`) || context.writtenCardIds.has(`${id}-${suffix}`)) {
+    suffix += 1;
+  }
+
+  const nextId = `${id}-${suffix}`;
+  context.cardIds.add(nextId);
+  context.idRepairs.push({ previousId: id, id: nextId, line: lineNumber });
+  context.diagnostics.push({
+    kind: 'duplicate-card-id',
+    severity: 'warning',
+    message: `Card id "${id}" was already used by another card and was reassigned to "${nextId}".`,
+    line: lineNumber,
+    column: (match?.[1]?.length || 0) + 1,
+  });
+
+  return nextId;
+}
+
+function inspectDescriptionLine(line: string, lineNumber: number, context: ParseContext): void {
+  const date = line.trim().match(/^(due|start)::\s*(.*?)\s*$/);
+  if (date && toDayNumber(date[2] || '') === null) {
+    const key = date[1] || 'due';
+    context.diagnostics.push({
+      kind: key === 'start' ? 'invalid-start-date' : 'invalid-due-date',
+      severity: 'warning',
+      message: `"${date[2] || ''}" is not a valid ${key} date; use YYYY-MM-DD.`,
+      line: lineNumber,
+      column: line.indexOf(`${key}::`) + 1,
+    });
+  }
+
+  const repeat = line.trim().match(/^repeat::\s*(.+?)\s*$/i);
+  if (repeat && !parseRecurrence(repeat[1])) {
+    context.diagnostics.push({
+      kind: 'invalid-repeat-rule',
+      severity: 'warning',
+      message: `"${repeat[1] || ''}" is not a repeat rule; try "every week" or "monthly on 1".`,
+      line: lineNumber,
+      column: line.toLowerCase().indexOf('repeat::') + 1,
+    });
+  }
+}
+
+function parseCardsFromLines(lines: string[], firstLine: number, context: ParseContext): ParsedSection {
   const cards: Card[] = [];
+  const notes: ColumnNote[] = [];
+  let noteLines: string[] = [];
+
+  const flushNote = () => {
+    const text = trimBlankLines(noteLines.join('\n'));
+    if (text) {
+      notes.push({ afterCardId: cards[cards.length - 1]?.id ?? null, text });
+    }
+    noteLines = [];
+  };
 
   for (let i = 0; i < lines.length; i += 1) {
     const line = lines[i] || '';
     const cardMatch = line.match(cardRegex);
     if (!cardMatch) {
+      if (line.trim() && /^( {2}|\t)/.test(line)) {
+        context.diagnostics.push({
+          kind: 'orphaned-line',
+          severity: 'warning',
+          message: 'Indented line is not attached to a card and is kept as a note.',
+          line: firstLine + i,
+          column: 1,
+        });
+      }
+      noteLines.push(line);
       continue;
     }
 
+    flushNote();
+
     const checked = (cardMatch[1] || '').toLowerCase() === 'x';
-    const cardId = (cardMatch[2] || '').trim() || createId('card');
+    const cardId = claimCardId(line, firstLine + i, context);
     const title = (cardMatch[3] || '').trim();
     const descriptionLines: string[] = [];
 
@@ -164,6 +423,7 @@ function parseCardsFromLines(lines: string[]): Card[] {
 
       if (nextLine.trim() === '' || nextLine.startsWith('  ') || nextLine.startsWith('\t')) {
         descriptionLines.push(nextLine.replace(/^( {2}|\t)/, ''));
+        inspectDescriptionLine(nextLine, firstLine + nextIndex, context);
         i = nextIndex;
         continue;
       }
@@ -171,32 +431,44 @@ function parseCardsFromLines(lines: string[]): Card[] {
       break;
     }
 
-    const { description, dueDate } = normalizeDescription(descriptionLines);
+    const { description, startDate, dueDate, fields } = normalizeDescription(descriptionLines);
     cards.push(
       normalizeCard({
         id: cardId,
         title,
         description,
         checked,
+        startDate,
         dueDate,
+        fields,
       })
     );
   }
 
-  return cards;
+  flushNote();
+  return { cards, notes };
 }
 
-function parseColumnsFromBody(body: string): ParsedColumn[] {
+function parseColumnsFromBody(
+  body: string,
+  firstLine: number,
+  context: ParseContext
+): { preamble: string; columns: ParsedColumn[] } {
   const lines = normalizeNewlines(body).split('\n');
   const columns: ParsedColumn[] = [];
+  const preambleLines: string[] = [];
 
   for (let i = 0; i < lines.length; i += 1) {
     const line = lines[i] || '';
     const headingMatch = line.match(headingRegex);
     if (!headingMatch) {
+      if (columns.length === 0) {
+        preambleLines.push(line);
+      }
       continue;
     }
 
+    const headingLine = firstLine + i;
     const sectionLines: string[] = [];
 
     for (let nextIndex = i + 1; nextIndex < lines.length; nextIndex += 1) {
@@ -213,36 +485,53 @@ function parseColumnsFromBody(body: string): ParsedColumn[] {
       }
     }
 
+    const section = parseCardsFromLines(sectionLines, headingLine + 1, context);
     columns.push({
       id: (headingMatch[1] || '').trim() || createId('column'),
       title: (headingMatch[2] || '').trim() || 'Untitled',
-      cards: parseCardsFromLines(sectionLines),
+      line: headingLine,
+      text: line,
+      cards: section.cards,
+      notes: section.notes,
     });
   }
 
-  return columns;
+  return { preamble: trimBlankLines(preambleLines.join('\n')), columns };
 }
 
-function extractArchiveSection(body: string): { bodyWithoutArchive: string; archive: Card[] } {
+function extractArchiveSection(
+  body: string,
+  firstLine: number
+): {
+  bodyWithoutArchive: string;
+  archiveLines: string[];
+  archiveLine: number;
+  epilogue: string;
+} {
   const normalized = normalizeNewlines(body);
   const match = normalized.match(archiveBlockRegex);
 
   if (!match || typeof match.index !== 'number') {
     return {
       bodyWithoutArchive: normalized,
-      archive: [],
+      archiveLines: [],
+      archiveLine: firstLine,
+      epilogue: '',
     };
   }
 
-  const archiveMarkdown = match[1] || '';
-  const archive = parseCardsFromLines(archiveMarkdown.split('\n'));
-
-  const bodyWithoutArchive =
-    normalized.slice(0, match.index) + normalized.slice(match.index + (match[0] || '').length);
+  const contentStart = match.index + (match[0]?.match(archiveStartRegex)?.[0].length || 0);
+  const before = normalized.slice(0, match.index);
+  const after = normalized.slice(match.index + (match[0] || '').length);
+  const afterHasColumns = after.split('\n').some((line) => headingRegex.test(line));
+  // Blank lines stand in for the archive block so later sections keep their line numbers.
+  const placeholder = '\n'.repeat(countNewlines(match[0] || ''));
 
   return {
-    bodyWithoutArchive,
-    archive,
+    bodyWithoutArchive: afterHasColumns ? before + placeholder + after : before,
+    archiveLines: (match[1] || '').split('\n'),
+    archiveLine: firstLine + countNewlines(normalized.slice(0, contentStart)),
+    epilogue: afterHasColumns ? '' : trimBlankLines(after),
   };
 }
 
@@ -254,12 +543,16 @@ function mergeColumns(fromFrontmatter: ColumnDefinition[], fromBody: ParsedColum
   for (const definition of fromFrontmatter) {
     seen.add(definition.id);
     const bodyColumn = bodyById.get(definition.id);
+    const rules = parseColumnRules(definition.rules);
 
     columns.push({
       id: definition.id,
       title: definition.title || bodyColumn?.title || 'Untitled',
       wipLimit: definition.wipLimit,
+      sortMode: definition.sortMode || 'manual',
+      ...(rules.length > 0 ? { rules } : {}),
       cards: bodyColumn?.cards || [],
+      ...(bodyColumn && bodyColumn.notes.length > 0 ? { notes: bodyColumn.notes } : {}),
     });
   }
 
@@ -272,20 +565,193 @@ function mergeColumns(fromFrontmatter: ColumnDefinition[], fromBody: ParsedColum
       id: bodyColumn.id,
       title: bodyColumn.title,
       wipLimit: null,
+      sortMode: 'manual',
       cards: bodyColumn.cards,
+      ...(bodyColumn.notes.length > 0 ? { notes: bodyColumn.notes } : {}),
     });
   }
 
   return columns;
 }
 
+function idColumn(text: string, pattern: RegExp): number {
+  return (text.match(pattern)?.[1]?.length || 0) + 1;
+}
+
+function findFrontmatterDefinition(
+  split: SplitFrontmatter,
+  id: string,
+  occurrence: number
+): { line: number; column: number } {
+  let remaining = occurrence;
+
+  for (let i = 0; i < split.frontmatterLines.length; i += 1) {
+    const text = split.frontmatterLines[i] || '';
+    const match = text.match(frontmatterIdRegex);
+    if (!match || (match[3] || '').trim() !== id) {
+      continue;
+    }
+
+    if (remaining === 0) {
+      return { line: i + 2, column: (match[1]?.length || 0) + 1 };
+    }
+    remaining -= 1;
+  }
+
+  return { line: 1, column: 1 };
+}
+
+function indentOf(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+// Deletes only the lines of one `columns:` entry so comments and formatting elsewhere survive.
+function removeColumnDefinitionFix(
+  split: SplitFrontmatter,
+  id: string,
+  occurrence: number,
+  label: string
+): BoardDiagnosticFix | undefined {
+  const lines = split.frontmatterLines;
+  const idIndex = findFrontmatterDefinition(split, id, occurrence).line - 2;
+  const idLine = lines[idIndex];
+  if (idLine === undefined) {
+    return undefined;
+  }
+
+  // The entry starts at the `- ` that opens it, which is the id line itself or the nearest one above it
+  // with a smaller indent (nested lists such as `rules:` sit deeper).
+  const opensEntry = (index: number) =>
+    /^\s*-\s/.test(lines[index] || '') &&
+    (index === idIndex || indentOf(lines[index] || '') < indentOf(idLine));
+  let start = idIndex;
+  while (start > 0 && !opensEntry(start)) {
+    start -= 1;
+  }
+  if (!opensEntry(start)) {
+    return undefined;
+  }
+
+  const itemIndent = indentOf(lines[start] || '');
+
+  let end = start + 1;
+  while (end < lines.length) {
+    const text = lines[end] || '';
+    if (text.trim() && indentOf(text) <= itemIndent) {
+      break;
+    }
+    end += 1;
+  }
+  while (end > start + 1 && !(lines[end - 1] || '').trim()) {
+    end -= 1;
+  }
+
+  return { label, edits: [{ line: start + 2, deleteCount: end - start, insert: [] }] };
+}
+
+function describeInvalidFormatVersion(split: SplitFrontmatter): BoardDiagnostic {
+  const index = split.frontmatterLines.findIndex((text) => /^kanbanVersion\s*:/.test(text));
+  const value = split.frontmatter.kanbanVersion;
+  return {
+    kind: 'invalid-format-version',
+    severity: 'error',
+    message:
+      `kanbanVersion ${JSON.stringify(value)} is not a format version number, ` +
+      'so the board is open read-only.',
+    line: index >= 0 ? index + 2 : 1,
+    column: 1,
+  };
+}
+
+function collectColumnDiagnostics(
+  split: SplitFrontmatter,
+  fromFrontmatter: ColumnDefinition[],
+  fromBody: ParsedColumn[],
+  context: ParseContext
+): void {
+  const bodyIds = new Set<string>();
+  for (const column of fromBody) {
+    if (!bodyIds.has(column.id)) {
+      bodyIds.add(column.id);
+      continue;
+    }
+
+    const nextId = createId('column');
+    context.diagnostics.push({
+      kind: 'duplicate-column-id',
+      severity: 'error',
+      message: `Column id "${column.id}" is used by more than one section.`,
+      line: column.line,
+      column: idColumn(column.text, headingIdRegex),
+      fix: {
+        label: 'Regenerate id',
+        edits: [
+          {
+            line: column.line,
+            deleteCount: 1,
+            insert: [column.text.replace(headingIdRegex, `$1${nextId}$3`)],
+          },
+        ],
+      },
+    });
+  }
+
+  const occurrences = new Map<string, number>();
+  for (const definition of fromFrontmatter) {
+    const occurrence = occurrences.get(definition.id) || 0;
+    occurrences.set(definition.id, occurrence + 1);
+    const location = findFrontmatterDefinition(split, definition.id, occurrence);
+
+    if (occurrence > 0) {
+      context.diagnostics.push({
+        kind: 'duplicate-column-id',
+        severity: 'error',
+        message: `Column "${definition.id}" is defined more than once in frontmatter.`,
+        ...location,
+        fix: removeColumnDefinitionFix(split, definition.id, occurrence, 'Remove duplicate'),
+      });
+    } else if (!bodyIds.has(definition.id)) {
+      context.diagnostics.push({
+        kind: 'missing-column-section',
+        severity: 'warning',
+        message: `Column "${definition.title}" is defined in frontmatter but has no section in the board.`,
+        ...location,
+        fix: removeColumnDefinitionFix(split, definition.id, occurrence, 'Remove definition'),
+      });
+    }
+  }
+}
+
+export interface ParsedBoard {
+  board: BoardDocument;
+  format: BoardFormatInfo;
+  diagnostics: BoardDiagnostic[];
+  idRepairs: CardIdRepair[];
+}
+
 export function parseBoardMarkdown(content: string): BoardDocument {
-  const { frontmatter, body } = splitFrontmatter(content);
+  return parseBoardDocument(content).board;
+}
+
+export function parseBoardDocument(content: string): ParsedBoard {
+  const split = splitFrontmatter(content);
 
-  if (frontmatter.kanban !== true) {
+  if (split.frontmatter.kanban !== true) {
     throw new BoardParseError('File frontmatter is missing `kanban: true`.');
   }
 
+  const migration = migrateBoardDocument({
+    frontmatter: split.frontmatter as Record<string, unknown>,
+    body: split.body,
+  });
+  const frontmatter = migration.document.frontmatter as ParsedFrontmatter;
+  const body = migration.document.body;
+  const format: BoardFormatInfo = {
+    sourceVersion: migration.sourceVersion,
+    migrations: migration.applied.map((entry) => entry.description),
+    readOnly: migration.sourceVersion === null || migration.sourceVersion > CURRENT_KANBAN_VERSION,
+  };
+
   const boardTitle =
     typeof frontmatter.boardTitle === 'string' && frontmatter.boardTitle.trim().length > 0
       ? frontmatter.boardTitle.trim()
@@ -295,25 +761,67 @@ export function parseBoardMarkdown(content: string): BoardDocument {
     typeof frontmatter.boardDescription === 'string' ? frontmatter.boardDescription.trim() : '';
 
   const density = parseDensity(frontmatter.density);
+  const swimlanes = parseSwimlaneGroup(frontmatter.swimlanes);
+  const layout = parseBoardLayout(frontmatter.layout);
+  const views = parseFilterViews(frontmatter.views);
   const frontmatterColumns = parseColumnDefinitions(frontmatter.columns);
 
-  const { bodyWithoutArchive, archive } = extractArchiveSection(body);
-  const bodyColumns = parseColumnsFromBody(bodyWithoutArchive);
+  const context: ParseContext = {
+    diagnostics: [],
+    cardIds: new Set(),
+    writtenCardIds: collectWrittenCardIds(body),
+    idRepairs: [],
+  };
+  const { bodyWithoutArchive, archiveLines, archiveLine, epilogue } = extractArchiveSection(
+    body,
+    split.bodyLine
+  );
+  const { preamble, columns: bodyColumns } = parseColumnsFromBody(
+    bodyWithoutArchive,
+    split.bodyLine,
+    context
+  );
+  const { cards: archive, notes: archiveNotes } = parseCardsFromLines(archiveLines, archiveLine, context);
   const columns = mergeColumns(frontmatterColumns, bodyColumns);
+  collectColumnDiagnostics(split, frontmatterColumns, bodyColumns, context);
+  if (migration.sourceVersion === null) {
+    context.diagnostics.push(describeInvalidFormatVersion(split));
+  }
+  const diagnostics = context.diagnostics.sort(compareDiagnostics);
+  const idRepairs = context.idRepairs;
+  const extraFrontmatter = parseExtraFrontmatter(migration.document.frontmatter);
+  const unknownContent = {
+    ...(archiveNotes.length > 0 ? { archiveNotes } : {}),
+    ...(preamble ? { preamble } : {}),
+    ...(epilogue ? { epilogue } : {}),
+    ...(Object.keys(extraFrontmatter).length > 0 ? { extraFrontmatter } : {}),
+  };
 
   if (columns.length === 0) {
     const fallback = createDefaultBoard(boardTitle);
     fallback.boardDescription = boardDescription;
     fallback.density = density;
+    fallback.swimlanes = swimlanes;
+    fallback.layout = layout;
+    fallback.views = views;
     fallback.archive = archive;
-    return fallback;
+    return { board: { ...fallback, ...unknownContent }, format, diagnostics, idRepairs };
   }
 
   return {
-    boardTitle,
-    boardDescription,
-    density,
-    columns,
-    archive,
+    board: {
+      boardTitle,
+      boardDescription,
+      density,
+      swimlanes,
+      layout,
+      views,
+      columns,
+      archive,
+      ...unknownContent,
+    },
+    format,
+    diagnostics,
+    idRepairs,
   };
 }
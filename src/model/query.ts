@@ -0,0 +1,395 @@
+import { normalizeDueDate, normalizeTagFilter } from './card';
+import { addDays } from './dueDate';
+import { getField, normalizeFieldKey } from './fields';
+import { Card } from './types';
+
+export type QueryComparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'tag'; value: string }
+  | { type: 'due'; comparison: QueryComparison; value: string }
+  | { type: 'due-presence'; present: boolean }
+  | { type: 'is'; value: 'open' | 'done' | 'overdue' }
+  | { type: 'column'; value: string }
+  | { type: 'has'; key: string }
+  | { type: 'field'; key: string; value: string };
+
+export interface QueryContext {
+  columnId: string;
+  columnTitle: string;
+  today: string;
+}
+
+type Token =
+  | { kind: 'lparen'; position: number }
+  | { kind: 'rparen'; position: number }
+  | { kind: 'and'; position: number }
+  | { kind: 'or'; position: number }
+  | { kind: 'not'; position: number }
+  | { kind: 'term'; position: number; key: string | null; value: string };
+
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+const IS_VALUES: Record<string, 'open' | 'done' | 'overdue'> = {
+  open: 'open',
+  todo: 'open',
+  done: 'done',
+  checked: 'done',
+  complete: 'done',
+  completed: 'done',
+  overdue: 'overdue',
+};
+
+const fieldKeyRegex = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  let index = start + 1;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (char === '\\' && index + 1 < input.length) {
+      value += input[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '"') {
+      return { value, end: index + 1 };
+    }
+
+    value += char;
+    index += 1;
+  }
+
+  throw new QuerySyntaxError(`Unterminated quote starting at position ${start + 1}.`, start);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index] || '';
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ kind: 'lparen', position: index });
+      index += 1;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ kind: 'rparen', position: index });
+      index += 1;
+      continue;
+    }
+
+    const position = index;
+
+    if (char === '-' && index + 1 < input.length && !/[\s)]/.test(input[index + 1] || '')) {
+      tokens.push({ kind: 'not', position });
+      index += 1;
+      continue;
+    }
+
+    if (char === '"') {
+      const quoted = readQuoted(input, index);
+      tokens.push({ kind: 'term', position, key: null, value: quoted.value });
+      index = quoted.end;
+      continue;
+    }
+
+    let word = '';
+    while (index < input.length && !/[\s()"]/.test(input[index] || '')) {
+      word += input[index];
+      index += 1;
+    }
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: word === 'AND' ? 'and' : word === 'OR' ? 'or' : 'not', position });
+      continue;
+    }
+
+    const colonIndex = word.indexOf(':');
+    const key = colonIndex > 0 ? word.slice(0, colonIndex) : '';
+    if (key && fieldKeyRegex.test(key)) {
+      let value = word.slice(colonIndex + 1);
+
+      if (!value && input[index] === '"') {
+        const quotedValue = readQuoted(input, index);
+        value = quotedValue.value;
+        index = quotedValue.end;
+      }
+
+      tokens.push({ kind: 'term', position, key: key.toLowerCase(), value });
+      continue;
+    }
+
+    tokens.push({ kind: 'term', position, key: null, value: word });
+  }
+
+  return tokens;
+}
+
+const RELATIVE_DAY_OFFSETS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+
+function parseDateValue(raw: string, position: number): string {
+  const offset = RELATIVE_DAY_OFFSETS[raw.trim().toLowerCase()];
+  if (offset !== undefined) {
+    return `@${offset}`;
+  }
+
+  const date = normalizeDueDate(raw);
+  if (!date) {
+    throw new QuerySyntaxError(
+      `Invalid date "${raw}" at position ${position + 1}. Use YYYY-MM-DD, today, tomorrow or yesterday.`,
+      position
+    );
+  }
+
+  return date;
+}
+
+function buildTermNode(token: Extract<Token, { kind: 'term' }>): QueryNode {
+  const { key, value, position } = token;
+
+  if (key === null) {
+    return { type: 'text', value: value.toLowerCase() };
+  }
+
+  if (!value.trim()) {
+    throw new QuerySyntaxError(`Expected a value after "${key}:" at position ${position + 1}.`, position);
+  }
+
+  switch (key) {
+    case 'tag':
+      return { type: 'tag', value: normalizeTagFilter(value) };
+    case 'due': {
+      const lowered = value.toLowerCase();
+      if (lowered === 'none' || lowered === 'any') {
+        return { type: 'due-presence', present: lowered === 'any' };
+      }
+
+      const match = value.match(/^(<=|>=|<|>|=)?(.*)$/);
+      const comparison = (match?.[1] || '=') as QueryComparison;
+      return { type: 'due', comparison, value: parseDateValue(match?.[2] || '', position) };
+    }
+    case 'is': {
+      const resolved = IS_VALUES[value.toLowerCase()];
+      if (!resolved) {
+        throw new QuerySyntaxError(
+          `Unknown value "is:${value}" at position ${position + 1}. Use is:open, is:done or is:overdue.`,
+          position
+        );
+      }
+      return { type: 'is', value: resolved };
+    }
+    case 'column':
+    case 'col':
+      return { type: 'column', value: value.toLowerCase() };
+    case 'has':
+      return { type: 'has', key: normalizeFieldKey(value) };
+    default:
+      return { type: 'field', key: normalizeFieldKey(key), value: value.toLowerCase() };
+  }
+}
+
+class QueryParser {
+  private tokens: Token[];
+  private index: number;
+  private inputLength: number;
+
+  constructor(tokens: Token[], inputLength: number) {
+    this.tokens = tokens;
+    this.index = 0;
+    this.inputLength = inputLength;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      if (next.kind === 'rparen') {
+        throw new QuerySyntaxError(`Unexpected ")" at position ${next.position + 1}.`, next.position);
+      }
+
+      throw new QuerySyntaxError(`Unexpected input at position ${next.position + 1}.`, next.position);
+    }
+
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.kind === 'or') {
+      this.index += 1;
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 && children[0] ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    while (true) {
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') {
+        break;
+      }
+
+      if (next.kind === 'and') {
+        this.index += 1;
+      }
+
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 && children[0] ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.kind === 'not') {
+      this.index += 1;
+      if (!this.peek() || this.peek()?.kind === 'rparen' || this.peek()?.kind === 'or') {
+        throw new QuerySyntaxError(
+          `Expected a search term after NOT at position ${token.position + 1}.`,
+          token.position
+        );
+      }
+
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+
+    if (!token) {
+      throw new QuerySyntaxError('Query ended unexpectedly; expected a search term.', this.inputLength);
+    }
+
+    if (token.kind === 'lparen') {
+      this.index += 1;
+      if (this.peek()?.kind === 'rparen') {
+        throw new QuerySyntaxError(`Empty parentheses at position ${token.position + 1}.`, token.position);
+      }
+
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') {
+        throw new QuerySyntaxError(
+          `Missing ")" for "(" at position ${token.position + 1}.`,
+          token.position
+        );
+      }
+
+      this.index += 1;
+      return node;
+    }
+
+    if (token.kind === 'term') {
+      this.index += 1;
+      return buildTermNode(token);
+    }
+
+    const label = token.kind === 'rparen' ? ')' : token.kind.toUpperCase();
+    throw new QuerySyntaxError(`Unexpected "${label}" at position ${token.position + 1}.`, token.position);
+  }
+}
+
+export function parseQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  return new QueryParser(tokens, input.length).parse();
+}
+
+function resolveRelativeDate(value: string, today: string): string {
+  if (!value.startsWith('@')) {
+    return value;
+  }
+
+  return addDays(today, Number.parseInt(value.slice(1), 10)) || today;
+}
+
+function compareDates(left: string, comparison: QueryComparison, right: string): boolean {
+  switch (comparison) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    default:
+      return left === right;
+  }
+}
+
+export function matchesQuery(node: QueryNode, card: Card, context: QueryContext): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesQuery(child, card, context));
+    case 'or':
+      return node.children.some((child) => matchesQuery(child, card, context));
+    case 'not':
+      return !matchesQuery(node.child, card, context);
+    case 'text':
+      return card.searchText.includes(node.value);
+    case 'tag':
+      return card.tags.includes(node.value);
+    case 'due':
+      return (
+        card.dueDate !== null &&
+        compareDates(card.dueDate, node.comparison, resolveRelativeDate(node.value, context.today))
+      );
+    case 'due-presence':
+      return (card.dueDate !== null) === node.present;
+    case 'is':
+      if (node.value === 'open') {
+        return !card.checked;
+      }
+      if (node.value === 'done') {
+        return card.checked;
+      }
+      return !card.checked && card.dueDate !== null && card.dueDate < context.today;
+    case 'column':
+      return (
+        context.columnId.toLowerCase() === node.value || context.columnTitle.toLowerCase() === node.value
+      );
+    case 'has':
+      return node.key === 'due' ? card.dueDate !== null : getField(card.fields, node.key) !== null;
+    case 'field': {
+      const value = getField(card.fields, node.key);
+      return value !== null && value.toLowerCase() === node.value;
+    }
+  }
+}
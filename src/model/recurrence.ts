@@ -0,0 +1,214 @@
+import { normalizeCard } from './card';
+import { addDays, daysBetween, fromDayNumber, toDayNumber } from './dueDate';
+import { getField } from './fields';
+import { createId } from './id';
+import { BoardDocument, Card, Column, RecurringCompletion } from './types';
+
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface RecurrenceRule {
+  interval: number;
+  unit: RecurrenceUnit;
+  // 0 = Sunday, matching Date#getDay.
+  weekdays: number[];
+  monthDay: number | null;
+}
+
+const SHORTHAND_UNITS: Record<string, RecurrenceUnit> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+  annually: 'year',
+};
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const ruleRegex =
+  /^(?:(daily|weekly|monthly|yearly|annually)|every (?:(\d+) )?(day|week|month|year)s?)(?: on (.+))?$/;
+const monthDayRegex = /^(\d{1,2})(?:st|nd|rd|th)?$/;
+const doneColumnRegex = /^(done|complete|completed|finished|closed)$/i;
+
+function parseWeekdays(text: string): number[] | null {
+  const names = text.split(/[\s,]+/).filter((name) => name.length > 0 && name !== 'and');
+  const days = new Set<number>();
+
+  for (const name of names) {
+    const index = name.length >= 3 ? WEEKDAYS.findIndex((weekday) => weekday.startsWith(name)) : -1;
+    if (index < 0) {
+      return null;
+    }
+    days.add(index);
+  }
+
+  return days.size > 0 ? Array.from(days).sort((left, right) => left - right) : null;
+}
+
+export function parseRecurrence(text: string | null | undefined): RecurrenceRule | null {
+  const match = (text || '').trim().toLowerCase().replace(/\s+/g, ' ').match(ruleRegex);
+  if (!match) {
+    return null;
+  }
+
+  const unit = match[1] ? SHORTHAND_UNITS[match[1]] : (match[3] as RecurrenceUnit | undefined);
+  const interval = match[2] ? Number.parseInt(match[2], 10) : 1;
+  if (!unit || interval < 1) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { interval, unit, weekdays: [], monthDay: null };
+  const on = match[4]?.trim();
+  if (!on) {
+    return rule;
+  }
+
+  if (unit === 'week') {
+    const weekdays = parseWeekdays(on);
+    return weekdays ? { ...rule, weekdays } : null;
+  }
+
+  const monthDay = unit === 'month' ? on.match(monthDayRegex) : null;
+  const day = monthDay ? Number.parseInt(monthDay[1] || '', 10) : 0;
+  return day >= 1 && day <= 31 ? { ...rule, monthDay: day } : null;
+}
+
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+function dateInMonth(year: number, month: number, day: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Math.round(Date.UTC(year, month, Math.min(day, lastDay)) / (24 * 60 * 60 * 1000));
+}
+
+export function nextOccurrence(rule: RecurrenceRule, from: string): string | null {
+  const dayNumber = toDayNumber(from);
+  if (dayNumber === null) {
+    return null;
+  }
+
+  const [year = 1970, month = 1, day = 1] = from.split('-').map((part) => Number.parseInt(part, 10));
+
+  switch (rule.unit) {
+    case 'day':
+      return fromDayNumber(dayNumber + rule.interval);
+    case 'week': {
+      if (rule.weekdays.length === 0) {
+        return fromDayNumber(dayNumber + rule.interval * 7);
+      }
+
+      // Weeks start on Monday, so Sunday sorts last within a week.
+      const offsets = rule.weekdays.map((weekday) => (weekday + 6) % 7).sort((left, right) => left - right);
+      const current = (weekdayOf(dayNumber) + 6) % 7;
+      const later = offsets.find((offset) => offset > current);
+      const weekStart = dayNumber - current;
+      return fromDayNumber(
+        later !== undefined ? weekStart + later : weekStart + rule.interval * 7 + (offsets[0] || 0)
+      );
+    }
+    case 'month': {
+      const target = rule.monthDay ?? day;
+      const sameMonth = dateInMonth(year, month - 1, target);
+      if (rule.monthDay !== null && sameMonth > dayNumber) {
+        return fromDayNumber(sameMonth);
+      }
+
+      return fromDayNumber(dateInMonth(year, month - 1 + rule.interval, target));
+    }
+    default:
+      return fromDayNumber(dateInMonth(year + rule.interval, month - 1, day));
+  }
+}
+
+export function isDoneColumn(column: Pick<Column, 'title'>): boolean {
+  return doneColumnRegex.test(column.title.trim());
+}
+
+export function createNextRecurrence(card: Card, today: string): Card | null {
+  const rule = parseRecurrence(getField(card.fields, 'repeat'));
+  if (!rule) {
+    return null;
+  }
+
+  const anchor = card.dueDate || card.startDate || today;
+  const next = nextOccurrence(rule, anchor);
+  const shift = next ? daysBetween(anchor, next) : null;
+  if (!next || shift === null) {
+    return null;
+  }
+
+  return normalizeCard({
+    id: createId('card'),
+    title: card.title,
+    description: card.description,
+    checked: false,
+    startDate: card.startDate ? addDays(card.startDate, shift) : null,
+    dueDate: card.dueDate || !card.startDate ? next : null,
+    fields: card.fields,
+  });
+}
+
+function locateCards(board: BoardDocument): Map<string, { card: Card; column: Column; index: number }> {
+  const locations = new Map<string, { card: Card; column: Column; index: number }>();
+  board.columns.forEach((column) => {
+    column.cards.forEach((card, index) => locations.set(card.id, { card, column, index }));
+  });
+  return locations;
+}
+
+function isCompleted(card: Card, column: Column): boolean {
+  return card.checked || isDoneColumn(column);
+}
+
+// A `repeat::` card that was just checked or moved into a done column gets a fresh copy in the column
+// it came from; the completed instance is kept where it is or archived. `sources` holds cards as they were
+// before column rules changed them, so stamps and tags added on entry are not copied forward.
+export function applyRecurrence(
+  previous: BoardDocument,
+  next: BoardDocument,
+  today: string,
+  completion: RecurringCompletion = 'keep',
+  sources: Map<string, Card> = new Map()
+): BoardDocument {
+  const before = locateCards(previous);
+  const inserts: Array<{ columnId: string; index: number; card: Card }> = [];
+  const completed: Card[] = [];
+
+  for (const column of next.columns) {
+    column.cards.forEach((card, index) => {
+      const earlier = before.get(card.id);
+      if (!earlier || isCompleted(earlier.card, earlier.column) || !isCompleted(card, column)) {
+        return;
+      }
+
+      const fresh = createNextRecurrence(sources.get(card.id) || card, today);
+      if (!fresh) {
+        return;
+      }
+
+      const stayed = earlier.column.id === column.id;
+      inserts.push({ columnId: earlier.column.id, index: stayed ? index + 1 : earlier.index, card: fresh });
+      completed.push(card);
+    });
+  }
+
+  if (inserts.length === 0) {
+    return next;
+  }
+
+  const archived = completion === 'archive' ? completed : [];
+  return {
+    ...next,
+    columns: next.columns.map((column) => {
+      const columnInserts = inserts.filter((insert) => insert.columnId === column.id);
+      if (columnInserts.length === 0 && !column.cards.some((card) => archived.includes(card))) {
+        return column;
+      }
+
+      const cards = [...column.cards];
+      columnInserts
+        .sort((left, right) => right.index - left.index)
+        .forEach((insert) => cards.splice(Math.min(insert.index, cards.length), 0, insert.card));
+      return { ...column, cards: cards.filter((card) => !archived.includes(card)) };
+    }),
+    archive: [...next.archive, ...archived],
+  };
+}
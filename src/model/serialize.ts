@@ -1,7 +1,9 @@
 import { stringify as stringifyYaml } from 'yaml';
 
+import { serializeColumnRules } from './automation';
 import { normalizeCard, normalizeDueDate } from './card';
-import { BoardDocument, BoardFrontmatter, Card, ColumnDefinition } from './types';
+import { CURRENT_KANBAN_VERSION } from './migrations';
+import { BoardDocument, BoardFrontmatter, Card, Column, ColumnDefinition, ColumnNote } from './types';
 
 const archiveStartMarker = '%% kanban-next:archive:start %%';
 const archiveEndMarker = '%% kanban-next:archive:end %%';
@@ -11,17 +13,25 @@ function normalizeColumns(board: BoardDocument): ColumnDefinition[] {
     id: column.id,
     title: column.title,
     wipLimit: typeof column.wipLimit === 'number' && column.wipLimit >= 0 ? column.wipLimit : null,
+    ...(column.sortMode && column.sortMode !== 'manual' ? { sortMode: column.sortMode } : {}),
+    ...(column.rules && column.rules.length > 0 ? { rules: serializeColumnRules(column.rules) } : {}),
   }));
 }
 
 function buildFrontmatter(board: BoardDocument): BoardFrontmatter {
   return {
     kanban: true,
-    kanbanVersion: 1,
+    kanbanVersion: CURRENT_KANBAN_VERSION,
     boardTitle: board.boardTitle,
     ...(board.boardDescription ? { boardDescription: board.boardDescription } : {}),
     density: board.density,
+    ...(board.swimlanes !== 'none' ? { swimlanes: board.swimlanes } : {}),
+    ...(board.layout !== 'board' ? { layout: board.layout } : {}),
+    ...(board.views.length > 0
+      ? { views: board.views.map((view) => ({ name: view.name, query: view.query })) }
+      : {}),
     columns: normalizeColumns(board),
+    ...board.extraFrontmatter,
   };
 }
 
@@ -31,7 +41,9 @@ function serializeCard(card: Card): string[] {
     title: card.title.trim(),
     description: card.description,
     checked: card.checked,
+    startDate: card.startDate,
     dueDate: normalizeDueDate(card.dueDate),
+    fields: card.fields,
   });
 
   const lines = [
@@ -44,6 +56,14 @@ function serializeCard(card: Card): string[] {
     descriptionChunks.push(normalized.description.trimEnd());
   }
 
+  for (const [key, value] of Object.entries(normalized.fields)) {
+    descriptionChunks.push(`${key}:: ${value}`);
+  }
+
+  if (normalized.startDate) {
+    descriptionChunks.push(`start:: ${normalized.startDate}`);
+  }
+
   if (normalized.dueDate) {
     descriptionChunks.push(`due:: ${normalized.dueDate}`);
   }
@@ -60,17 +80,43 @@ function serializeCard(card: Card): string[] {
   return lines;
 }
 
-function serializeArchive(archive: Card[]): string[] {
-  if (archive.length === 0) {
-    return [];
-  }
+function serializeNotes(notes: ColumnNote[]): string[] {
+  return notes.flatMap((note) => [...note.text.split('\n'), '']);
+}
 
-  const lines = ['', archiveStartMarker, ''];
+function serializeCardsWithNotes(cards: Card[], notes: ColumnNote[] = []): string[] {
+  const cardIds = new Set(cards.map((card) => card.id));
+  const lines = serializeNotes(notes.filter((note) => note.afterCardId === null));
 
-  for (const card of archive) {
+  for (const card of cards) {
     lines.push(...serializeCard(card));
+    lines.push(...serializeNotes(notes.filter((note) => note.afterCardId === card.id)));
   }
 
+  lines.push(
+    ...serializeNotes(notes.filter((note) => note.afterCardId !== null && !cardIds.has(note.afterCardId)))
+  );
+
+  return lines;
+}
+
+function serializeColumn(column: Column): string[] {
+  return [
+    `## [${column.id}] ${column.title}`,
+    '',
+    ...serializeCardsWithNotes(column.cards, column.notes),
+    '',
+  ];
+}
+
+function serializeArchive(archive: Card[], notes: ColumnNote[] = []): string[] {
+  if (archive.length === 0 && notes.length === 0) {
+    return [];
+  }
+
+  const lines = ['', archiveStartMarker, ''];
+  lines.push(...serializeCardsWithNotes(archive, notes));
+
   lines.push(archiveEndMarker);
   lines.push('');
 
@@ -83,19 +129,20 @@ export function serializeBoardMarkdown(board: BoardDocument): string {
 
   const lines: string[] = ['---', yaml, '---', ''];
 
+  if (board.preamble) {
+    lines.push(board.preamble, '');
+  }
+
   for (const column of board.columns) {
-    lines.push(`## [${column.id}] ${column.title}`);
-    lines.push('');
+    lines.push(...serializeColumn(column));
+  }
 
-    for (const card of column.cards) {
-      lines.push(...serializeCard(card));
-    }
+  lines.push(...serializeArchive(board.archive, board.archiveNotes));
 
-    lines.push('');
+  if (board.epilogue) {
+    lines.push(board.epilogue);
   }
 
-  lines.push(...serializeArchive(board.archive));
-
   while (lines.length > 0 && lines[lines.length - 1] === '') {
     lines.pop();
   }
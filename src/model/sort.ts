@@ -0,0 +1,59 @@
+import { priorityRank } from './fields';
+import { Card, ColumnSortMode } from './types';
+
+export const COLUMN_SORT_MODES: ColumnSortMode[] = ['manual', 'due', 'title', 'created', 'priority'];
+
+export const COLUMN_SORT_LABELS: Record<ColumnSortMode, string> = {
+  manual: 'Manual',
+  due: 'Due date',
+  title: 'Title',
+  created: 'Created',
+  priority: 'Priority',
+};
+
+const idStampRegex = /^[a-z]+-([0-9a-z]+)-[0-9a-z]+$/;
+const minPlausibleStamp = Date.UTC(2000, 0, 1);
+
+export function getCardCreatedAt(cardId: string): number | null {
+  const match = cardId.match(idStampRegex);
+  if (!match?.[1]) {
+    return null;
+  }
+
+  const stamp = Number.parseInt(match[1], 36);
+  return Number.isFinite(stamp) && stamp >= minPlausibleStamp ? stamp : null;
+}
+
+function compareNullableLast<T>(left: T | null, right: T | null, compare: (a: T, b: T) => number): number {
+  if (left === null || right === null) {
+    return left === right ? 0 : left === null ? 1 : -1;
+  }
+
+  return compare(left, right);
+}
+
+function compareCards(left: Card, right: Card, mode: ColumnSortMode): number {
+  switch (mode) {
+    case 'due':
+      return compareNullableLast(left.dueDate, right.dueDate, (a, b) => a.localeCompare(b));
+    case 'title':
+      return left.title.localeCompare(right.title, undefined, { numeric: true, sensitivity: 'base' });
+    case 'created':
+      return compareNullableLast(getCardCreatedAt(left.id), getCardCreatedAt(right.id), (a, b) => a - b);
+    case 'priority': {
+      const leftRank = priorityRank(left.fields.priority);
+      const rightRank = priorityRank(right.fields.priority);
+      return leftRank === rightRank ? 0 : leftRank < rightRank ? -1 : 1;
+    }
+    default:
+      return 0;
+  }
+}
+
+export function sortCards(cards: Card[], mode: ColumnSortMode): Card[] {
+  if (mode === 'manual') {
+    return cards;
+  }
+
+  return [...cards].sort((left, right) => compareCards(left, right, mode));
+}
@@ -0,0 +1,135 @@
+import { normalizeCard, normalizeTagFilter, removeTagFromText } from './card';
+import { getField, priorityRank, setField } from './fields';
+import { Card, Column, SwimlaneGroup } from './types';
+
+export interface Swimlane {
+  key: string;
+  label: string;
+  count: number;
+  cardsByColumnId: Record<string, Card[]>;
+}
+
+const firstTagRegex = /(^|\s)(#[A-Za-z0-9/_-]+)/;
+
+const EMPTY_LABELS: Record<SwimlaneGroup, string> = {
+  none: 'All cards',
+  tag: 'No tag',
+  assignee: 'Unassigned',
+  priority: 'No priority',
+};
+
+export function findFirstTag(text: string): string | null {
+  const match = text.match(firstTagRegex);
+  return match?.[2] ? match[2].toLowerCase() : null;
+}
+
+export function getSwimlaneKey(card: Card, group: SwimlaneGroup): string {
+  switch (group) {
+    case 'tag':
+      return findFirstTag(`${card.title}\n${card.description}`) || '';
+    case 'assignee':
+      return getField(card.fields, 'assignee') || '';
+    case 'priority':
+      return getField(card.fields, 'priority') || '';
+    default:
+      return '';
+  }
+}
+
+export function getSwimlaneLabel(key: string, group: SwimlaneGroup): string {
+  return key || EMPTY_LABELS[group];
+}
+
+function compareSwimlaneKeys(left: string, right: string, group: SwimlaneGroup): number {
+  if (!left || !right) {
+    return left ? -1 : right ? 1 : 0;
+  }
+
+  if (group === 'priority') {
+    const rankDelta = priorityRank(left) - priorityRank(right);
+    if (rankDelta !== 0) {
+      return rankDelta;
+    }
+  }
+
+  return left.localeCompare(right);
+}
+
+export function groupIntoSwimlanes(columns: Column[], group: SwimlaneGroup): Swimlane[] {
+  const lanes = new Map<string, Swimlane>();
+
+  for (const column of columns) {
+    for (const card of column.cards) {
+      const key = getSwimlaneKey(card, group);
+      let lane = lanes.get(key);
+      if (!lane) {
+        lane = {
+          key,
+          label: getSwimlaneLabel(key, group),
+          count: 0,
+          cardsByColumnId: {},
+        };
+        lanes.set(key, lane);
+      }
+
+      lane.count += 1;
+      const cells = lane.cardsByColumnId[column.id] || [];
+      cells.push(card);
+      lane.cardsByColumnId[column.id] = cells;
+    }
+  }
+
+  return Array.from(lanes.values()).sort((left, right) =>
+    compareSwimlaneKeys(left.key, right.key, group)
+  );
+}
+
+function applyTagKey(card: Card, key: string): Pick<Card, 'title' | 'description'> {
+  const currentTag = findFirstTag(`${card.title}\n${card.description}`);
+  const nextTag = key ? normalizeTagFilter(key) : '';
+
+  let title = card.title;
+  let description = card.description;
+
+  for (const tag of [currentTag, nextTag]) {
+    if (tag) {
+      title = removeTagFromText(title, tag);
+      description = removeTagFromText(description, tag);
+    }
+  }
+
+  if (nextTag) {
+    const titleTag = title.match(firstTagRegex);
+    if (titleTag && typeof titleTag.index === 'number') {
+      const insertAt = titleTag.index + (titleTag[1] || '').length;
+      title = `${title.slice(0, insertAt)}${nextTag} ${title.slice(insertAt)}`;
+    } else {
+      title = `${title.trimEnd()} ${nextTag}`;
+    }
+  }
+
+  return {
+    title: title.trim() || card.title,
+    description,
+  };
+}
+
+export function applySwimlaneKey(card: Card, group: SwimlaneGroup, key: string): Card {
+  if (group === 'none' || getSwimlaneKey(card, group) === key) {
+    return card;
+  }
+
+  if (group === 'tag') {
+    const { title, description } = applyTagKey(card, key);
+    return normalizeCard({
+      ...card,
+      title,
+      description,
+    });
+  }
+
+  return normalizeCard({
+    ...card,
+    fields: setField(card.fields, group, key || null),
+  });
+}
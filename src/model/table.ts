@@ -0,0 +1,112 @@
+import { normalizeTagFilter, removeTagFromText } from './card';
+import { compareFieldKeys, findFieldKey, getField } from './fields';
+import { Card, Column } from './types';
+
+export type TableSortKey = 'title' | 'column' | 'tags' | 'due' | 'checked' | `field:${string}`;
+
+export interface TableSort {
+  key: TableSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface TableRow {
+  card: Card;
+  columnId: string;
+  columnTitle: string;
+}
+
+export function collectTableFieldKeys(columns: Column[]): string[] {
+  const keys: Record<string, string> = {};
+  for (const column of columns) {
+    for (const card of column.cards) {
+      Object.keys(card.fields).forEach((key) => {
+        if (findFieldKey(keys, key) === null) {
+          keys[key] = key;
+        }
+      });
+    }
+  }
+
+  return Object.keys(keys).sort(compareFieldKeys);
+}
+
+function readSortValue(row: TableRow, key: TableSortKey): string | null {
+  switch (key) {
+    case 'title':
+      return row.card.title;
+    case 'column':
+      return row.columnTitle;
+    case 'tags':
+      return row.card.tags.length > 0 ? row.card.tags.join(' ') : null;
+    case 'due':
+      return row.card.dueDate;
+    case 'checked':
+      return row.card.checked ? '1' : '0';
+    default:
+      return getField(row.card.fields, key.slice('field:'.length));
+  }
+}
+
+export function buildTableRows(columns: Column[], sort: TableSort | null): TableRow[] {
+  const rows = columns.flatMap((column, columnIndex) =>
+    column.cards.map((card, cardIndex) => ({
+      row: { card, columnId: column.id, columnTitle: column.title },
+      columnIndex,
+      order: cardIndex,
+    }))
+  );
+  if (!sort) {
+    return rows.map((entry) => entry.row);
+  }
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return rows
+    .map((entry, index) => ({ ...entry, index, value: readSortValue(entry.row, sort.key) }))
+    .sort((left, right) => {
+      if (sort.key === 'column') {
+        return (left.columnIndex - right.columnIndex) * direction || left.index - right.index;
+      }
+
+      // Empty cells stay at the bottom in both directions.
+      if (left.value === null || right.value === null) {
+        return left.value === right.value ? left.index - right.index : left.value === null ? 1 : -1;
+      }
+
+      const compared = left.value.localeCompare(right.value, undefined, {
+        numeric: true,
+        sensitivity: 'base',
+      });
+      return compared * direction || left.index - right.index;
+    })
+    .map((entry) => entry.row);
+}
+
+export function parseTagList(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(/[\s,]+/)
+        .map((tag) => normalizeTagFilter(tag))
+        .filter((tag) => tag.length > 1)
+    )
+  );
+}
+
+export function replaceCardTags(card: Card, tags: string[]): Pick<Card, 'title' | 'description'> {
+  let title = card.title;
+  let description = card.description;
+
+  for (const tag of card.tags) {
+    if (!tags.includes(tag)) {
+      title = removeTagFromText(title, tag);
+      description = removeTagFromText(description, tag);
+    }
+  }
+
+  const added = tags.filter((tag) => !card.tags.includes(tag));
+  if (added.length > 0) {
+    title = [title, ...added].join(' ').trim();
+  }
+
+  return { title, description };
+}
@@ -0,0 +1,132 @@
+import { startOfWeek } from './calendar';
+import { fromDayNumber, toDayNumber } from './dueDate';
+import { getSwimlaneKey } from './swimlanes';
+import { Card, Column } from './types';
+
+export type TimelineZoom = 'day' | 'week' | 'month';
+
+export type TimelineGroupBy = 'column' | 'tag';
+
+export type TimelineEdge = 'start' | 'end' | 'both';
+
+export interface TimelineSpan {
+  start: number;
+  end: number;
+}
+
+export interface TimelineBar extends TimelineSpan {
+  card: Card;
+  columnId: string;
+}
+
+export interface TimelineGroup {
+  key: string;
+  label: string;
+  bars: TimelineBar[];
+}
+
+export interface Timeline {
+  groups: TimelineGroup[];
+  unscheduled: Array<{ card: Card; columnId: string }>;
+  start: number;
+  end: number;
+}
+
+// A card with only one of the two dates is drawn as a single-day bar on that date.
+export function getCardSpan(card: Card): TimelineSpan | null {
+  const start = card.startDate ? toDayNumber(card.startDate) : null;
+  const due = card.dueDate ? toDayNumber(card.dueDate) : null;
+  const first = start ?? due;
+  const last = due ?? start;
+  if (first === null || last === null) {
+    return null;
+  }
+
+  return { start: Math.min(first, last), end: Math.max(first, last) };
+}
+
+export function buildTimeline(
+  columns: Column[],
+  groupBy: TimelineGroupBy,
+  today: string,
+  padding = 3
+): Timeline {
+  const groups = new Map<string, TimelineGroup>();
+  const unscheduled: Timeline['unscheduled'] = [];
+  const todayNumber = toDayNumber(today) ?? 0;
+  let start = todayNumber;
+  let end = todayNumber;
+
+  for (const column of columns) {
+    if (groupBy === 'column') {
+      groups.set(column.id, { key: column.id, label: column.title, bars: [] });
+    }
+
+    for (const card of column.cards) {
+      const span = getCardSpan(card);
+      if (!span) {
+        unscheduled.push({ card, columnId: column.id });
+        continue;
+      }
+
+      const key = groupBy === 'column' ? column.id : getSwimlaneKey(card, 'tag');
+      const group = groups.get(key) || { key, label: key || 'No tag', bars: [] };
+      group.bars.push({ ...span, card, columnId: column.id });
+      groups.set(key, group);
+      start = Math.min(start, span.start);
+      end = Math.max(end, span.end);
+    }
+  }
+
+  const ordered = Array.from(groups.values());
+  if (groupBy === 'tag') {
+    ordered.sort((left, right) =>
+      !left.key || !right.key ? Number(!left.key) - Number(!right.key) : left.key.localeCompare(right.key)
+    );
+  }
+
+  ordered.forEach((group) => {
+    group.bars.sort((left, right) => left.start - right.start || left.end - right.end);
+  });
+
+  return { groups: ordered, unscheduled, start: start - padding, end: end + padding };
+}
+
+export function listTimelineTicks(start: number, end: number, zoom: TimelineZoom): number[] {
+  const ticks: number[] = [];
+  for (let day = start; day <= end; day += 1) {
+    const date = fromDayNumber(day);
+    if (
+      zoom === 'day' ||
+      (zoom === 'week' && startOfWeek(date) === date) ||
+      (zoom === 'month' && date.endsWith('-01'))
+    ) {
+      ticks.push(day);
+    }
+  }
+
+  return ticks;
+}
+
+export function shiftCardSpan(
+  card: Card,
+  edge: TimelineEdge,
+  deltaDays: number
+): Pick<Card, 'startDate' | 'dueDate'> {
+  const span = getCardSpan(card);
+  if (!span) {
+    return { startDate: card.startDate, dueDate: card.dueDate };
+  }
+
+  let start = span.start + (edge === 'end' ? 0 : deltaDays);
+  let end = span.end + (edge === 'start' ? 0 : deltaDays);
+  if (start > end) {
+    if (edge === 'start') {
+      start = end;
+    } else {
+      end = start;
+    }
+  }
+
+  return { startDate: fromDayNumber(start), dueDate: fromDayNumber(end) };
+}
@@ -1,9 +1,37 @@
+import { CardFields } from './fields';
+
 export type CardDensity = 'normal' | 'compact';
 
+export type SwimlaneGroup = 'none' | 'tag' | 'assignee' | 'priority';
+
+export type BoardLayout = 'board' | 'calendar' | 'table' | 'timeline';
+
+export type RecurringCompletion = 'keep' | 'archive';
+
+export type ColumnSortMode = 'manual' | 'due' | 'title' | 'created' | 'priority';
+
+export type ColumnRule =
+  | { type: 'check' }
+  | { type: 'uncheck' }
+  | { type: 'set-due'; days: number }
+  | { type: 'add-tag'; tag: string }
+  | { type: 'remove-tag'; tag: string }
+  | { type: 'archive-after'; days: number }
+  | { type: 'stamp-completed' };
+
+export type ColumnRuleType = ColumnRule['type'];
+
 export interface ColumnDefinition {
   id: string;
   title: string;
   wipLimit: number | null;
+  sortMode?: ColumnSortMode;
+  rules?: Array<string | Record<string, unknown>>;
+}
+
+export interface FilterView {
+  name: string;
+  query: string;
 }
 
 export interface Card {
@@ -11,24 +39,83 @@ export interface Card {
   title: string;
   description: string;
   checked: boolean;
+  startDate: string | null;
   dueDate: string | null;
+  fields: CardFields;
   tags: string[];
   searchText: string;
 }
 
+export interface ColumnNote {
+  afterCardId: string | null;
+  text: string;
+}
+
 export interface Column {
   id: string;
   title: string;
   wipLimit: number | null;
+  sortMode?: ColumnSortMode;
+  rules?: ColumnRule[];
   cards: Card[];
+  notes?: ColumnNote[];
 }
 
 export interface BoardDocument {
   boardTitle: string;
   boardDescription: string;
   density: CardDensity;
+  swimlanes: SwimlaneGroup;
+  layout: BoardLayout;
+  views: FilterView[];
   columns: Column[];
   archive: Card[];
+  archiveNotes?: ColumnNote[];
+  preamble?: string;
+  epilogue?: string;
+  extraFrontmatter?: Record<string, unknown>;
+}
+
+export type BoardDiagnosticKind =
+  | 'duplicate-card-id'
+  | 'duplicate-column-id'
+  | 'missing-column-section'
+  | 'orphaned-line'
+  | 'invalid-due-date'
+  | 'invalid-start-date'
+  | 'invalid-repeat-rule'
+  | 'invalid-format-version';
+
+export interface BoardDiagnosticEdit {
+  line: number;
+  deleteCount: number;
+  insert: string[];
+}
+
+export interface BoardDiagnosticFix {
+  label: string;
+  edits: BoardDiagnosticEdit[];
+}
+
+export interface BoardDiagnostic {
+  kind: BoardDiagnosticKind;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+  fix?: BoardDiagnosticFix;
+}
+
+export interface CardIdRepair {
+  previousId: string;
+  id: string;
+  line: number;
+}
+
+export interface BoardFormatInfo {
+  sourceVersion: number | null;
+  migrations: string[];
+  readOnly: boolean;
 }
 
 export interface BoardFrontmatter {
@@ -37,6 +124,9 @@ export interface BoardFrontmatter {
   boardTitle: string;
   boardDescription?: string;
   density: CardDensity;
+  swimlanes?: SwimlaneGroup;
+  layout?: BoardLayout;
+  views?: FilterView[];
   columns: ColumnDefinition[];
 }
 
@@ -50,4 +140,28 @@ export interface BoardStoreSnapshot {
   filter: BoardFilter;
   visibleColumns: Column[];
   allTags: string[];
+  queryError: string | null;
+}
+
+export type BoardSearchStatus = 'any' | 'open' | 'done';
+
+export type BoardSearchDue = 'any' | 'overdue' | 'today' | 'week' | 'none';
+
+export interface BoardSearchFilter {
+  query: string;
+  tag: string;
+  status: BoardSearchStatus;
+  due: BoardSearchDue;
+}
+
+export interface BoardSearchColumnResult {
+  columnId: string;
+  columnTitle: string;
+  cards: Card[];
+}
+
+export interface BoardSearchResult {
+  path: string;
+  boardTitle: string;
+  columns: BoardSearchColumnResult[];
 }
@@ -1,17 +1,20 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 
 import KanbanNextPlugin from './main';
+import { RecurringCompletion } from './model/types';
 
 export interface KanbanNextSettings {
   defaultDensity: 'normal' | 'compact';
   saveDebounceMs: number;
   saveMaxDelayMs: number;
+  recurringCompletion: RecurringCompletion;
 }
 
 export const DEFAULT_SETTINGS: KanbanNextSettings = {
   defaultDensity: 'normal',
   saveDebounceMs: 300,
   saveMaxDelayMs: 1500,
+  recurringCompletion: 'keep',
 };
 
 export class KanbanNextSettingTab extends PluginSettingTab {
@@ -76,5 +79,20 @@ export class KanbanNextSettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName('Completed recurring cards')
+      .setDesc('What happens to a card with a repeat:: rule once it is checked or moved into a done column.')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('keep', 'Keep it in place')
+          .addOption('archive', 'Move it to the archive')
+          .setValue(this.plugin.settings.recurringCompletion)
+          .onChange(async (value) => {
+            this.plugin.settings.recurringCompletion = value === 'archive' ? 'archive' : 'keep';
+            await this.plugin.saveSettings();
+            this.plugin.applySettingsToOpenBoards();
+          });
+      });
+
   }
 }
@@ -0,0 +1,137 @@
+import { normalizeTagFilter } from '../model/card';
+import { daysBetween, describeDueDate } from '../model/dueDate';
+import { parseBoardMarkdown } from '../model/parse';
+import { matchesQuery, parseQuery, QueryNode } from '../model/query';
+import { sortCards } from '../model/sort';
+import { BoardDocument, BoardSearchFilter, BoardSearchResult, Card } from '../model/types';
+
+type Listener = () => void;
+
+function matchesDue(card: Card, filter: BoardSearchFilter, today: string): boolean {
+  if (filter.due === 'any') {
+    return true;
+  }
+
+  if (!card.dueDate) {
+    return filter.due === 'none';
+  }
+
+  if (filter.due === 'week') {
+    const days = daysBetween(today, card.dueDate);
+    return days !== null && days >= 0 && days < 7;
+  }
+
+  const due = describeDueDate(card.dueDate, today);
+  return filter.due !== 'none' && due?.state === filter.due;
+}
+
+function matchesFilter(
+  card: Card,
+  filter: BoardSearchFilter,
+  query: QueryNode | null,
+  tag: string,
+  context: { columnId: string; columnTitle: string; today: string }
+): boolean {
+  if (filter.status !== 'any' && card.checked !== (filter.status === 'done')) {
+    return false;
+  }
+
+  if (tag && !card.tags.includes(tag)) {
+    return false;
+  }
+
+  return matchesDue(card, filter, context.today) && (!query || matchesQuery(query, card, context));
+}
+
+export class BoardIndex {
+  private boards: Map<string, BoardDocument>;
+  private listeners: Set<Listener>;
+
+  constructor() {
+    this.boards = new Map();
+    this.listeners = new Set();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  has(path: string): boolean {
+    return this.boards.has(path);
+  }
+
+  get size(): number {
+    return this.boards.size;
+  }
+
+  update(path: string, content: string): boolean {
+    let board: BoardDocument;
+    try {
+      board = parseBoardMarkdown(content);
+    } catch {
+      this.remove(path);
+      return false;
+    }
+
+    this.boards.set(path, board);
+    this.emit();
+    return true;
+  }
+
+  remove(path: string): void {
+    if (this.boards.delete(path)) {
+      this.emit();
+    }
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const board = this.boards.get(oldPath);
+    if (!board) {
+      return;
+    }
+
+    this.boards.delete(oldPath);
+    this.boards.set(newPath, board);
+    this.emit();
+  }
+
+  search(filter: BoardSearchFilter, today: string): BoardSearchResult[] {
+    const query = parseQuery(filter.query);
+    const tag = normalizeTagFilter(filter.tag);
+    const results: BoardSearchResult[] = [];
+
+    for (const [path, board] of this.boards) {
+      const columns = board.columns
+        .map((column) => ({
+          columnId: column.id,
+          columnTitle: column.title,
+          cards: sortCards(column.cards, column.sortMode || 'manual').filter((card) =>
+            matchesFilter(card, filter, query, tag, {
+              columnId: column.id,
+              columnTitle: column.title,
+              today,
+            })
+          ),
+        }))
+        .filter((column) => column.cards.length > 0);
+
+      if (columns.length > 0) {
+        results.push({ path, boardTitle: board.boardTitle, columns });
+      }
+    }
+
+    return results.sort(
+      (left, right) => left.boardTitle.localeCompare(right.boardTitle) || left.path.localeCompare(right.path)
+    );
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -1,27 +1,59 @@
+import { applyColumnRules, clearAutoArchive, collectExpiredCardIds } from '../model/automation';
 import { normalizeCard, normalizeTagFilter } from '../model/card';
+import { formatLocalDate } from '../model/dueDate';
+import { matchesQuery, parseQuery, QueryNode } from '../model/query';
+import { applyRecurrence } from '../model/recurrence';
 import { serializeBoardMarkdown } from '../model/serialize';
-import { BoardDocument, BoardFilter, BoardStoreSnapshot, Card, CardDensity, Column } from '../model/types';
+import { sortCards } from '../model/sort';
+import {
+  BoardDocument,
+  BoardFilter,
+  BoardLayout,
+  BoardStoreSnapshot,
+  Card,
+  CardDensity,
+  Column,
+  ColumnRule,
+  ColumnSortMode,
+  RecurringCompletion,
+  SwimlaneGroup,
+} from '../model/types';
+import { UndoHistory } from './UndoHistory';
 
 type Listener = (snapshot: BoardStoreSnapshot) => void;
 
 type CardUpdater = (card: Card) => Card;
 
+export interface BoardStoreOptions {
+  recurringCompletion?: RecurringCompletion;
+}
+
+const HISTORY_LIMIT = 100;
+
 function cloneBoard(board: BoardDocument): BoardDocument {
   return {
     boardTitle: board.boardTitle,
     boardDescription: board.boardDescription,
     density: board.density,
+    swimlanes: board.swimlanes,
+    layout: board.layout,
+    views: board.views.map((view) => ({ ...view })),
     columns: board.columns.map((column) => ({
       id: column.id,
       title: column.title,
       wipLimit: typeof column.wipLimit === 'number' ? column.wipLimit : null,
+      sortMode: column.sortMode || 'manual',
+      rules: column.rules?.map((rule) => ({ ...rule })),
+      notes: column.notes?.map((note) => ({ ...note })),
       cards: column.cards.map((card) =>
         normalizeCard({
           id: card.id,
           title: card.title,
           description: card.description,
           checked: card.checked,
+          startDate: card.startDate,
           dueDate: card.dueDate,
+          fields: card.fields,
         })
       ),
     })),
@@ -31,9 +63,15 @@ function cloneBoard(board: BoardDocument): BoardDocument {
         title: card.title,
         description: card.description,
         checked: card.checked,
+        startDate: card.startDate,
         dueDate: card.dueDate,
+        fields: card.fields,
       })
     ),
+    archiveNotes: board.archiveNotes?.map((note) => ({ ...note })),
+    preamble: board.preamble,
+    epilogue: board.epilogue,
+    extraFrontmatter: board.extraFrontmatter && { ...board.extraFrontmatter },
   };
 }
 
@@ -45,11 +83,25 @@ export class BoardStore {
   private board: BoardDocument;
   private filter: BoardFilter;
   private listeners: Set<Listener>;
-
-  constructor(board: BoardDocument) {
+  private history: UndoHistory<BoardDocument>;
+  private compiledQuery: { source: string; node: QueryNode | null; error: string | null };
+  private batchDepth: number;
+  private batchChanged: boolean;
+  private batchEmitPending: boolean;
+  private recurringCompletion: RecurringCompletion;
+  private readOnly: boolean;
+
+  constructor(board: BoardDocument, options: BoardStoreOptions = {}) {
     this.board = cloneBoard(board);
     this.filter = { query: '', tag: '' };
     this.listeners = new Set();
+    this.history = new UndoHistory(HISTORY_LIMIT);
+    this.compiledQuery = { source: '', node: null, error: null };
+    this.batchDepth = 0;
+    this.batchChanged = false;
+    this.batchEmitPending = false;
+    this.recurringCompletion = options.recurringCompletion || 'keep';
+    this.readOnly = false;
   }
 
   subscribe(listener: Listener): () => void {
@@ -65,11 +117,106 @@ export class BoardStore {
     return cloneBoard(this.board);
   }
 
-  setBoard(board: BoardDocument): void {
+  // Without a label the board is treated as a different document and the history starts over; with one,
+  // the replacement (a sync or merge from disk) becomes a single undoable step.
+  setBoard(board: BoardDocument, label: string | null = null): void {
+    if (label === null) {
+      this.history.clear();
+    } else if (serializeBoardMarkdown(board) !== this.toMarkdown()) {
+      this.recordHistory(label);
+    }
+
     this.board = cloneBoard(board);
     this.emit();
   }
 
+  setRecurringCompletion(completion: RecurringCompletion): void {
+    this.recurringCompletion = completion;
+  }
+
+  // Boards in a newer format than this plugin understands must not change, so every edit is ignored.
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  canUndo(): boolean {
+    return this.history.peekUndoLabel() !== null;
+  }
+
+  canRedo(): boolean {
+    return this.history.peekRedoLabel() !== null;
+  }
+
+  getUndoLabel(): string | null {
+    return this.history.peekUndoLabel();
+  }
+
+  getRedoLabel(): string | null {
+    return this.history.peekRedoLabel();
+  }
+
+  undo(): string | null {
+    if (this.readOnly) {
+      return null;
+    }
+
+    const entry = this.history.undo(cloneBoard(this.board));
+    if (!entry) {
+      return null;
+    }
+
+    this.board = cloneBoard(entry.state);
+    this.emit();
+    return entry.label;
+  }
+
+  redo(): string | null {
+    if (this.readOnly) {
+      return null;
+    }
+
+    const entry = this.history.redo(cloneBoard(this.board));
+    if (!entry) {
+      return null;
+    }
+
+    this.board = cloneBoard(entry.state);
+    this.emit();
+    return entry.label;
+  }
+
+  batch<T>(label: string, mutate: () => T): T {
+    if (this.batchDepth > 0) {
+      return mutate();
+    }
+
+    const before = cloneBoard(this.board);
+    this.batchDepth = 1;
+    this.batchChanged = false;
+    this.batchEmitPending = false;
+
+    let result: T;
+    try {
+      result = mutate();
+    } finally {
+      this.batchDepth = 0;
+    }
+
+    if (this.batchChanged) {
+      this.history.record(label, before);
+    }
+
+    if (this.batchEmitPending) {
+      this.emit();
+    }
+
+    return result;
+  }
+
   setFilterQuery(query: string): void {
     this.filter = {
       ...this.filter,
@@ -96,6 +243,11 @@ export class BoardStore {
     boardDescription: string;
     density: CardDensity;
   }): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    this.recordHistory('Edit board settings');
     this.board = {
       ...this.board,
       boardTitle: payload.boardTitle.trim() || this.board.boardTitle,
@@ -105,7 +257,86 @@ export class BoardStore {
     this.emit();
   }
 
+  setLayout(layout: BoardLayout): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    if (this.board.layout === layout) {
+      return;
+    }
+
+    this.recordHistory('Change layout');
+    this.board = {
+      ...this.board,
+      layout,
+    };
+    this.emit();
+  }
+
+  setSwimlaneGroup(group: SwimlaneGroup): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    if (this.board.swimlanes === group) {
+      return;
+    }
+
+    this.recordHistory('Change swimlanes');
+    this.board = {
+      ...this.board,
+      swimlanes: group,
+    };
+    this.emit();
+  }
+
+  saveFilterView(name: string, query: string): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return;
+    }
+
+    const view = { name: trimmedName, query: query.trim() };
+    const exists = this.board.views.some((entry) => entry.name === trimmedName);
+
+    this.recordHistory('Save filter view');
+    this.board = {
+      ...this.board,
+      views: exists
+        ? this.board.views.map((entry) => (entry.name === trimmedName ? view : entry))
+        : [...this.board.views, view],
+    };
+    this.emit();
+  }
+
+  deleteFilterView(name: string): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    if (!this.board.views.some((entry) => entry.name === name)) {
+      return;
+    }
+
+    this.recordHistory('Delete filter view');
+    this.board = {
+      ...this.board,
+      views: this.board.views.filter((entry) => entry.name !== name),
+    };
+    this.emit();
+  }
+
   addColumn(column: Column): Column {
+    if (this.readOnly) {
+      return column;
+    }
+
+    this.recordHistory('Add column');
     this.board = {
       ...this.board,
       columns: [...this.board.columns, column],
@@ -116,6 +347,11 @@ export class BoardStore {
   }
 
   renameColumn(columnId: string, title: string): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    this.recordHistory('Rename column');
     this.board = {
       ...this.board,
       columns: this.board.columns.map((column) =>
@@ -131,6 +367,11 @@ export class BoardStore {
   }
 
   setColumnWipLimit(columnId: string, limit: number | null): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    this.recordHistory('Set WIP limit');
     this.board = {
       ...this.board,
       columns: this.board.columns.map((column) =>
@@ -145,7 +386,105 @@ export class BoardStore {
     this.emit();
   }
 
+  setColumnRules(columnId: string, rules: ColumnRule[]): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    const column = this.board.columns.find((entry) => entry.id === columnId);
+    if (!column || JSON.stringify(column.rules || []) === JSON.stringify(rules)) {
+      return;
+    }
+
+    this.recordHistory('Edit column rules');
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((entry) =>
+        entry.id === columnId ? { ...entry, rules: rules.map((rule) => ({ ...rule })) } : entry
+      ),
+    };
+    this.emit();
+  }
+
+  // Loading a board passes recordHistory: false so the sweep becomes part of the loaded state rather than
+  // an undo step the user never took.
+  archiveExpiredCards(
+    today = formatLocalDate(new Date()),
+    options: { recordHistory?: boolean } = {}
+  ): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    const ids = new Set(collectExpiredCardIds(this.board, today));
+    const expired = this.collectCards(ids).map((card) => clearAutoArchive(card));
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    if (options.recordHistory !== false) {
+      this.recordHistory(expired.length === 1 ? 'Archive card' : 'Archive cards');
+    }
+    this.board = {
+      ...this.board,
+      columns: this.removeCardsFromColumns(ids),
+      archive: [...this.board.archive, ...expired],
+    };
+
+    this.emit();
+    return expired.length;
+  }
+
+  setColumnSortMode(columnId: string, sortMode: ColumnSortMode): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    const column = this.board.columns.find((entry) => entry.id === columnId);
+    if (!column || (column.sortMode || 'manual') === sortMode) {
+      return;
+    }
+
+    this.recordHistory('Change sort');
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((entry) =>
+        entry.id === columnId ? { ...entry, sortMode } : entry
+      ),
+    };
+    this.emit();
+  }
+
+  applyColumnSort(columnId: string): boolean {
+    if (this.readOnly) {
+      return false;
+    }
+
+    const column = this.board.columns.find((entry) => entry.id === columnId);
+    const sortMode = column?.sortMode || 'manual';
+    if (!column || sortMode === 'manual') {
+      return false;
+    }
+
+    this.recordHistory('Apply sort');
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((entry) =>
+        entry.id === columnId
+          ? { ...entry, sortMode: 'manual', cards: sortCards(entry.cards, sortMode) }
+          : entry
+      ),
+    };
+    this.emit();
+    return true;
+  }
+
   deleteColumn(columnId: string): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    this.recordHistory('Delete column');
     this.board = {
       ...this.board,
       columns: this.board.columns.filter((column) => column.id !== columnId),
@@ -154,6 +493,10 @@ export class BoardStore {
   }
 
   moveColumn(sourceColumnId: string, targetIndex: number): void {
+    if (this.readOnly) {
+      return;
+    }
+
     const sourceIndex = this.board.columns.findIndex((column) => column.id === sourceColumnId);
     if (sourceIndex < 0) {
       return;
@@ -168,6 +511,7 @@ export class BoardStore {
     const nextIndex = Math.max(0, Math.min(targetIndex, columns.length));
     columns.splice(nextIndex, 0, moved);
 
+    this.recordHistory('Move column');
     this.board = {
       ...this.board,
       columns,
@@ -177,6 +521,11 @@ export class BoardStore {
   }
 
   addCard(columnId: string, card: Card, placement: 'top' | 'bottom' = 'bottom'): Card {
+    if (this.readOnly) {
+      return card;
+    }
+
+    this.recordHistory('Add card');
     this.board = {
       ...this.board,
       columns: this.board.columns.map((column) => {
@@ -191,8 +540,9 @@ export class BoardStore {
       }),
     };
 
+    this.applyColumnEntryRules(columnId, [card.id]);
     this.emit();
-    return card;
+    return this.getCard(columnId, card.id) || card;
   }
 
   insertCardsFromParsedLines(
@@ -210,7 +560,11 @@ export class BoardStore {
   }
 
   insertCardsAt(columnId: string, targetIndex: number, cards: Card[]): number {
-    if (cards.length === 0) {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    if (cards.length === 0 || !this.board.columns.some((column) => column.id === columnId)) {
       return 0;
     }
 
@@ -220,12 +574,15 @@ export class BoardStore {
         title: card.title,
         description: card.description,
         checked: card.checked,
+        startDate: card.startDate,
         dueDate: card.dueDate,
+        fields: card.fields,
       })
     );
 
     let inserted = 0;
 
+    this.recordHistory(normalizedCards.length === 1 ? 'Insert card' : 'Insert cards');
     this.board = {
       ...this.board,
       columns: this.board.columns.map((column) => {
@@ -271,7 +628,16 @@ export class BoardStore {
   }
 
   updateCard(columnId: string, cardId: string, updater: CardUpdater): void {
-    this.board = {
+    if (this.readOnly) {
+      return;
+    }
+
+    if (!this.getCard(columnId, cardId)) {
+      return;
+    }
+
+    const previous = this.board;
+    const updated: BoardDocument = {
       ...this.board,
       columns: this.board.columns.map((column) => {
         if (column.id !== columnId) {
@@ -291,17 +657,34 @@ export class BoardStore {
               title: next.title,
               description: next.description,
               checked: next.checked,
+              startDate: next.startDate,
               dueDate: next.dueDate,
+              fields: next.fields,
             });
           }),
         };
       }),
     };
+    if (serializeBoardMarkdown(updated) === this.toMarkdown()) {
+      return;
+    }
 
+    this.recordHistory('Edit card');
+    this.board = updated;
+    this.completeRecurringCards(previous);
     this.emit();
   }
 
   deleteCard(columnId: string, cardId: string): void {
+    if (this.readOnly) {
+      return;
+    }
+
+    if (!this.getCard(columnId, cardId)) {
+      return;
+    }
+
+    this.recordHistory('Delete card');
     this.board = {
       ...this.board,
       columns: this.board.columns.map((column) =>
@@ -317,13 +700,145 @@ export class BoardStore {
     this.emit();
   }
 
+  updateCards(cardIds: string[], updater: CardUpdater, label = 'Edit cards'): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    const ids = new Set(cardIds);
+    const count = this.collectCards(ids).length;
+    if (count === 0) {
+      return 0;
+    }
+
+    this.recordHistory(label);
+    const previous = this.board;
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((column) =>
+        column.cards.some((card) => ids.has(card.id))
+          ? {
+              ...column,
+              cards: column.cards.map((card) => {
+                if (!ids.has(card.id)) {
+                  return card;
+                }
+
+                const next = updater(card);
+                return normalizeCard({
+                  id: next.id,
+                  title: next.title,
+                  description: next.description,
+                  checked: next.checked,
+                  startDate: next.startDate,
+                  dueDate: next.dueDate,
+                  fields: next.fields,
+                });
+              }),
+            }
+          : column
+      ),
+    };
+
+    this.completeRecurringCards(previous);
+    this.emit();
+    return count;
+  }
+
+  moveCards(cardIds: string[], targetColumnId: string, targetIndex: number): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    const ids = new Set(cardIds);
+    const moving = this.collectCards(ids);
+    const targetColumn = this.board.columns.find((column) => column.id === targetColumnId);
+    if (moving.length === 0 || !targetColumn) {
+      return 0;
+    }
+
+    const movedBeforeTarget = targetColumn.cards
+      .slice(0, Math.max(0, targetIndex))
+      .filter((card) => ids.has(card.id)).length;
+
+    this.recordHistory(moving.length === 1 ? 'Move card' : 'Move cards');
+    const previous = this.board;
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((column) => {
+        const remaining = column.cards.filter((card) => !ids.has(card.id));
+        if (column.id !== targetColumnId) {
+          return remaining.length === column.cards.length ? column : { ...column, cards: remaining };
+        }
+
+        const insertIndex = Math.max(0, Math.min(targetIndex - movedBeforeTarget, remaining.length));
+        remaining.splice(insertIndex, 0, ...moving);
+        return { ...column, cards: remaining };
+      }),
+    };
+
+    const entering = moving.filter((card) => !targetColumn.cards.some((entry) => entry.id === card.id));
+    const sources = this.applyColumnEntryRules(targetColumnId, entering.map((card) => card.id));
+    this.completeRecurringCards(previous, sources);
+    this.emit();
+    return moving.length;
+  }
+
+  deleteCards(cardIds: string[]): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    const ids = new Set(cardIds);
+    const count = this.collectCards(ids).length;
+    if (count === 0) {
+      return 0;
+    }
+
+    this.recordHistory(count === 1 ? 'Delete card' : 'Delete cards');
+    this.board = {
+      ...this.board,
+      columns: this.removeCardsFromColumns(ids),
+    };
+
+    this.emit();
+    return count;
+  }
+
+  archiveCards(cardIds: string[]): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    const ids = new Set(cardIds);
+    const archived = this.collectCards(ids);
+    if (archived.length === 0) {
+      return 0;
+    }
+
+    this.recordHistory(archived.length === 1 ? 'Archive card' : 'Archive cards');
+    this.board = {
+      ...this.board,
+      columns: this.removeCardsFromColumns(ids),
+      archive: [...this.board.archive, ...archived],
+    };
+
+    this.emit();
+    return archived.length;
+  }
+
   clearColumnCards(columnId: string): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
     const column = this.board.columns.find((entry) => entry.id === columnId);
     const count = column?.cards.length || 0;
     if (count === 0) {
       return 0;
     }
 
+    this.recordHistory('Clear column');
     this.board = {
       ...this.board,
       columns: this.board.columns.map((entry) =>
@@ -341,6 +856,10 @@ export class BoardStore {
   }
 
   archiveColumnCards(columnId: string): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
     const column = this.board.columns.find((entry) => entry.id === columnId);
     const cardsToArchive = column?.cards || [];
 
@@ -348,6 +867,7 @@ export class BoardStore {
       return 0;
     }
 
+    this.recordHistory('Archive column cards');
     this.board = {
       ...this.board,
       columns: this.board.columns.map((entry) =>
@@ -365,12 +885,101 @@ export class BoardStore {
     return cardsToArchive.length;
   }
 
+  archiveCard(columnId: string, cardId: string): boolean {
+    if (this.readOnly) {
+      return false;
+    }
+
+    const card = this.getCard(columnId, cardId);
+    if (!card) {
+      return false;
+    }
+
+    this.recordHistory('Archive card');
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((column) =>
+        column.id === columnId
+          ? {
+              ...column,
+              cards: column.cards.filter((entry) => entry.id !== cardId),
+            }
+          : column
+      ),
+      archive: [...this.board.archive, card],
+    };
+
+    this.emit();
+    return true;
+  }
+
+  restoreArchivedCards(cardIds: string[], columnId: string, targetIndex: number): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    const ids = new Set(cardIds);
+    const restored = this.board.archive.filter((card) => ids.has(card.id));
+    if (restored.length === 0 || !this.board.columns.some((column) => column.id === columnId)) {
+      return 0;
+    }
+
+    this.recordHistory(restored.length === 1 ? 'Restore archived card' : 'Restore archived cards');
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((column) => {
+        if (column.id !== columnId) {
+          return column;
+        }
+
+        const nextCards = [...column.cards];
+        const insertIndex = Math.max(0, Math.min(targetIndex, nextCards.length));
+        nextCards.splice(insertIndex, 0, ...restored);
+
+        return {
+          ...column,
+          cards: nextCards,
+        };
+      }),
+      archive: this.board.archive.filter((card) => !ids.has(card.id)),
+    };
+
+    this.emit();
+    return restored.length;
+  }
+
+  deleteArchivedCards(cardIds: string[]): number {
+    if (this.readOnly) {
+      return 0;
+    }
+
+    const ids = new Set(cardIds);
+    const remaining = this.board.archive.filter((card) => !ids.has(card.id));
+    const deleted = this.board.archive.length - remaining.length;
+    if (deleted === 0) {
+      return 0;
+    }
+
+    this.recordHistory(deleted === 1 ? 'Delete archived card' : 'Delete archived cards');
+    this.board = {
+      ...this.board,
+      archive: remaining,
+    };
+
+    this.emit();
+    return deleted;
+  }
+
   moveCard(
     sourceColumnId: string,
     cardId: string,
     targetColumnId: string,
     targetIndex: number
   ): void {
+    if (this.readOnly) {
+      return;
+    }
+
     const sourceColumnIndex = this.board.columns.findIndex((column) => column.id === sourceColumnId);
     const targetColumnIndex = this.board.columns.findIndex((column) => column.id === targetColumnId);
 
@@ -417,11 +1026,16 @@ export class BoardStore {
 
     targetCards.splice(insertIndex, 0, card);
 
+    this.recordHistory('Move card');
+    const previous = this.board;
     this.board = {
       ...this.board,
       columns: nextColumns,
     };
 
+    const sources =
+      sourceColumnId !== targetColumnId ? this.applyColumnEntryRules(targetColumnId, [cardId]) : undefined;
+    this.completeRecurringCards(previous, sources);
     this.emit();
   }
 
@@ -430,7 +1044,7 @@ export class BoardStore {
   }
 
   getSnapshot(): BoardStoreSnapshot {
-    const query = this.filter.query.trim().toLowerCase();
+    const { node: query, error: queryError } = this.compileQuery();
     const tag = normalizeTagFilter(this.filter.tag);
     const allTags = sortUnique(
       this.board.columns.flatMap((column) => column.cards.flatMap((card) => card.tags))
@@ -441,15 +1055,23 @@ export class BoardStore {
       return {
         board: full,
         filter: { ...this.filter },
-        visibleColumns: full.columns,
+        visibleColumns: full.columns.map((column) => ({
+          ...column,
+          cards: sortCards(column.cards, column.sortMode || 'manual'),
+        })),
         allTags,
+        queryError,
       };
     }
 
+    const today = formatLocalDate(new Date());
     const visibleColumns = this.board.columns.map((column) => ({
       ...column,
-      cards: column.cards.filter((card) => {
-        if (query && !card.searchText.includes(query)) {
+      cards: sortCards(column.cards, column.sortMode || 'manual').filter((card) => {
+        if (
+          query &&
+          !matchesQuery(query, card, { columnId: column.id, columnTitle: column.title, today })
+        ) {
           return false;
         }
 
@@ -466,10 +1088,93 @@ export class BoardStore {
       filter: { ...this.filter },
       visibleColumns,
       allTags,
+      queryError,
+    };
+  }
+
+  // Returns the entering cards as they were before the rules ran.
+  private applyColumnEntryRules(columnId: string, cardIds: string[]): Map<string, Card> {
+    const before = new Map<string, Card>();
+    const column = this.board.columns.find((entry) => entry.id === columnId);
+    if (!column || cardIds.length === 0) {
+      return before;
+    }
+
+    const ids = new Set(cardIds);
+    const today = formatLocalDate(new Date());
+    this.board = {
+      ...this.board,
+      columns: this.board.columns.map((entry) =>
+        entry.id === columnId
+          ? {
+              ...entry,
+              cards: entry.cards.map((card) => {
+                if (!ids.has(card.id)) {
+                  return card;
+                }
+
+                before.set(card.id, card);
+                return applyColumnRules(card, entry.rules || [], today);
+              }),
+            }
+          : entry
+      ),
     };
+
+    return before;
+  }
+
+  private completeRecurringCards(previous: BoardDocument, sources?: Map<string, Card>): void {
+    const today = formatLocalDate(new Date());
+    this.board = applyRecurrence(previous, this.board, today, this.recurringCompletion, sources);
+  }
+
+  private collectCards(ids: Set<string>): Card[] {
+    return this.board.columns.flatMap((column) => column.cards.filter((card) => ids.has(card.id)));
+  }
+
+  private removeCardsFromColumns(ids: Set<string>): Column[] {
+    return this.board.columns.map((column) =>
+      column.cards.some((card) => ids.has(card.id))
+        ? { ...column, cards: column.cards.filter((card) => !ids.has(card.id)) }
+        : column
+    );
+  }
+
+  private compileQuery(): { node: QueryNode | null; error: string | null } {
+    const source = this.filter.query.trim();
+    if (this.compiledQuery.source === source) {
+      return this.compiledQuery;
+    }
+
+    try {
+      this.compiledQuery = { source, node: parseQuery(source), error: null };
+    } catch (error) {
+      this.compiledQuery = {
+        source,
+        node: null,
+        error: error instanceof Error ? error.message : 'Invalid search query.',
+      };
+    }
+
+    return this.compiledQuery;
+  }
+
+  private recordHistory(label: string): void {
+    if (this.batchDepth > 0) {
+      this.batchChanged = true;
+      return;
+    }
+
+    this.history.record(label, cloneBoard(this.board));
   }
 
   private emit(): void {
+    if (this.batchDepth > 0) {
+      this.batchEmitPending = true;
+      return;
+    }
+
     const snapshot = this.getSnapshot();
     for (const listener of this.listeners) {
       listener(snapshot);
@@ -0,0 +1,80 @@
+import type { DataAdapter } from 'obsidian';
+
+export interface SaveJournalEntry {
+  path: string;
+  payload: string;
+  savedAt: number;
+}
+
+function hashPath(path: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < path.length; index += 1) {
+    hash ^= path.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export class SaveJournal {
+  private adapter: DataAdapter;
+  private dir: string;
+  private queue: Promise<void>;
+
+  constructor(adapter: DataAdapter, dir: string) {
+    this.adapter = adapter;
+    this.dir = dir;
+    this.queue = Promise.resolve();
+  }
+
+  write(path: string, payload: string): Promise<void> {
+    const entry: SaveJournalEntry = { path, payload, savedAt: Date.now() };
+
+    return this.enqueue(async () => {
+      if (!(await this.adapter.exists(this.dir))) {
+        await this.adapter.mkdir(this.dir);
+      }
+
+      await this.adapter.write(this.getEntryPath(path), JSON.stringify(entry));
+    });
+  }
+
+  clear(path: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entryPath = this.getEntryPath(path);
+      if (await this.adapter.exists(entryPath)) {
+        await this.adapter.remove(entryPath);
+      }
+    });
+  }
+
+  async read(path: string): Promise<SaveJournalEntry | null> {
+    await this.queue;
+
+    const entryPath = this.getEntryPath(path);
+    if (!(await this.adapter.exists(entryPath))) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(await this.adapter.read(entryPath)) as Partial<SaveJournalEntry>;
+      if (parsed.path !== path || typeof parsed.payload !== 'string' || typeof parsed.savedAt !== 'number') {
+        return null;
+      }
+
+      return { path, payload: parsed.payload, savedAt: parsed.savedAt };
+    } catch {
+      return null;
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private getEntryPath(path: string): string {
+    return `${this.dir}/${hashPath(path)}.json`;
+  }
+}
@@ -1,30 +1,67 @@
+export interface SaveQueueJournal {
+  write(payload: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type SaveQueueState = 'saved' | 'pending' | 'writing' | 'failed';
+
+export interface SaveQueueStatus {
+  state: SaveQueueState;
+  error: unknown;
+}
+
+export interface SaveQueueOptions {
+  journal?: SaveQueueJournal;
+  retryDelaysMs?: number[];
+  onStatusChange?: (status: SaveQueueStatus) => void;
+}
+
+const DEFAULT_RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
 export class SaveQueue {
   private debounceMs: number;
   private maxDelayMs: number;
   private flushFn: (payload: string) => Promise<void> | void;
+  private journal: SaveQueueJournal | null;
+  private retryDelaysMs: number[];
+  private onStatusChange: ((status: SaveQueueStatus) => void) | null;
 
   private debounceHandle: number | null;
   private maxDelayHandle: number | null;
+  private retryHandle: number | null;
   private pendingPayload: string | null;
-  private writing: boolean;
+  private activeFlush: Promise<void> | null;
+  private failureCount: number;
+  private lastError: unknown;
+  private lastStatus: SaveQueueStatus;
 
   constructor(
     flushFn: (payload: string) => Promise<void> | void,
     debounceMs: number,
-    maxDelayMs: number
+    maxDelayMs: number,
+    options: SaveQueueOptions = {}
   ) {
     this.flushFn = flushFn;
     this.debounceMs = debounceMs;
     this.maxDelayMs = maxDelayMs;
+    this.journal = options.journal || null;
+    this.retryDelaysMs = options.retryDelaysMs?.length ? options.retryDelaysMs : DEFAULT_RETRY_DELAYS_MS;
+    this.onStatusChange = options.onStatusChange || null;
 
     this.debounceHandle = null;
     this.maxDelayHandle = null;
+    this.retryHandle = null;
     this.pendingPayload = null;
-    this.writing = false;
+    this.activeFlush = null;
+    this.failureCount = 0;
+    this.lastError = null;
+    this.lastStatus = { state: 'saved', error: null };
   }
 
   request(payload: string): void {
     this.pendingPayload = payload;
+    this.journal?.write(payload).catch((error) => console.error(error));
+    this.emitStatus();
 
     if (this.debounceHandle !== null) {
       window.clearTimeout(this.debounceHandle);
@@ -41,17 +78,34 @@ export class SaveQueue {
     }
   }
 
-  async flushNow(): Promise<void> {
+  async flushNow(): Promise<SaveQueueStatus> {
+    if (this.activeFlush) {
+      await this.activeFlush.catch(() => undefined);
+    }
+
     await this.flush();
+    return this.lastStatus;
+  }
+
+  getStatus(): SaveQueueStatus {
+    return this.lastStatus;
   }
 
   clearPending(): void {
+    const hadPayload = this.pendingPayload !== null;
     this.pendingPayload = null;
     this.clearTimers();
+    this.setError(null);
+    this.emitStatus();
+
+    if (hadPayload) {
+      this.journal?.clear().catch((error) => console.error(error));
+    }
   }
 
   destroy(): void {
-    this.clearPending();
+    this.pendingPayload = null;
+    this.clearTimers();
   }
 
   private clearTimers(): void {
@@ -64,10 +118,49 @@ export class SaveQueue {
       window.clearTimeout(this.maxDelayHandle);
       this.maxDelayHandle = null;
     }
+
+    if (this.retryHandle !== null) {
+      window.clearTimeout(this.retryHandle);
+      this.retryHandle = null;
+    }
+  }
+
+  private scheduleRetry(): void {
+    const delay = this.retryDelaysMs[Math.min(this.failureCount, this.retryDelaysMs.length) - 1] || 0;
+    this.retryHandle = window.setTimeout(() => {
+      this.retryHandle = null;
+      this.flush().catch((error) => console.error(error));
+    }, delay);
+  }
+
+  private setError(error: unknown): void {
+    if (error === null && this.failureCount === 0) {
+      return;
+    }
+
+    this.failureCount = error === null ? 0 : this.failureCount + 1;
+    this.lastError = error;
+  }
+
+  private emitStatus(): void {
+    const state: SaveQueueState = this.activeFlush
+      ? 'writing'
+      : this.failureCount > 0
+        ? 'failed'
+        : this.pendingPayload
+          ? 'pending'
+          : 'saved';
+
+    if (state === this.lastStatus.state && this.lastError === this.lastStatus.error) {
+      return;
+    }
+
+    this.lastStatus = { state, error: this.lastError };
+    this.onStatusChange?.(this.lastStatus);
   }
 
   private async flush(): Promise<void> {
-    if (this.writing || !this.pendingPayload) {
+    if (this.activeFlush || !this.pendingPayload) {
       return;
     }
 
@@ -75,15 +168,32 @@ export class SaveQueue {
     this.pendingPayload = null;
     this.clearTimers();
 
-    this.writing = true;
-    try {
+    const write = (async () => {
       await this.flushFn(payload);
+    })();
+    this.activeFlush = write;
+    this.emitStatus();
+
+    try {
+      await write;
+      this.setError(null);
+    } catch (error) {
+      if (this.pendingPayload === null) {
+        this.pendingPayload = payload;
+      }
+      this.setError(error);
+      this.scheduleRetry();
+      return;
     } finally {
-      this.writing = false;
+      this.activeFlush = null;
+      this.emitStatus();
     }
 
     if (this.pendingPayload) {
       await this.flush();
+      return;
     }
+
+    this.journal?.clear().catch((error) => console.error(error));
   }
 }
@@ -0,0 +1,58 @@
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+}
+
+export class UndoHistory<T> {
+  private limit: number;
+  private undoStack: HistoryEntry<T>[];
+  private redoStack: HistoryEntry<T>[];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, Math.floor(limit));
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  record(label: string, state: T): void {
+    this.undoStack.push({ label, state });
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+
+    this.redoStack = [];
+  }
+
+  undo(current: T): HistoryEntry<T> | null {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return null;
+    }
+
+    this.redoStack.push({ label: entry.label, state: current });
+    return entry;
+  }
+
+  redo(current: T): HistoryEntry<T> | null {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return null;
+    }
+
+    this.undoStack.push({ label: entry.label, state: current });
+    return entry;
+  }
+
+  peekUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  peekRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
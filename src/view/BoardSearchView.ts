@@ -0,0 +1,215 @@
+import { ItemView, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+
+import KanbanNextPlugin from '../main';
+import { describeDueDate, formatLocalDate } from '../model/dueDate';
+import { BoardSearchDue, BoardSearchFilter, BoardSearchResult, BoardSearchStatus } from '../model/types';
+import { BoardIndex } from '../state/BoardIndex';
+
+export const BOARD_SEARCH_VIEW_TYPE = 'kanban-next-search';
+
+const STATUS_OPTIONS: Array<{ value: BoardSearchStatus; label: string }> = [
+  { value: 'any', label: 'Any status' },
+  { value: 'open', label: 'Open' },
+  { value: 'done', label: 'Done' },
+];
+
+const DUE_OPTIONS: Array<{ value: BoardSearchDue; label: string }> = [
+  { value: 'any', label: 'Any due date' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Due today' },
+  { value: 'week', label: 'Due in the next 7 days' },
+  { value: 'none', label: 'No due date' },
+];
+
+export class BoardSearchView extends ItemView {
+  private plugin: KanbanNextPlugin;
+  private index: BoardIndex | null;
+  private unsubscribeIndex: (() => void) | null;
+  private filter: BoardSearchFilter;
+  private summaryEl: HTMLElement | null;
+  private resultsEl: HTMLElement | null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: KanbanNextPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.index = null;
+    this.unsubscribeIndex = null;
+    this.filter = { query: '', tag: '', status: 'open', due: 'any' };
+    this.summaryEl = null;
+    this.resultsEl = null;
+  }
+
+  getViewType(): string {
+    return BOARD_SEARCH_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Search all boards';
+  }
+
+  getIcon(): string {
+    return 'search';
+  }
+
+  async onOpen(): Promise<void> {
+    const rootEl = this.contentEl.createDiv({ cls: 'kanban-next-search-view' });
+    const controlsEl = rootEl.createDiv({ cls: 'kanban-next-search-controls' });
+
+    const queryInput = controlsEl.createEl('input', {
+      type: 'text',
+      cls: 'kanban-next-filter-input',
+      placeholder: 'Search… e.g. login is:open due:<today',
+    });
+    queryInput.setAttr('aria-label', 'Search cards in all boards');
+    queryInput.addEventListener('input', () => {
+      this.filter.query = queryInput.value;
+      this.render();
+    });
+
+    const tagInput = controlsEl.createEl('input', {
+      type: 'text',
+      cls: 'kanban-next-filter-input',
+      placeholder: 'Tag (#tag)…',
+    });
+    tagInput.setAttr('aria-label', 'Filter cards by tag');
+    tagInput.addEventListener('input', () => {
+      this.filter.tag = tagInput.value;
+      this.render();
+    });
+
+    this.createSelect(controlsEl, STATUS_OPTIONS, this.filter.status, 'Filter by status', (value) => {
+      this.filter.status = value;
+    });
+    this.createSelect(controlsEl, DUE_OPTIONS, this.filter.due, 'Filter by due date', (value) => {
+      this.filter.due = value;
+    });
+
+    this.summaryEl = rootEl.createDiv({ cls: 'kanban-next-search-summary', text: 'Indexing boards…' });
+    this.resultsEl = rootEl.createDiv({ cls: 'kanban-next-search-results' });
+
+    const index = await this.plugin.getBoardIndex();
+    if (!this.resultsEl) {
+      return;
+    }
+
+    this.index = index;
+    this.unsubscribeIndex = index.subscribe(() => {
+      this.render();
+    });
+    this.render();
+    queryInput.focus();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribeIndex?.();
+    this.unsubscribeIndex = null;
+    this.index = null;
+    this.summaryEl = null;
+    this.resultsEl = null;
+    this.contentEl.empty();
+  }
+
+  private createSelect<T extends string>(
+    parent: HTMLElement,
+    options: Array<{ value: T; label: string }>,
+    value: T,
+    label: string,
+    onChange: (value: T) => void
+  ): void {
+    const selectEl = parent.createEl('select', { cls: 'dropdown' });
+    selectEl.setAttr('aria-label', label);
+    options.forEach((option) => {
+      selectEl.createEl('option', { value: option.value, text: option.label });
+    });
+    selectEl.value = value;
+    selectEl.addEventListener('change', () => {
+      const selected = options.find((option) => option.value === selectEl.value);
+      if (selected) {
+        onChange(selected.value);
+        this.render();
+      }
+    });
+  }
+
+  private render(): void {
+    if (!this.index || !this.summaryEl || !this.resultsEl) {
+      return;
+    }
+
+    const today = formatLocalDate(new Date());
+    let results: BoardSearchResult[];
+    try {
+      results = this.index.search(this.filter, today);
+    } catch (error) {
+      this.summaryEl.setText(error instanceof Error ? error.message : 'Invalid search query.');
+      this.summaryEl.addClass('is-error');
+      this.resultsEl.empty();
+      return;
+    }
+
+    const cardCount = results.reduce(
+      (total, result) => total + result.columns.reduce((sum, column) => sum + column.cards.length, 0),
+      0
+    );
+    this.summaryEl.removeClass('is-error');
+    this.summaryEl.setText(
+      `${cardCount} ${cardCount === 1 ? 'card' : 'cards'} in ${results.length} of ${this.index.size} ` +
+        `${this.index.size === 1 ? 'board' : 'boards'}`
+    );
+
+    this.resultsEl.empty();
+    for (const result of results) {
+      const boardEl = this.resultsEl.createDiv({ cls: 'kanban-next-search-board' });
+      const headingEl = boardEl.createEl('h3', {
+        cls: 'kanban-next-search-board-title',
+        text: result.boardTitle,
+      });
+      headingEl.setAttr('title', result.path);
+      headingEl.addEventListener('click', () => {
+        void this.openResult(result.path, null);
+      });
+
+      for (const column of result.columns) {
+        const columnEl = boardEl.createDiv({ cls: 'kanban-next-search-column' });
+        columnEl.createEl('h4', { text: `${column.columnTitle} (${column.cards.length})` });
+        const listEl = columnEl.createEl('ul');
+
+        for (const card of column.cards) {
+          const itemEl = listEl.createEl('li', { cls: 'kanban-next-search-card' });
+          itemEl.toggleClass('is-complete', card.checked);
+          itemEl.tabIndex = 0;
+          setIcon(
+            itemEl.createSpan({ cls: 'kanban-next-inline-icon' }),
+            card.checked ? 'check-square' : 'square'
+          );
+          itemEl.createSpan({ cls: 'kanban-next-search-card-title', text: card.title });
+
+          const due = card.dueDate ? describeDueDate(card.dueDate, today) : null;
+          if (due) {
+            itemEl.createSpan({
+              cls: `kanban-next-chip kanban-next-due-chip is-${due.state}`,
+              text: due.label,
+            });
+          }
+
+          itemEl.addEventListener('click', () => {
+            void this.openResult(result.path, card.id);
+          });
+          itemEl.addEventListener('keydown', (event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              void this.openResult(result.path, card.id);
+            }
+          });
+        }
+      }
+    }
+  }
+
+  private async openResult(path: string, cardId: string | null): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await this.plugin.openBoard(file, cardId);
+    }
+  }
+}
@@ -1,26 +1,124 @@
 import { Menu, Notice, Platform, TFile, TextFileView, WorkspaceLeaf, normalizePath, setIcon } from 'obsidian';
 
 import KanbanNextPlugin from '../main';
+import { openArchiveModal } from '../modals/ArchiveModal';
 import { openConfirmModal } from '../modals/ConfirmModal';
 import { promptForMultilineText, promptForText } from '../modals/PromptModal';
 import { openBoardSettingsModal } from '../modals/BoardSettingsModal';
+import { openCardDetailModal } from '../modals/CardDetailModal';
+import { openMergeConflictModal } from '../modals/MergeConflictModal';
+import { openShortcutHelpModal } from '../modals/ShortcutHelpModal';
+import { describeColumnRule } from '../model/automation';
+import { buildCalendarGrid, CalendarEntry, CalendarScale, shiftCalendarAnchor } from '../model/calendar';
 import { clampEditableCardText, fromEditableCardText, toEditableCardText } from '../model/cardContent';
+import {
+  CardBacklinks,
+  collectCardBacklinks,
+  describeBacklinkWarning,
+  LinkSource,
+  parseBlockLink,
+} from '../model/backlinks';
 import { createDefaultBoard } from '../model/boardTemplate';
-import { normalizeCard } from '../model/card';
+import { applyDiagnosticFix } from '../model/diagnostics';
+import { normalizeCard, normalizeDueDate, normalizeTagFilter, removeTagFromText } from '../model/card';
 import { parseClipboardList } from '../model/clipboard';
+import { describeDueDate, formatLocalDate, fromDayNumber, toDayNumber } from '../model/dueDate';
+import { getField, normalizeFieldKey, setField } from '../model/fields';
 import { createId } from '../model/id';
-import { parseBoardMarkdown } from '../model/parse';
-import { Card, Column } from '../model/types';
+import { mergeBoards } from '../model/merge';
+import { CURRENT_KANBAN_VERSION } from '../model/migrations';
+import { BoardParseError, parseBoardDocument, parseBoardMarkdown } from '../model/parse';
+import { serializeBoardMarkdown } from '../model/serialize';
+import { COLUMN_SORT_LABELS, COLUMN_SORT_MODES } from '../model/sort';
+import { applySwimlaneKey, getSwimlaneKey, groupIntoSwimlanes } from '../model/swimlanes';
+import {
+  buildTableRows,
+  collectTableFieldKeys,
+  parseTagList,
+  replaceCardTags,
+  TableRow,
+  TableSort,
+  TableSortKey,
+} from '../model/table';
+import {
+  buildTimeline,
+  getCardSpan,
+  listTimelineTicks,
+  shiftCardSpan,
+  TimelineBar,
+  TimelineEdge,
+  TimelineGroupBy,
+  TimelineZoom,
+} from '../model/timeline';
+import {
+  BoardDiagnostic,
+  BoardDocument,
+  BoardFormatInfo,
+  BoardLayout,
+  BoardStoreSnapshot,
+  Card,
+  Column,
+  ColumnRule,
+  ColumnSortMode,
+  SwimlaneGroup,
+} from '../model/types';
 import { BoardStore } from '../state/BoardStore';
-import { SaveQueue } from '../state/SaveQueue';
+import { SaveQueue, SaveQueueState, SaveQueueStatus } from '../state/SaveQueue';
 
 export const KANBAN_NEXT_VIEW_TYPE = 'kanban-next-view';
 export const KANBAN_NEXT_ICON = 'lucide-layout-dashboard';
 const CARD_TEXT_MAX_LENGTH = 1000;
+const CARD_DOUBLE_CLICK_DELAY_MS = 220;
+const LASSO_START_DISTANCE_PX = 5;
+const KEY_DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  k: 'up',
+  j: 'down',
+  h: 'left',
+  l: 'right',
+};
+// Alt+letter yields a composed character on macOS, so letters are also matched by physical key.
+const CODE_DIRECTIONS: Record<string, NavigationDirection> = {
+  KeyK: 'up',
+  KeyJ: 'down',
+  KeyH: 'left',
+  KeyL: 'right',
+};
+const CARD_FIELD_ICONS: Record<string, string> = {
+  assignee: 'user',
+  priority: 'flag',
+  estimate: 'timer',
+};
 
 interface CardDragState {
   cardId: string;
   sourceColumnId: string;
+  cardIds: string[];
+}
+
+interface LassoState {
+  startX: number;
+  startY: number;
+  additive: boolean;
+  baseIds: Set<string>;
+  active: boolean;
+  onMove: (event: MouseEvent) => void;
+  onUp: (event: MouseEvent) => void;
+}
+
+interface TimelineDragState {
+  bar: TimelineBar;
+  edge: TimelineEdge;
+  barEl: HTMLElement;
+  originX: number;
+  rangeStart: number;
+  dayWidth: number;
+  delta: number;
+  onMove: (event: MouseEvent) => void;
+  onUp: (event: MouseEvent) => void;
 }
 
 interface ColumnDragState {
@@ -37,11 +135,61 @@ interface InlineCardEditState {
 
 type ActivePopover = 'search' | 'filter';
 
+type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+interface KeyboardFocus {
+  columnId: string;
+  cardId: string | null;
+}
+
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+const SAVE_STATUS_DISPLAY: Record<SaveQueueState, { icon: string; label: string; description: string }> = {
+  saved: { icon: 'check', label: 'Saved', description: 'All changes are written to disk.' },
+  pending: {
+    icon: 'circle-dot',
+    label: 'Unsaved',
+    description: 'Changes are queued and will be written shortly.',
+  },
+  writing: { icon: 'loader', label: 'Saving…', description: 'Writing changes to disk.' },
+  failed: {
+    icon: 'alert-triangle',
+    label: 'Save failed',
+    description: 'Changes could not be written to disk.',
+  },
+};
+
+const SWIMLANE_OPTIONS: Array<{ group: SwimlaneGroup; label: string }> = [
+  { group: 'none', label: 'No swimlanes' },
+  { group: 'tag', label: 'Group by first tag' },
+  { group: 'assignee', label: 'Group by assignee' },
+  { group: 'priority', label: 'Group by priority' },
+];
+
+const LAYOUT_OPTIONS: Array<{ layout: BoardLayout; label: string; icon: string }> = [
+  { layout: 'board', label: 'Board', icon: 'layout-dashboard' },
+  { layout: 'calendar', label: 'Calendar', icon: 'calendar-days' },
+  { layout: 'table', label: 'Table', icon: 'table' },
+  { layout: 'timeline', label: 'Timeline', icon: 'gantt-chart' },
+];
+
+const TIMELINE_DAY_WIDTHS: Record<TimelineZoom, number> = { day: 36, week: 14, month: 4 };
+
 export class KanbanView extends TextFileView {
   private plugin: KanbanNextPlugin;
   private rootEl: HTMLElement | null;
   private boardEl: HTMLElement | null;
   private lanesEl: HTMLElement | null;
+  private calendarEl: HTMLElement | null;
+  private tableEl: HTMLElement | null;
+  private timelineEl: HTMLElement | null;
 
   private boardTitleTextEl: HTMLElement | null;
   private boardTitleInputEl: HTMLInputElement | null;
@@ -51,17 +199,35 @@ export class KanbanView extends TextFileView {
   private tagInputEl: HTMLInputElement | null;
   private tagDatalistEl: HTMLElement | null;
   private tagOptionsCacheKey: string;
+  private queryErrorEl: HTMLElement | null;
+  private filterViewsEl: HTMLElement | null;
   private columnLaneEls: HTMLElement[];
   private activePopover: ActivePopover | null;
   private searchPopoverEl: HTMLElement | null;
   private filterPopoverEl: HTMLElement | null;
   private searchPopoverButtonEl: HTMLButtonElement | null;
   private filterPopoverButtonEl: HTMLButtonElement | null;
+  private selectionBarEl: HTMLElement | null;
+  private lassoEl: HTMLElement | null;
+  private saveStatusEl: HTMLElement | null;
+  private saveErrorEl: HTMLElement | null;
+  private formatWarningEl: HTMLElement | null;
+  private diagnosticsEl: HTMLElement | null;
 
   private store: BoardStore | null;
   private unsubscribeStore: (() => void) | null;
   private saveQueue: SaveQueue;
   private pendingSavePayload: string | null;
+  private lastSyncedBoard: BoardDocument | null;
+  private boardFormat: BoardFormatInfo | null;
+  private diagnostics: BoardDiagnostic[];
+  private diagnosticsSource: string | null;
+  private diagnosticsExpanded: boolean;
+  private cardBacklinks: Map<string, CardBacklinks>;
+  private backlinkSources: Map<string, LinkSource>;
+  private pendingRevealCardId: string | null;
+  private mergeInProgress: boolean;
+  private queuedIncomingBoard: BoardDocument | null;
 
   private cardDragState: CardDragState | null;
   private cardDragPreviewHeight: number;
@@ -74,6 +240,19 @@ export class KanbanView extends TextFileView {
   private columnDropIndicatorEl: HTMLElement | null;
   private columnDropInsertionIndex: number | null;
   private editingCard: InlineCardEditState | null;
+  private pendingCardClickHandle: number | null;
+  private collapsedSwimlaneKeys: Set<string>;
+  private calendarScale: CalendarScale;
+  private calendarAnchor: string;
+  private calendarDragEntry: CalendarEntry | null;
+  private tableSort: TableSort | null;
+  private timelineZoom: TimelineZoom;
+  private timelineGroupBy: TimelineGroupBy;
+  private timelineDrag: TimelineDragState | null;
+  private selectedCardIds: Set<string>;
+  private selectionAnchorCardId: string | null;
+  private lassoState: LassoState | null;
+  private keyboardFocus: KeyboardFocus | null;
   private titleEditInProgress: boolean;
   private initialized: boolean;
 
@@ -84,6 +263,9 @@ export class KanbanView extends TextFileView {
     this.rootEl = null;
     this.boardEl = null;
     this.lanesEl = null;
+    this.calendarEl = null;
+    this.tableEl = null;
+    this.timelineEl = null;
 
     this.boardTitleTextEl = null;
     this.boardTitleInputEl = null;
@@ -93,17 +275,35 @@ export class KanbanView extends TextFileView {
     this.tagInputEl = null;
     this.tagDatalistEl = null;
     this.tagOptionsCacheKey = '';
+    this.queryErrorEl = null;
+    this.filterViewsEl = null;
     this.columnLaneEls = [];
     this.activePopover = null;
     this.searchPopoverEl = null;
     this.filterPopoverEl = null;
     this.searchPopoverButtonEl = null;
     this.filterPopoverButtonEl = null;
+    this.selectionBarEl = null;
+    this.lassoEl = null;
+    this.saveStatusEl = null;
+    this.saveErrorEl = null;
+    this.formatWarningEl = null;
+    this.diagnosticsEl = null;
 
     this.store = null;
     this.unsubscribeStore = null;
 
     this.pendingSavePayload = null;
+    this.lastSyncedBoard = null;
+    this.boardFormat = null;
+    this.diagnostics = [];
+    this.diagnosticsSource = null;
+    this.diagnosticsExpanded = false;
+    this.cardBacklinks = new Map();
+    this.backlinkSources = new Map();
+    this.pendingRevealCardId = null;
+    this.mergeInProgress = false;
+    this.queuedIncomingBoard = null;
     this.cardDragState = null;
     this.cardDragPreviewHeight = 64;
     this.cardDropIndicatorEl = null;
@@ -115,6 +315,19 @@ export class KanbanView extends TextFileView {
     this.columnDropIndicatorEl = null;
     this.columnDropInsertionIndex = null;
     this.editingCard = null;
+    this.pendingCardClickHandle = null;
+    this.collapsedSwimlaneKeys = new Set();
+    this.calendarScale = 'month';
+    this.calendarAnchor = formatLocalDate(new Date());
+    this.calendarDragEntry = null;
+    this.tableSort = null;
+    this.timelineZoom = 'week';
+    this.timelineGroupBy = 'column';
+    this.timelineDrag = null;
+    this.selectedCardIds = new Set();
+    this.selectionAnchorCardId = null;
+    this.lassoState = null;
+    this.keyboardFocus = null;
     this.titleEditInProgress = false;
     this.initialized = false;
 
@@ -122,10 +335,25 @@ export class KanbanView extends TextFileView {
       async (payload) => {
         this.pendingSavePayload = payload;
         this.data = payload;
-        this.requestSave();
+        await this.save();
       },
       this.plugin.settings.saveDebounceMs,
-      this.plugin.settings.saveMaxDelayMs
+      this.plugin.settings.saveMaxDelayMs,
+      {
+        journal: {
+          write: async (payload) => {
+            if (this.file) {
+              await this.plugin.saveJournal.write(this.file.path, payload);
+            }
+          },
+          clear: async () => {
+            if (this.file) {
+              await this.plugin.saveJournal.clear(this.file.path);
+            }
+          },
+        },
+        onStatusChange: (status) => this.renderSaveStatus(status),
+      }
     );
   }
 
@@ -158,41 +386,196 @@ export class KanbanView extends TextFileView {
     return this.data;
   }
 
-  setViewData(data: string): void {
+  async save(clear?: boolean): Promise<void> {
+    const data = this.data;
+    await super.save(clear);
+
+    if (this.store && data === this.pendingSavePayload) {
+      const { board, format, diagnostics } = parseBoardDocument(data);
+      this.lastSyncedBoard = board;
+      this.boardFormat = format;
+      this.store.setReadOnly(format.readOnly);
+      this.setDiagnostics(diagnostics, data);
+    }
+  }
+
+  async onLoadFile(file: TFile): Promise<void> {
+    await super.onLoadFile(file);
+    this.refreshCardBacklinks();
+    await this.offerJournalRecovery(file);
+  }
+
+  setEphemeralState(state: unknown): void {
+    super.setEphemeralState(state);
+
+    const subpath = (state as { subpath?: unknown } | null)?.subpath;
+    const link = typeof subpath === 'string' ? parseBlockLink(subpath) : null;
+    if (link) {
+      this.revealCard(link.blockId);
+    }
+  }
+
+  async onUnloadFile(file: TFile): Promise<void> {
+    await this.saveQueue.flushNow();
+    await super.onUnloadFile(file);
+  }
+
+  setViewData(data: string, clear = false): void {
     this.data = data;
 
-    if (this.pendingSavePayload) {
-      if (this.pendingSavePayload === data) {
-        this.pendingSavePayload = null;
-      } else if (this.initialized) {
-        this.pendingSavePayload = null;
-        this.saveQueue.clearPending();
-        new Notice('gx-kanban reloaded after an external file change.');
-      }
+    const isOwnWrite = this.pendingSavePayload === data;
+    if (isOwnWrite || clear) {
+      this.pendingSavePayload = null;
     }
 
     try {
-      const board = parseBoardMarkdown(data);
+      const { board, format, diagnostics, idRepairs } = parseBoardDocument(data);
+      this.boardFormat = format;
+      this.setDiagnostics(diagnostics, data);
 
       if (!this.store) {
-        this.store = new BoardStore(board);
+        this.store = new BoardStore(board, { recurringCompletion: this.plugin.settings.recurringCompletion });
         this.unsubscribeStore = this.store.subscribe((snapshot) => {
           this.renderSnapshot(snapshot);
         });
+      } else if (clear || !this.initialized || !this.hasUnsyncedChanges()) {
+        if (this.initialized && !clear) {
+          this.saveQueue.clearPending();
+        }
+        this.store.setBoard(board, clear || !this.initialized ? null : 'Sync from file');
+      } else if (isOwnWrite) {
+        this.lastSyncedBoard = board;
+        return;
       } else {
-        this.store.setBoard(board);
+        void this.mergeExternalChange(board);
+        return;
       }
 
+      this.store.setReadOnly(format.readOnly);
+
+      this.lastSyncedBoard = board;
       this.initialized = true;
       this.syncBoardTitleWithFile(false);
+
+      const expired = format.readOnly
+        ? 0
+        : this.store.archiveExpiredCards(formatLocalDate(new Date()), { recordHistory: false });
+      if ((idRepairs.length > 0 || expired > 0) && !format.readOnly) {
+        this.schedulePersist();
+      }
     } catch (error) {
       if (error instanceof Error && error.message.includes('`kanban: true`')) {
         void this.plugin.setMarkdownView(this.leaf, false);
         return;
       }
 
-      this.renderError(error instanceof Error ? error.message : 'Unknown parsing error.');
+      this.renderError(
+        error instanceof Error ? error.message : 'Unknown parsing error.',
+        error instanceof BoardParseError ? error.line : null
+      );
+    }
+  }
+
+  private hasUnsyncedChanges(): boolean {
+    if (!this.store || !this.lastSyncedBoard) {
+      return false;
+    }
+
+    return serializeBoardMarkdown(this.lastSyncedBoard) !== this.store.toMarkdown();
+  }
+
+  private async mergeExternalChange(incoming: BoardDocument): Promise<void> {
+    if (!this.store || !this.lastSyncedBoard) {
+      return;
+    }
+
+    if (this.mergeInProgress) {
+      this.queuedIncomingBoard = incoming;
+      return;
+    }
+
+    const base = this.lastSyncedBoard;
+    this.saveQueue.clearPending();
+    this.pendingSavePayload = null;
+
+    let result = mergeBoards(base, this.store.getBoard(), incoming);
+    const conflictCount = result.conflicts.length;
+
+    if (conflictCount > 0) {
+      this.mergeInProgress = true;
+      const resolutions = await openMergeConflictModal(this.app, result.conflicts);
+      this.mergeInProgress = false;
+
+      if (!this.store) {
+        return;
+      }
+
+      result = mergeBoards(base, this.store.getBoard(), incoming, resolutions || {});
+    }
+
+    this.lastSyncedBoard = incoming;
+    this.store.setBoard(result.board, 'Merge changes from file');
+    this.syncBoardTitleWithFile(false);
+
+    if (serializeBoardMarkdown(result.board) !== serializeBoardMarkdown(incoming)) {
+      this.schedulePersist();
+    }
+
+    const conflictLabel = `${conflictCount} conflict${conflictCount === 1 ? '' : 's'}`;
+    new Notice(
+      conflictCount > 0
+        ? `gx-kanban merged an external file change (${conflictLabel} resolved).`
+        : 'gx-kanban merged an external file change with your unsaved edits.'
+    );
+
+    const queued = this.queuedIncomingBoard;
+    if (queued) {
+      this.queuedIncomingBoard = null;
+      await this.mergeExternalChange(queued);
+    }
+  }
+
+  private async offerJournalRecovery(file: TFile): Promise<void> {
+    const journal = this.plugin.saveJournal;
+    const entry = await journal.read(file.path);
+    if (!entry || !this.store) {
+      return;
+    }
+
+    if (entry.payload === this.data || entry.savedAt <= file.stat.mtime) {
+      await journal.clear(file.path);
+      return;
+    }
+
+    const savedAt = new Date(entry.savedAt).toLocaleString();
+    const confirmed = await openConfirmModal(this.app, {
+      title: 'Recover unsaved changes',
+      message:
+        `"${file.basename}" has changes from ${savedAt} that were never written to the file, ` +
+        'most likely because Obsidian closed before the save finished. Recover them?',
+      confirmLabel: 'Recover',
+    });
+
+    if (!confirmed) {
+      await journal.clear(file.path);
+      return;
+    }
+
+    if (!this.store || this.file !== file) {
+      return;
+    }
+
+    try {
+      this.store.setBoard(parseBoardMarkdown(entry.payload), 'Recover unsaved changes');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      new Notice(`gx-kanban could not recover the unsaved changes: ${reason}`);
+      return;
     }
+
+    this.syncBoardTitleWithFile(false);
+    this.schedulePersist();
+    new Notice(`Recovered unsaved changes to "${file.basename}".`);
   }
 
   async onOpen(): Promise<void> {
@@ -212,9 +595,22 @@ export class KanbanView extends TextFileView {
     this.registerDomEvent(document, 'keydown', (event) => {
       if (event.key === 'Escape') {
         this.setActivePopover(null);
+
+        const target = event.target;
+        if (target === document.body || (target instanceof Node && this.rootEl?.contains(target))) {
+          this.clearSelection();
+        }
       }
     });
 
+    this.registerDomEvent(document, 'keydown', (event) => {
+      this.handleHistoryShortcut(event);
+    });
+
+    this.registerDomEvent(document, 'keydown', (event) => {
+      this.handleKeyboardNavigation(event);
+    });
+
     this.registerDomEvent(
       window,
       'keydown',
@@ -241,8 +637,14 @@ export class KanbanView extends TextFileView {
     );
 
     this.registerEvent(
-      this.app.vault.on('rename', (file) => {
-        if (file !== this.file || !this.store) {
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (file !== this.file) {
+          this.updateCardBacklinks(oldPath);
+          return;
+        }
+
+        this.refreshCardBacklinks();
+        if (!this.store) {
           return;
         }
 
@@ -250,12 +652,33 @@ export class KanbanView extends TextFileView {
       })
     );
 
+    this.registerEvent(
+      this.app.metadataCache.on('resolve', (file) => {
+        this.updateCardBacklinks(file.path);
+      })
+    );
+
+    this.registerEvent(
+      this.app.metadataCache.on('deleted', (file) => {
+        this.updateCardBacklinks(file.path);
+      })
+    );
+
     if (this.store) {
       this.renderSnapshot(this.store.getSnapshot());
     }
   }
 
   async onClose(): Promise<void> {
+    const { error } = await this.saveQueue.flushNow();
+    if (error !== null) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      new Notice(
+        `Board could not be saved: ${reason}. The unsaved changes will be offered for recovery ` +
+          'the next time the board opens.'
+      );
+    }
+
     this.unsubscribeStore?.();
     this.unsubscribeStore = null;
 
@@ -269,7 +692,22 @@ export class KanbanView extends TextFileView {
     this.clearColumnDropIndicator();
     this.columnDropInsertionIndex = null;
     this.editingCard = null;
+    this.clearPendingCardClick();
+    this.endLasso();
+    this.selectedCardIds.clear();
+    this.selectionAnchorCardId = null;
+    this.keyboardFocus = null;
     this.pendingSavePayload = null;
+    this.lastSyncedBoard = null;
+    this.boardFormat = null;
+    this.diagnostics = [];
+    this.diagnosticsSource = null;
+    this.cardBacklinks = new Map();
+    this.backlinkSources = new Map();
+    this.pendingRevealCardId = null;
+    this.queuedIncomingBoard = null;
+    this.calendarDragEntry = null;
+    this.endTimelineDrag();
     this.titleEditInProgress = false;
 
     this.saveQueue.destroy();
@@ -277,6 +715,9 @@ export class KanbanView extends TextFileView {
     this.boardEl = null;
     this.lanesEl?.removeClass('is-column-dragging');
     this.lanesEl = null;
+    this.calendarEl = null;
+    this.tableEl = null;
+    this.timelineEl = null;
     this.boardTitleTextEl = null;
     this.boardTitleInputEl = null;
     this.boardDescriptionEl = null;
@@ -284,12 +725,19 @@ export class KanbanView extends TextFileView {
     this.tagInputEl = null;
     this.tagDatalistEl = null;
     this.tagOptionsCacheKey = '';
+    this.queryErrorEl = null;
+    this.filterViewsEl = null;
     this.columnLaneEls = [];
     this.activePopover = null;
     this.searchPopoverEl = null;
     this.filterPopoverEl = null;
     this.searchPopoverButtonEl = null;
     this.filterPopoverButtonEl = null;
+    this.selectionBarEl = null;
+    this.saveStatusEl = null;
+    this.saveErrorEl = null;
+    this.formatWarningEl = null;
+    this.diagnosticsEl = null;
 
     if (this.rootEl) {
       this.rootEl.empty();
@@ -298,6 +746,51 @@ export class KanbanView extends TextFileView {
     }
   }
 
+  async upgradeBoardFormat(): Promise<void> {
+    const format = this.boardFormat;
+    if (!this.store || !format) {
+      return;
+    }
+
+    if (format.sourceVersion === null) {
+      new Notice('The board\'s kanbanVersion is not a version number. Correct it in the markdown first.');
+      return;
+    }
+
+    if (format.readOnly) {
+      new Notice(
+        `This board uses format version ${format.sourceVersion}, which is newer than this version of ` +
+          'gx-kanban supports. Update the plugin instead.'
+      );
+      return;
+    }
+
+    if (format.migrations.length === 0) {
+      new Notice(`Board already uses the current format (version ${CURRENT_KANBAN_VERSION}).`);
+      return;
+    }
+
+    this.schedulePersist();
+    const { error } = await this.saveQueue.flushNow();
+    if (error !== null) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      new Notice(`Board format could not be upgraded: ${reason}`);
+      return;
+    }
+
+    new Notice(`Upgraded board format from version ${format.sourceVersion} to ${CURRENT_KANBAN_VERSION}.`);
+  }
+
+  async saveNow(): Promise<void> {
+    const { error } = await this.saveQueue.flushNow();
+    if (error !== null) {
+      new Notice(`Board could not be saved: ${error instanceof Error ? error.message : 'unknown error'}`);
+      return;
+    }
+
+    new Notice('Board saved.');
+  }
+
   async promptAddColumn(): Promise<void> {
     if (!this.store) {
       return;
@@ -362,19 +855,79 @@ export class KanbanView extends TextFileView {
       }
     }
 
-    this.store.setBoardMetadata({
-      boardTitle,
-      boardDescription: result.boardDescription,
-      density: result.density,
-    });
+    this.store.batch('Edit board settings', () => {
+      this.store?.setBoardMetadata({
+        boardTitle,
+        boardDescription: result.boardDescription,
+        density: result.density,
+      });
 
-    board.columns.forEach((column) => {
-      this.store?.setColumnWipLimit(column.id, result.wipLimitByColumnId[column.id] ?? null);
+      board.columns.forEach((column) => {
+        this.store?.setColumnWipLimit(column.id, result.wipLimitByColumnId[column.id] ?? null);
+        this.store?.setColumnRules(column.id, result.rulesByColumnId[column.id] || []);
+      });
     });
 
     this.schedulePersist();
   }
 
+  openArchive(): void {
+    if (!this.store) {
+      return;
+    }
+
+    openArchiveModal(
+      this.app,
+      this.store,
+      () => this.schedulePersist(),
+      (cardIds) => describeBacklinkWarning(this.cardBacklinks, cardIds)
+    );
+  }
+
+  applySettings(): void {
+    this.store?.setRecurringCompletion(this.plugin.settings.recurringCompletion);
+  }
+
+  canUndo(): boolean {
+    return this.store?.canUndo() ?? false;
+  }
+
+  canRedo(): boolean {
+    return this.store?.canRedo() ?? false;
+  }
+
+  undo(): void {
+    if (!this.store) {
+      return;
+    }
+
+    this.editingCard = null;
+    const label = this.store.undo();
+    if (!label) {
+      new Notice('Nothing to undo.');
+      return;
+    }
+
+    this.schedulePersist();
+    new Notice(`Undo: ${label}`);
+  }
+
+  redo(): void {
+    if (!this.store) {
+      return;
+    }
+
+    this.editingCard = null;
+    const label = this.store.redo();
+    if (!label) {
+      new Notice('Nothing to redo.');
+      return;
+    }
+
+    this.schedulePersist();
+    new Notice(`Redo: ${label}`);
+  }
+
   private renderSnapshot(snapshot: ReturnType<BoardStore['getSnapshot']>): void {
     if (!this.rootEl || !this.store) {
       return;
@@ -415,71 +968,292 @@ export class KanbanView extends TextFileView {
       }
     }
 
+    if (this.queryErrorEl) {
+      this.queryErrorEl.setText(snapshot.queryError || '');
+      this.queryErrorEl.toggleClass('is-hidden', !snapshot.queryError);
+    }
+    this.queryInputEl?.toggleClass('is-invalid', Boolean(snapshot.queryError));
+
+    this.renderFormatWarning();
+    this.renderDiagnostics();
+    this.pruneSelection(board);
     this.refreshTagDatalist(snapshot.allTags);
-    this.renderLanes(snapshot);
+    this.renderFilterViews(snapshot);
+    this.lanesEl?.toggleClass('is-hidden', board.layout !== 'board');
+    this.calendarEl?.toggleClass('is-hidden', board.layout !== 'calendar');
+    this.tableEl?.toggleClass('is-hidden', board.layout !== 'table');
+    this.timelineEl?.toggleClass('is-hidden', board.layout !== 'timeline');
+    if (board.layout === 'board') {
+      this.renderLanes(snapshot);
+    } else {
+      this.lanesEl?.empty();
+      this.columnLaneEls = [];
+      if (board.layout === 'calendar') {
+        this.renderCalendar(snapshot);
+      } else if (board.layout === 'table') {
+        this.renderTable(snapshot);
+      } else {
+        this.renderTimeline(snapshot);
+      }
+    }
+    this.renderSelectionBar();
+
+    if (this.pendingRevealCardId) {
+      this.revealCard(this.pendingRevealCardId);
+    }
   }
 
-  private ensureShell(): void {
-    if (!this.rootEl || this.boardEl) {
+  revealCard(cardId: string): void {
+    const board = this.store?.getBoard();
+    if (!this.store || !board || !this.lanesEl) {
+      this.pendingRevealCardId = cardId;
       return;
     }
 
-    const boardEl = this.rootEl.createDiv({ cls: 'kanban-next-root' });
-    this.boardEl = boardEl;
+    this.pendingRevealCardId = null;
+    const column = board.columns.find((entry) => entry.cards.some((card) => card.id === cardId));
+    if (!column) {
+      new Notice(
+        board.archive.some((card) => card.id === cardId)
+          ? 'The linked card is archived.'
+          : 'The linked card no longer exists on this board.'
+      );
+      return;
+    }
 
-    const headerEl = boardEl.createDiv({ cls: 'kanban-next-header' });
-    const headingEl = headerEl.createDiv({ cls: 'kanban-next-heading' });
+    if (board.layout === 'calendar') {
+      this.revealCalendarCard(cardId);
+      return;
+    }
 
-    const titleRow = headingEl.createDiv({ cls: 'kanban-next-title-row' });
+    if (board.layout === 'table') {
+      this.revealTableRow(cardId);
+      return;
+    }
 
-    const titleLabel = titleRow.createEl('h2', { cls: 'kanban-next-board-title-text' });
-    titleLabel.tabIndex = 0;
+    if (board.layout === 'timeline') {
+      this.revealTimelineBar(cardId);
+      return;
+    }
 
-    const titleInput = titleRow.createEl('input', {
-      type: 'text',
-      cls: 'kanban-next-board-title-input',
-    });
-    titleInput.hidden = true;
+    if (!this.findKeyboardFocusElement({ columnId: column.id, cardId })) {
+      this.collapsedSwimlaneKeys.clear();
+      this.store.clearFilter();
+    }
 
-    titleLabel.addEventListener('click', () => {
-      this.beginBoardTitleEdit();
-    });
+    this.focusBoardItem(column.id, cardId);
+    const cardEl = this.findKeyboardFocusElement({ columnId: column.id, cardId });
+    if (!cardEl || cardEl.dataset.cardId !== cardId) {
+      return;
+    }
 
-    titleLabel.addEventListener('keydown', (event) => {
-      if (event.key === 'Enter' || event.key === ' ') {
-        event.preventDefault();
-        this.beginBoardTitleEdit();
-      }
-    });
+    this.highlightLinkTarget(cardEl);
+  }
 
-    titleInput.addEventListener('keydown', (event) => {
-      if (event.key === 'Enter') {
-        event.preventDefault();
-        void this.commitBoardTitleEdit();
-      }
+  private revealCalendarCard(cardId: string): void {
+    if (!this.store || !this.calendarEl) {
+      return;
+    }
 
-      if (event.key === 'Escape') {
-        event.preventDefault();
-        this.cancelBoardTitleEdit();
-      }
-    });
+    const snapshot = this.store.getSnapshot();
+    const card = snapshot.board.columns
+      .flatMap((column) => column.cards)
+      .find((entry) => entry.id === cardId);
+    if (card?.dueDate) {
+      this.calendarAnchor = card.dueDate;
+    }
 
-    titleInput.addEventListener('blur', () => {
-      if (!this.titleEditInProgress) {
-        return;
-      }
-      void this.commitBoardTitleEdit();
-    });
+    const visible = snapshot.visibleColumns.some((column) =>
+      column.cards.some((entry) => entry.id === cardId)
+    );
+    if (visible) {
+      this.renderCalendar(snapshot);
+    } else {
+      this.store.clearFilter();
+    }
 
-    const descriptionEl = headingEl.createEl('p', {
-      cls: 'kanban-next-description is-hidden',
-    });
+    const entryEls = Array.from(this.calendarEl.querySelectorAll<HTMLElement>('.kanban-next-calendar-card'));
+    const cardEl = entryEls.find((element) => element.dataset.cardId === cardId);
+    if (cardEl) {
+      this.highlightLinkTarget(cardEl);
+    }
+  }
 
-    const toolbarEl = headerEl.createDiv({ cls: 'kanban-next-toolbar' });
+  private revealTableRow(cardId: string): void {
+    if (!this.store || !this.tableEl) {
+      return;
+    }
 
-    const searchControlEl = toolbarEl.createDiv({ cls: 'kanban-next-toolbar-control' });
-    const searchButton = this.createIconButton(
-      searchControlEl,
+    const snapshot = this.store.getSnapshot();
+    if (snapshot.visibleColumns.some((column) => column.cards.some((card) => card.id === cardId))) {
+      this.renderTable(snapshot);
+    } else {
+      this.store.clearFilter();
+    }
+
+    const rowEl = Array.from(this.tableEl.querySelectorAll<HTMLElement>('.kanban-next-table-row')).find(
+      (element) => element.dataset.cardId === cardId
+    );
+    if (rowEl) {
+      this.highlightLinkTarget(rowEl);
+    }
+  }
+
+  private revealTimelineBar(cardId: string): void {
+    if (!this.store || !this.timelineEl) {
+      return;
+    }
+
+    const snapshot = this.store.getSnapshot();
+    if (snapshot.visibleColumns.some((column) => column.cards.some((card) => card.id === cardId))) {
+      this.renderTimeline(snapshot);
+    } else {
+      this.store.clearFilter();
+    }
+
+    const barEl = Array.from(
+      this.timelineEl.querySelectorAll<HTMLElement>('.kanban-next-timeline-bar, .kanban-next-timeline-chip')
+    ).find((element) => element.dataset.cardId === cardId);
+    if (barEl) {
+      this.highlightLinkTarget(barEl);
+    }
+  }
+
+  private highlightLinkTarget(cardEl: HTMLElement): void {
+    cardEl.scrollIntoView({ block: 'center', inline: 'center' });
+    cardEl.addClass('is-link-target');
+    window.setTimeout(() => {
+      cardEl.removeClass('is-link-target');
+    }, 2000);
+  }
+
+  private refreshCardBacklinks(): void {
+    const boardPath = this.file?.path;
+    this.backlinkSources = new Map();
+    if (!boardPath) {
+      return;
+    }
+
+    Object.keys(this.app.metadataCache.resolvedLinks)
+      .filter((path) => this.linksToBoard(path, boardPath))
+      .forEach((path) => this.readBacklinkSource(path));
+    this.applyCardBacklinks(boardPath);
+  }
+
+  private updateCardBacklinks(path: string): void {
+    const boardPath = this.file?.path;
+    if (!boardPath) {
+      return;
+    }
+
+    const hadSource = this.backlinkSources.delete(path);
+    if (this.linksToBoard(path, boardPath)) {
+      this.readBacklinkSource(path);
+    } else if (!hadSource) {
+      return;
+    }
+
+    this.applyCardBacklinks(boardPath);
+  }
+
+  private linksToBoard(path: string, boardPath: string): boolean {
+    return path === boardPath || (this.app.metadataCache.resolvedLinks[path]?.[boardPath] || 0) > 0;
+  }
+
+  private readBacklinkSource(path: string): void {
+    const cache = this.app.metadataCache.getCache(path);
+    const references = [...(cache?.links || []), ...(cache?.embeds || [])];
+    this.backlinkSources.set(path, { path, links: references.map((reference) => reference.link) });
+  }
+
+  private applyCardBacklinks(boardPath: string): void {
+    const metadataCache = this.app.metadataCache;
+    const backlinks = collectCardBacklinks(
+      Array.from(this.backlinkSources.values()),
+      boardPath,
+      (linkpath, sourcePath) => metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path || null
+    );
+
+    if (JSON.stringify([...backlinks]) === JSON.stringify([...this.cardBacklinks])) {
+      return;
+    }
+
+    this.cardBacklinks = backlinks;
+    if (this.store) {
+      this.renderSnapshot(this.store.getSnapshot());
+    }
+  }
+
+  private ensureShell(): void {
+    if (!this.rootEl || this.boardEl) {
+      return;
+    }
+
+    const boardEl = this.rootEl.createDiv({ cls: 'kanban-next-root' });
+    this.boardEl = boardEl;
+
+    const headerEl = boardEl.createDiv({ cls: 'kanban-next-header' });
+    const headingEl = headerEl.createDiv({ cls: 'kanban-next-heading' });
+
+    const titleRow = headingEl.createDiv({ cls: 'kanban-next-title-row' });
+
+    const titleLabel = titleRow.createEl('h2', { cls: 'kanban-next-board-title-text' });
+    titleLabel.tabIndex = 0;
+
+    const titleInput = titleRow.createEl('input', {
+      type: 'text',
+      cls: 'kanban-next-board-title-input',
+    });
+    titleInput.hidden = true;
+
+    titleLabel.addEventListener('click', () => {
+      this.beginBoardTitleEdit();
+    });
+
+    titleLabel.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        this.beginBoardTitleEdit();
+      }
+    });
+
+    titleInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        void this.commitBoardTitleEdit();
+      }
+
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        this.cancelBoardTitleEdit();
+      }
+    });
+
+    titleInput.addEventListener('blur', () => {
+      if (!this.titleEditInProgress) {
+        return;
+      }
+      void this.commitBoardTitleEdit();
+    });
+
+    const descriptionEl = headingEl.createEl('p', {
+      cls: 'kanban-next-description is-hidden',
+    });
+
+    const saveErrorEl = headingEl.createDiv({ cls: 'kanban-next-save-error is-hidden' });
+    const formatWarningEl = headingEl.createDiv({ cls: 'kanban-next-format-warning is-hidden' });
+    const diagnosticsEl = headingEl.createDiv({ cls: 'kanban-next-diagnostics is-hidden' });
+
+    const toolbarEl = headerEl.createDiv({ cls: 'kanban-next-toolbar' });
+
+    const saveStatusEl = toolbarEl.createEl('button', { cls: 'kanban-next-save-status' });
+    saveStatusEl.addEventListener('click', () => {
+      void this.saveNow();
+    });
+
+    const searchControlEl = toolbarEl.createDiv({ cls: 'kanban-next-toolbar-control' });
+    const searchButton = this.createIconButton(
+      searchControlEl,
       'search',
       'Search cards',
       () => {
@@ -493,14 +1267,20 @@ export class KanbanView extends TextFileView {
     const queryInput = searchPopover.createEl('input', {
       type: 'text',
       cls: 'kanban-next-filter-input',
-      placeholder: 'Search cards…',
+      placeholder: 'Search… e.g. tag:#bug is:open',
     });
     queryInput.setAttr('aria-label', 'Search cards');
+    queryInput.setAttr(
+      'title',
+      'Words match card text. Filters: tag:#x, due:<2026-11-01, due:none, is:open, is:done, is:overdue, column:doing, assignee:@me, has:priority, "exact phrase". Combine with AND, OR, NOT, -term and ( ).'
+    );
 
     queryInput.addEventListener('input', () => {
       this.store?.setFilterQuery(queryInput.value);
     });
 
+    const queryErrorEl = searchPopover.createDiv({ cls: 'kanban-next-filter-error is-hidden' });
+
     const filterControlEl = toolbarEl.createDiv({ cls: 'kanban-next-toolbar-control' });
     const filterButton = this.createIconButton(
       filterControlEl,
@@ -531,8 +1311,17 @@ export class KanbanView extends TextFileView {
       this.store?.setFilterTag(tagInput.value);
     });
 
+    const filterViewsEl = filterPopover.createDiv({ cls: 'kanban-next-filter-views' });
+
+    const filterActionsEl = filterPopover.createDiv({ cls: 'kanban-next-popover-actions' });
+    this.createButton(
+      filterActionsEl,
+      'Save search as view',
+      async () => this.promptSaveFilterView(),
+      'kanban-next-button'
+    );
     this.createButton(
-      filterPopover,
+      filterActionsEl,
       'Clear filters',
       () => this.store?.clearFilter(),
       'kanban-next-button kanban-next-popover-clear-button'
@@ -545,6 +1334,27 @@ export class KanbanView extends TextFileView {
       async () => this.promptAddColumn(),
       'kanban-next-ghost-icon-button'
     );
+    this.createIconButton(
+      toolbarEl,
+      'rows-3',
+      'Swimlanes',
+      (event) => this.openSwimlaneMenu(event),
+      'kanban-next-ghost-icon-button'
+    );
+    this.createIconButton(
+      toolbarEl,
+      'calendar-days',
+      'Layout',
+      (event) => this.openLayoutMenu(event),
+      'kanban-next-ghost-icon-button'
+    );
+    this.createIconButton(
+      toolbarEl,
+      'archive',
+      'Archived cards',
+      () => this.openArchive(),
+      'kanban-next-ghost-icon-button'
+    );
     this.createIconButton(
       toolbarEl,
       'settings',
@@ -553,8 +1363,20 @@ export class KanbanView extends TextFileView {
       'kanban-next-ghost-icon-button'
     );
 
+    const selectionBarEl = boardEl.createDiv({ cls: 'kanban-next-selection-bar is-hidden' });
+
     const lanesEl = boardEl.createDiv({ cls: 'kanban-next-lane-scroller' });
     this.registerColumnDragListeners(lanesEl);
+    lanesEl.addEventListener('mousedown', (event) => {
+      this.beginLasso(event);
+    });
+    lanesEl.addEventListener('focusin', (event) => {
+      this.trackKeyboardFocus(event.target);
+    });
+
+    const calendarEl = boardEl.createDiv({ cls: 'kanban-next-calendar is-hidden' });
+    const tableEl = boardEl.createDiv({ cls: 'kanban-next-table-view is-hidden' });
+    const timelineEl = boardEl.createDiv({ cls: 'kanban-next-timeline is-hidden' });
 
     this.boardTitleTextEl = titleLabel;
     this.boardTitleInputEl = titleInput;
@@ -563,15 +1385,253 @@ export class KanbanView extends TextFileView {
     this.queryInputEl = queryInput;
     this.tagInputEl = tagInput;
     this.tagDatalistEl = datalist;
+    this.queryErrorEl = queryErrorEl;
+    this.filterViewsEl = filterViewsEl;
     this.searchPopoverEl = searchPopover;
     this.filterPopoverEl = filterPopover;
     this.searchPopoverButtonEl = searchButton;
     this.filterPopoverButtonEl = filterButton;
+    this.selectionBarEl = selectionBarEl;
+    this.saveStatusEl = saveStatusEl;
+    this.saveErrorEl = saveErrorEl;
+    this.formatWarningEl = formatWarningEl;
+    this.diagnosticsEl = diagnosticsEl;
     this.lanesEl = lanesEl;
+    this.calendarEl = calendarEl;
+    this.tableEl = tableEl;
+    this.timelineEl = timelineEl;
+
+    this.renderSaveStatus(this.saveQueue.getStatus());
 
     this.setActivePopover(null);
   }
 
+  private renderFormatWarning(): void {
+    const readOnly = Boolean(this.boardFormat?.readOnly);
+    this.boardEl?.toggleClass('is-read-only', readOnly);
+
+    if (!this.formatWarningEl) {
+      return;
+    }
+
+    this.formatWarningEl.toggleClass('is-hidden', !readOnly);
+    if (!readOnly) {
+      this.formatWarningEl.setText('');
+    } else if (this.boardFormat?.sourceVersion === null) {
+      this.formatWarningEl.setText(
+        'The kanbanVersion in this board\'s frontmatter is not a version number, so gx-kanban cannot tell ' +
+          'which format the file uses. It is open read-only until the value is corrected in the markdown.'
+      );
+    } else {
+      this.formatWarningEl.setText(
+        `This board uses format version ${this.boardFormat?.sourceVersion}, written by a newer ` +
+          `gx-kanban (this one supports up to ${CURRENT_KANBAN_VERSION}). It is open read-only so ` +
+          'the file is not rewritten in a format that would drop data. Update gx-kanban to edit it.'
+      );
+    }
+  }
+
+  private describeReadOnlyReason(): string {
+    return this.boardFormat?.sourceVersion === null
+      ? 'its kanbanVersion is not a version number'
+      : 'it uses a newer format version';
+  }
+
+  private setDiagnostics(diagnostics: BoardDiagnostic[], source: string): void {
+    this.diagnostics = diagnostics;
+    this.diagnosticsSource = source;
+    if (diagnostics.length === 0) {
+      this.diagnosticsExpanded = false;
+    }
+    this.renderDiagnostics();
+  }
+
+  private renderDiagnostics(): void {
+    if (!this.diagnosticsEl) {
+      return;
+    }
+
+    const diagnostics = this.diagnostics;
+    this.diagnosticsEl.empty();
+    this.diagnosticsEl.toggleClass('is-hidden', diagnostics.length === 0);
+    if (diagnostics.length === 0) {
+      return;
+    }
+
+    const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+    const summaryEl = this.diagnosticsEl.createDiv({ cls: 'kanban-next-diagnostics-summary' });
+    setIcon(
+      summaryEl.createSpan({ cls: 'kanban-next-diagnostics-icon' }),
+      errorCount > 0 ? 'alert-octagon' : 'info'
+    );
+    summaryEl.createSpan({
+      text:
+        `Found ${diagnostics.length} ${diagnostics.length === 1 ? 'problem' : 'problems'} ` +
+        'in the board markdown.',
+    });
+    this.createButton(summaryEl, this.diagnosticsExpanded ? 'Hide' : 'Show', () => {
+      this.diagnosticsExpanded = !this.diagnosticsExpanded;
+      this.renderDiagnostics();
+    });
+
+    if (!this.diagnosticsExpanded) {
+      return;
+    }
+
+    const listEl = this.diagnosticsEl.createEl('ul', { cls: 'kanban-next-diagnostics-list' });
+    for (const diagnostic of diagnostics) {
+      const itemEl = listEl.createEl('li', { cls: 'kanban-next-diagnostic' });
+      itemEl.setAttr('data-severity', diagnostic.severity);
+      itemEl.createSpan({
+        cls: 'kanban-next-diagnostic-location',
+        text: `Line ${diagnostic.line}:${diagnostic.column}`,
+      });
+      itemEl.createSpan({ cls: 'kanban-next-diagnostic-message', text: diagnostic.message });
+
+      const actionsEl = itemEl.createDiv({ cls: 'kanban-next-diagnostic-actions' });
+      const fix = diagnostic.fix;
+      if (fix) {
+        this.createButton(actionsEl, fix.label, async () => this.fixDiagnostic(diagnostic));
+      }
+      this.createButton(actionsEl, 'Go to line', async () =>
+        this.plugin.openMarkdownAtLine(this.leaf, diagnostic.line, diagnostic.column)
+      );
+    }
+  }
+
+  private async fixDiagnostic(diagnostic: BoardDiagnostic): Promise<void> {
+    if (!this.file || !diagnostic.fix) {
+      return;
+    }
+
+    if (this.boardFormat?.readOnly) {
+      new Notice(`This board is read-only because ${this.describeReadOnlyReason()}.`);
+      return;
+    }
+
+    await this.saveQueue.flushNow();
+    if (!this.diagnostics.includes(diagnostic) || this.data !== this.diagnosticsSource) {
+      new Notice('The board changed since this problem was found. Check the updated list and try again.');
+      return;
+    }
+
+    const fixed = applyDiagnosticFix(this.data, diagnostic.fix);
+    await this.app.vault.modify(this.file, fixed);
+    if (this.data !== fixed) {
+      this.setViewData(fixed, false);
+    }
+  }
+
+  private renderSaveStatus(status: SaveQueueStatus): void {
+    if (this.saveStatusEl) {
+      const display = SAVE_STATUS_DISPLAY[status.state];
+      const detail = status.error instanceof Error ? ` ${status.error.message}` : '';
+
+      this.saveStatusEl.empty();
+      this.saveStatusEl.setAttr('data-state', status.state);
+      this.saveStatusEl.setAttr('aria-label', `${display.description}${detail} Click to save now.`);
+      setIcon(this.saveStatusEl.createSpan({ cls: 'kanban-next-save-status-icon' }), display.icon);
+      this.saveStatusEl.createSpan({ cls: 'kanban-next-save-status-label', text: display.label });
+    }
+
+    this.renderSaveError(status.error);
+  }
+
+  private renderSaveError(error: unknown): void {
+    if (!this.saveErrorEl) {
+      return;
+    }
+
+    this.saveErrorEl.empty();
+    this.saveErrorEl.toggleClass('is-hidden', error === null);
+    if (error === null) {
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'unknown error';
+    setIcon(this.saveErrorEl.createSpan({ cls: 'kanban-next-save-error-icon' }), 'alert-triangle');
+    this.saveErrorEl.createSpan({
+      cls: 'kanban-next-save-error-text',
+      text: `Changes could not be saved: ${message}. Retrying automatically.`,
+    });
+    this.createButton(
+      this.saveErrorEl,
+      'Retry now',
+      async () => this.saveNow(),
+      'kanban-next-button'
+    );
+  }
+
+  private renderFilterViews(snapshot: BoardStoreSnapshot): void {
+    if (!this.filterViewsEl) {
+      return;
+    }
+
+    this.filterViewsEl.empty();
+    const views = snapshot.board.views;
+    if (views.length === 0) {
+      return;
+    }
+
+    this.filterViewsEl.createDiv({ cls: 'kanban-next-filter-views-title', text: 'Saved views' });
+    const activeQuery = snapshot.filter.query.trim();
+
+    views.forEach((view) => {
+      const rowEl = this.filterViewsEl?.createDiv({ cls: 'kanban-next-filter-view' });
+      if (!rowEl) {
+        return;
+      }
+
+      rowEl.toggleClass('is-active', view.query === activeQuery && activeQuery.length > 0);
+      const applyButton = this.createButton(
+        rowEl,
+        view.name,
+        () => {
+          this.store?.setFilterQuery(view.query);
+        },
+        'kanban-next-button kanban-next-filter-view-apply'
+      );
+      applyButton.setAttr('title', view.query || 'All cards');
+
+      this.createIconButton(
+        rowEl,
+        'x',
+        `Delete view "${view.name}"`,
+        () => {
+          this.store?.deleteFilterView(view.name);
+          this.schedulePersist();
+        },
+        'kanban-next-ghost-icon-button'
+      );
+    });
+  }
+
+  private async promptSaveFilterView(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const query = this.store.getSnapshot().filter.query.trim();
+    if (!query) {
+      new Notice('Type a search first, then save it as a view.');
+      return;
+    }
+
+    const name = await promptForText(this.app, {
+      title: 'Save view',
+      value: '',
+      placeholder: 'View name',
+      submitLabel: 'Save',
+    });
+
+    if (!name || !this.store) {
+      return;
+    }
+
+    this.store.saveFilterView(name, query);
+    this.schedulePersist();
+  }
+
   private togglePopover(popover: ActivePopover): void {
     this.setActivePopover(this.activePopover === popover ? null : popover);
   }
@@ -723,10 +1783,14 @@ export class KanbanView extends TextFileView {
     beforeLaneEl: HTMLElement | null,
     insertionIndex: number
   ): void {
+    // Swimlane column heads sit in their own row rather than directly in the lanes container.
+    const containerEl = this.columnLaneEls[0]?.parentElement || lanesEl;
     const indicator = this.ensureColumnDropIndicator();
     const placementUnchanged =
-      indicator.parentElement === lanesEl &&
-      (beforeLaneEl ? indicator.nextElementSibling === beforeLaneEl : lanesEl.lastElementChild === indicator);
+      indicator.parentElement === containerEl &&
+      (beforeLaneEl
+        ? indicator.nextElementSibling === beforeLaneEl
+        : containerEl.lastElementChild === indicator);
 
     indicator.style.setProperty(
       '--kanban-next-drop-column-width',
@@ -744,9 +1808,9 @@ export class KanbanView extends TextFileView {
 
     const insertIndicator = () => {
       if (beforeLaneEl) {
-        lanesEl.insertBefore(indicator, beforeLaneEl);
+        containerEl.insertBefore(indicator, beforeLaneEl);
       } else {
-        lanesEl.appendChild(indicator);
+        containerEl.appendChild(indicator);
       }
     };
 
@@ -994,7 +2058,15 @@ export class KanbanView extends TextFileView {
     });
   }
 
-  private renderLanes(snapshot: ReturnType<BoardStore['getSnapshot']>): void {
+  private renderLanes(snapshot: BoardStoreSnapshot): void {
+    const activeElement = document.activeElement;
+    const hadFocus = activeElement instanceof Node && Boolean(this.lanesEl?.contains(activeElement));
+
+    this.renderLaneContent(snapshot);
+    this.syncKeyboardFocus(hadFocus);
+  }
+
+  private renderLaneContent(snapshot: BoardStoreSnapshot): void {
     if (!this.lanesEl || !this.store) {
       return;
     }
@@ -1004,6 +2076,9 @@ export class KanbanView extends TextFileView {
 
     const board = snapshot.board;
     const visibleColumns = snapshot.visibleColumns;
+    const today = formatLocalDate(new Date());
+
+    this.lanesEl.toggleClass('is-swimlanes', board.swimlanes !== 'none' && visibleColumns.length > 0);
 
     if (visibleColumns.length === 0) {
       const empty = this.lanesEl.createDiv({ cls: 'kanban-next-empty-state' });
@@ -1012,9 +2087,13 @@ export class KanbanView extends TextFileView {
       return;
     }
 
+    if (board.swimlanes !== 'none') {
+      this.renderSwimlanes(snapshot, today);
+      return;
+    }
+
     visibleColumns.forEach((visibleColumn) => {
       const fullColumn = board.columns.find((column) => column.id === visibleColumn.id);
-      const fullCount = fullColumn?.cards.length || 0;
 
       const laneEl = this.lanesEl?.createDiv({ cls: 'kanban-next-lane' });
       if (!laneEl) {
@@ -1065,914 +2144,2584 @@ export class KanbanView extends TextFileView {
       });
 
       const laneHeader = laneEl.createDiv({ cls: 'kanban-next-lane-header' });
-      const laneHeadLeft = laneHeader.createDiv({ cls: 'kanban-next-lane-head-left' });
-
-      const dragHandle = this.createIconButton(
-        laneHeadLeft,
-        'grip-vertical',
-        'Drag column',
-        () => {
-          // Drag handled by native drag events.
-        },
-        'kanban-next-column-drag-handle kanban-next-ghost-icon-button'
+      this.renderColumnHeader(
+        laneHeader,
+        laneEl,
+        visibleColumn,
+        fullColumn,
+        Boolean(snapshot.filter.query || snapshot.filter.tag)
       );
 
-      dragHandle.draggable = true;
-      dragHandle.addEventListener('dragstart', (event) => {
-        this.clearCardDropIndicator();
-        this.clearColumnDropIndicator();
-        this.columnDragState = {
-          sourceColumnId: visibleColumn.id,
-        };
-        this.columnDropInsertionIndex = null;
-        const laneRect = laneEl.getBoundingClientRect();
-        this.columnDragPreviewWidth = laneRect.width;
-        this.columnDragPreviewHeight = laneRect.height;
-
-        event.dataTransfer?.setData('text/plain', visibleColumn.id);
-        if (event.dataTransfer) {
-          event.dataTransfer.effectAllowed = 'move';
-          event.dataTransfer.setDragImage(laneEl, 20, 20);
-        }
-
-        this.lanesEl?.addClass('is-column-dragging');
-        laneEl.addClass('is-dragging-column');
-      });
-
-      dragHandle.addEventListener('dragend', () => {
-        this.columnDragState = null;
-        this.columnDragPreviewWidth = 320;
-        this.columnDragPreviewHeight = 240;
-        this.clearColumnDropIndicator();
-        this.clearDropTargetStyles();
-        this.lanesEl?.removeClass('is-column-dragging');
-        laneEl.removeClass('is-dragging-column');
-      });
+      const cardsEl = this.createCardsContainer(laneEl, visibleColumn.id);
 
-      const titleWrap = laneHeadLeft.createDiv({ cls: 'kanban-next-lane-title' });
-      const titleText = titleWrap.createSpan({
-        cls: 'kanban-next-lane-title-text',
-        text: visibleColumn.title,
+      visibleColumn.cards.forEach((card) => {
+        this.renderCard(cardsEl, visibleColumn.id, card, today);
       });
-      titleText.tabIndex = 0;
 
-      const titleInput = titleWrap.createEl('input', {
-        type: 'text',
-        cls: 'kanban-next-lane-title-input',
-      });
-      titleInput.hidden = true;
+      const laneFooter = laneEl.createDiv({ cls: 'kanban-next-lane-footer' });
+      const addCardButton = this.createButton(
+        laneFooter,
+        'Add Card',
+        async () => {
+          const created = this.createBlankCard();
+          this.store?.addCard(visibleColumn.id, created, 'bottom');
+          this.schedulePersist();
+          this.beginInlineCardEdit(visibleColumn.id, created.id, '');
+        },
+        'kanban-next-button kanban-next-lane-add-card'
+      );
+
+      const addIcon = addCardButton.createSpan({ cls: 'kanban-next-inline-icon' });
+      setIcon(addIcon, 'plus');
+      addCardButton.prepend(addIcon);
 
-      const laneActions = laneHeader.createDiv({ cls: 'kanban-next-lane-actions' });
+      addCardButton.setAttr('aria-label', `Add card to ${visibleColumn.title}`);
+      addCardButton.setAttr('title', 'Add card');
+    });
+  }
 
-      const countEl = laneActions.createSpan({
-        cls: 'kanban-next-lane-count',
-        text:
-          snapshot.filter.query || snapshot.filter.tag
-            ? `${visibleColumn.cards.length}/${fullCount}`
-            : `${visibleColumn.cards.length}`,
-      });
+  // `columnEl` is the lane or swimlane column head that is dragged and measured when columns are reordered.
+  private renderColumnHeader(
+    headerEl: HTMLElement,
+    columnEl: HTMLElement,
+    visibleColumn: Column,
+    fullColumn: Column | undefined,
+    filtered: boolean
+  ): void {
+    const laneHeadLeft = headerEl.createDiv({ cls: 'kanban-next-lane-head-left' });
 
-      const wipLimit = fullColumn?.wipLimit;
-      if (typeof wipLimit === 'number') {
-        countEl.setText(`${countEl.textContent} (WIP ${wipLimit})`);
-        if (fullCount > wipLimit) {
-          laneEl.addClass('is-wip-exceeded');
-        }
+    const dragHandle = this.createIconButton(
+      laneHeadLeft,
+      'grip-vertical',
+      'Drag column',
+      () => {
+        // Drag handled by native drag events.
+      },
+      'kanban-next-column-drag-handle kanban-next-ghost-icon-button'
+    );
+
+    dragHandle.draggable = !this.boardFormat?.readOnly;
+    dragHandle.addEventListener('dragstart', (event) => {
+      this.clearCardDropIndicator();
+      this.clearColumnDropIndicator();
+      this.columnDragState = {
+        sourceColumnId: visibleColumn.id,
+      };
+      this.columnDropInsertionIndex = null;
+      const laneRect = columnEl.getBoundingClientRect();
+      this.columnDragPreviewWidth = laneRect.width;
+      this.columnDragPreviewHeight = laneRect.height;
+
+      event.dataTransfer?.setData('text/plain', visibleColumn.id);
+      if (event.dataTransfer) {
+        event.dataTransfer.effectAllowed = 'move';
+        event.dataTransfer.setDragImage(columnEl, 20, 20);
       }
 
-      let columnTitleEditInProgress = false;
+      this.lanesEl?.addClass('is-column-dragging');
+      columnEl.addClass('is-dragging-column');
+    });
 
-      const beginColumnTitleEdit = () => {
-        if (columnTitleEditInProgress) {
-          return;
-        }
+    dragHandle.addEventListener('dragend', () => {
+      this.columnDragState = null;
+      this.columnDragPreviewWidth = 320;
+      this.columnDragPreviewHeight = 240;
+      this.clearColumnDropIndicator();
+      this.clearDropTargetStyles();
+      this.lanesEl?.removeClass('is-column-dragging');
+      columnEl.removeClass('is-dragging-column');
+    });
 
-        columnTitleEditInProgress = true;
-        titleText.hidden = true;
-        titleInput.hidden = false;
-        titleInput.value = visibleColumn.title;
+    const titleWrap = laneHeadLeft.createDiv({ cls: 'kanban-next-lane-title' });
+    const titleText = titleWrap.createSpan({
+      cls: 'kanban-next-lane-title-text',
+      text: visibleColumn.title,
+    });
+    titleText.tabIndex = 0;
 
-        window.setTimeout(() => {
-          titleInput.focus();
-          titleInput.select();
-        }, 0);
-      };
+    const titleInput = titleWrap.createEl('input', {
+      type: 'text',
+      cls: 'kanban-next-lane-title-input',
+    });
+    titleInput.hidden = true;
 
-      const cancelColumnTitleEdit = () => {
-        if (!columnTitleEditInProgress) {
-          return;
-        }
+    const laneActions = headerEl.createDiv({ cls: 'kanban-next-lane-actions' });
+    this.renderSortIndicator(laneActions, fullColumn?.sortMode);
+    this.renderRulesIndicator(laneActions, fullColumn?.rules);
 
-        columnTitleEditInProgress = false;
-        titleInput.hidden = true;
-        titleText.hidden = false;
-        titleInput.value = visibleColumn.title;
-      };
+    const fullCount = fullColumn?.cards.length || 0;
+    const countEl = laneActions.createSpan({
+      cls: 'kanban-next-lane-count',
+      text: filtered ? `${visibleColumn.cards.length}/${fullCount}` : `${visibleColumn.cards.length}`,
+    });
 
-      const commitColumnTitleEdit = () => {
-        if (!columnTitleEditInProgress) {
-          return;
-        }
+    const wipLimit = fullColumn?.wipLimit;
+    if (typeof wipLimit === 'number') {
+      countEl.setText(`${countEl.textContent} (WIP ${wipLimit})`);
+      columnEl.toggleClass('is-wip-exceeded', fullCount > wipLimit);
+    }
 
-        const nextTitle = titleInput.value.trim();
-        if (!nextTitle || nextTitle === visibleColumn.title) {
-          cancelColumnTitleEdit();
-          return;
-        }
+    let columnTitleEditInProgress = false;
 
-        this.store?.renameColumn(visibleColumn.id, nextTitle);
-        this.schedulePersist();
-        columnTitleEditInProgress = false;
-      };
+    const beginColumnTitleEdit = () => {
+      if (columnTitleEditInProgress || this.boardFormat?.readOnly) {
+        return;
+      }
 
-      titleText.addEventListener('click', () => {
-        beginColumnTitleEdit();
-      });
+      columnTitleEditInProgress = true;
+      titleText.hidden = true;
+      titleInput.hidden = false;
+      titleInput.value = visibleColumn.title;
 
-      titleText.addEventListener('keydown', (event) => {
-        if (event.key === 'Enter' || event.key === ' ') {
-          event.preventDefault();
-          beginColumnTitleEdit();
-        }
-      });
+      window.setTimeout(() => {
+        titleInput.focus();
+        titleInput.select();
+      }, 0);
+    };
 
-      titleInput.addEventListener('keydown', (event) => {
-        if (event.key === 'Enter') {
-          event.preventDefault();
-          commitColumnTitleEdit();
-          return;
-        }
+    const cancelColumnTitleEdit = () => {
+      if (!columnTitleEditInProgress) {
+        return;
+      }
 
-        if (event.key === 'Escape') {
-          event.preventDefault();
-          cancelColumnTitleEdit();
-        }
-      });
+      columnTitleEditInProgress = false;
+      titleInput.hidden = true;
+      titleText.hidden = false;
+      titleInput.value = visibleColumn.title;
+    };
 
-      titleInput.addEventListener('blur', () => {
-        commitColumnTitleEdit();
-      });
+    const commitColumnTitleEdit = () => {
+      if (!columnTitleEditInProgress) {
+        return;
+      }
 
-      this.createIconButton(
-        laneActions,
-        'ellipsis',
-        'Column actions',
-        (event) => {
-          this.openColumnMenu(event, visibleColumn.id, visibleColumn.title, beginColumnTitleEdit);
-        },
-        'kanban-next-ghost-icon-button'
-      );
+      const nextTitle = titleInput.value.trim();
+      if (!nextTitle || nextTitle === visibleColumn.title) {
+        cancelColumnTitleEdit();
+        return;
+      }
 
-      const cardsEl = laneEl.createDiv({ cls: 'kanban-next-cards' });
-      cardsEl.dataset.columnId = visibleColumn.id;
+      this.store?.renameColumn(visibleColumn.id, nextTitle);
+      this.schedulePersist();
+      columnTitleEditInProgress = false;
+    };
 
-      cardsEl.addEventListener('dragover', (event) => {
-        if (!this.cardDragState) {
-          return;
-        }
+    titleText.addEventListener('click', () => {
+      beginColumnTitleEdit();
+    });
 
+    titleText.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' || event.key === ' ') {
         event.preventDefault();
-        this.updateCardDropIndicatorFromPointer(cardsEl, visibleColumn.id, event.clientY);
-      });
-
-      cardsEl.addEventListener('dragleave', (event) => {
-        const target = event.relatedTarget as Node | null;
-        if (target && cardsEl.contains(target)) {
-          return;
-        }
-        this.clearCardDropIndicator();
-      });
+        beginColumnTitleEdit();
+      }
+    });
 
-      cardsEl.addEventListener('drop', (event) => {
-        if (!this.cardDragState) {
-          return;
-        }
+    titleInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        commitColumnTitleEdit();
+        return;
+      }
 
+      if (event.key === 'Escape') {
         event.preventDefault();
+        cancelColumnTitleEdit();
+      }
+    });
 
-        if (this.cardDropTargetColumnId === visibleColumn.id) {
-          this.handleCardDrop(visibleColumn.id, this.cardDropTargetCardId);
-          return;
-        }
+    titleInput.addEventListener('blur', () => {
+      commitColumnTitleEdit();
+    });
 
-        const targetCard = (event.target as HTMLElement).closest('.kanban-next-card');
-        if (targetCard instanceof HTMLElement && targetCard.dataset.cardId) {
-          this.handleCardDrop(visibleColumn.id, targetCard.dataset.cardId);
-          return;
-        }
+    this.createIconButton(
+      laneActions,
+      'ellipsis',
+      'Column actions',
+      (event) => {
+        this.openColumnMenu(event, visibleColumn.id, visibleColumn.title, beginColumnTitleEdit);
+      },
+      'kanban-next-ghost-icon-button'
+    );
+  }
 
-        this.handleCardDrop(visibleColumn.id, null);
-      });
+  private renderSwimlanes(snapshot: BoardStoreSnapshot, today: string): void {
+    if (!this.lanesEl) {
+      return;
+    }
 
-      visibleColumn.cards.forEach((card) => {
-        const cardEl = cardsEl.createDiv({ cls: 'kanban-next-card' });
-        cardEl.dataset.cardId = card.id;
-        const isEditingCard =
-          this.editingCard?.columnId === visibleColumn.id && this.editingCard.cardId === card.id;
-
-        cardEl.draggable = !isEditingCard;
-
-        if (!isEditingCard) {
-          cardEl.addEventListener('dragstart', (event) => {
-            this.clearCardDropIndicator();
-            this.cardDragState = {
-              cardId: card.id,
-              sourceColumnId: visibleColumn.id,
-            };
-            this.cardDragPreviewHeight = cardEl.getBoundingClientRect().height;
-
-            event.dataTransfer?.setData('text/plain', card.id);
-            if (event.dataTransfer) {
-              event.dataTransfer.effectAllowed = 'move';
-            }
+    const board = snapshot.board;
+    const group = board.swimlanes;
+    const swimlanes = groupIntoSwimlanes(snapshot.visibleColumns, group);
+    if (swimlanes.length === 0) {
+      swimlanes.push({ key: '', label: 'All cards', count: 0, cardsByColumnId: {} });
+    }
 
-            cardEl.addClass('is-dragging');
-          });
+    const gridEl = this.lanesEl.createDiv({ cls: 'kanban-next-swimlane-grid' });
+    const headRow = gridEl.createDiv({ cls: 'kanban-next-swimlane-column-heads' });
 
-          cardEl.addEventListener('dragend', () => {
-            this.cardDragState = null;
-            this.cardDragPreviewHeight = 64;
-            this.clearCardDropIndicator();
-            cardEl.removeClass('is-dragging');
-            this.clearDropTargetStyles();
-          });
+    snapshot.visibleColumns.forEach((visibleColumn) => {
+      const fullColumn = board.columns.find((column) => column.id === visibleColumn.id);
+      const headEl = headRow.createDiv({ cls: 'kanban-next-swimlane-column-head' });
+      headEl.dataset.columnId = visibleColumn.id;
+      this.columnLaneEls.push(headEl);
+
+      this.renderColumnHeader(
+        headEl,
+        headEl,
+        visibleColumn,
+        fullColumn,
+        Boolean(snapshot.filter.query || snapshot.filter.tag)
+      );
+    });
 
-        }
+    swimlanes.forEach((swimlane) => {
+      const collapsed = this.collapsedSwimlaneKeys.has(swimlane.key);
+      const swimlaneEl = gridEl.createDiv({ cls: 'kanban-next-swimlane' });
+      swimlaneEl.toggleClass('is-collapsed', collapsed);
 
-        if (isEditingCard) {
-          cardEl.addClass('is-editing');
+      const headerEl = swimlaneEl.createDiv({ cls: 'kanban-next-swimlane-header' });
+      this.createIconButton(
+        headerEl,
+        collapsed ? 'chevron-right' : 'chevron-down',
+        collapsed ? `Expand ${swimlane.label}` : `Collapse ${swimlane.label}`,
+        () => {
+          if (this.collapsedSwimlaneKeys.has(swimlane.key)) {
+            this.collapsedSwimlaneKeys.delete(swimlane.key);
+          } else {
+            this.collapsedSwimlaneKeys.add(swimlane.key);
+          }
 
-          const currentDraft = this.editingCard?.draft || '';
-          const editor = cardEl.createEl('textarea', {
-            cls: 'kanban-next-card-editor',
-          });
-          editor.dataset.cardEditorId = card.id;
-          editor.value = this.clampCardText(currentDraft);
-          editor.maxLength = CARD_TEXT_MAX_LENGTH;
-          editor.rows = Math.max(1, editor.value.split('\n').length);
-          editor.setAttr('aria-label', 'Edit card text');
-          editor.setAttr('placeholder', 'Write card text…');
-          this.syncCardEditorHeight(editor);
+          if (this.store) {
+            this.renderLanes(this.store.getSnapshot());
+          }
+        },
+        'kanban-next-ghost-icon-button'
+      );
+      headerEl.createSpan({ cls: 'kanban-next-swimlane-title', text: swimlane.label });
+      headerEl.createSpan({ cls: 'kanban-next-lane-count', text: `${swimlane.count}` });
 
-          cardEl.createSpan({
-            cls: 'kanban-next-card-shortcut-hint',
-            text: Platform.isMacOS ? 'Cmd+Enter to finish' : 'Ctrl+Enter to finish',
-          });
+      if (collapsed) {
+        return;
+      }
 
-          let counterEl: HTMLSpanElement | null = null;
+      const rowEl = swimlaneEl.createDiv({ cls: 'kanban-next-swimlane-row' });
+      snapshot.visibleColumns.forEach((visibleColumn) => {
+        const cellEl = rowEl.createDiv({ cls: 'kanban-next-swimlane-cell' });
+        const cardsEl = this.createCardsContainer(cellEl, visibleColumn.id, swimlane.key);
 
-          const ensureCounter = () => {
-            if (!counterEl) {
-              counterEl = cardEl.createSpan({
-                cls: 'kanban-next-card-counter',
-              });
-            }
-            counterEl.setText(`${this.countCharacters(editor.value)}/${CARD_TEXT_MAX_LENGTH}`);
-          };
+        (swimlane.cardsByColumnId[visibleColumn.id] || []).forEach((card) => {
+          this.renderCard(cardsEl, visibleColumn.id, card, today);
+        });
 
-          if (this.editingCard && this.editingCard.showCounter) {
-            ensureCounter();
-          }
+        this.createIconButton(
+          cellEl,
+          'plus',
+          `Add card to ${visibleColumn.title} in ${swimlane.label}`,
+          () => {
+            const created = applySwimlaneKey(this.createBlankCard(), group, swimlane.key);
+            this.store?.addCard(visibleColumn.id, created, 'bottom');
+            this.schedulePersist();
+            this.beginInlineCardEdit(
+              visibleColumn.id,
+              created.id,
+              group === 'tag' && swimlane.key ? `${swimlane.key} ` : ''
+            );
+          },
+          'kanban-next-ghost-icon-button kanban-next-swimlane-add-card'
+        );
+      });
+    });
+  }
 
-          editor.addEventListener('mousedown', (event) => {
-            event.stopPropagation();
-          });
+  private renderSortIndicator(parent: HTMLElement, sortMode: ColumnSortMode | undefined): void {
+    if (!sortMode || sortMode === 'manual') {
+      return;
+    }
 
-          editor.addEventListener('click', (event) => {
-            event.stopPropagation();
-          });
+    const indicator = parent.createSpan({ cls: 'kanban-next-lane-sort' });
+    setIcon(indicator, 'arrow-down-wide-narrow');
+    indicator.setAttr('aria-label', `Sorted by ${COLUMN_SORT_LABELS[sortMode].toLowerCase()}`);
+  }
 
-          editor.addEventListener('input', () => {
-            if (
-              this.editingCard &&
-              this.editingCard.columnId === visibleColumn.id &&
-              this.editingCard.cardId === card.id
-            ) {
-              const clamped = this.clampCardText(editor.value);
-              if (clamped !== editor.value) {
-                editor.value = clamped;
-              }
-
-              this.editingCard.draft = clamped;
-              this.editingCard.showCounter = true;
-              this.syncCardEditorHeight(editor);
-              ensureCounter();
-            }
-          });
+  private renderRulesIndicator(parent: HTMLElement, rules: ColumnRule[] | undefined): void {
+    if (!rules || rules.length === 0) {
+      return;
+    }
 
-          editor.addEventListener('focus', () => {
-            if (
-              this.editingCard &&
-              this.editingCard.columnId === visibleColumn.id &&
-              this.editingCard.cardId === card.id
-            ) {
-              this.editingCard.showCounter = true;
-              ensureCounter();
-            }
+    const indicator = parent.createSpan({ cls: 'kanban-next-lane-rules' });
+    setIcon(indicator, 'zap');
+    indicator.setAttr('aria-label', `On entry: ${rules.map((rule) => describeColumnRule(rule)).join(', ')}`);
+  }
+
+  private openSwimlaneMenu(event: MouseEvent): void {
+    const current = this.store?.getBoard().swimlanes || 'none';
+    const menu = new Menu();
+
+    SWIMLANE_OPTIONS.forEach((option) => {
+      menu.addItem((item) => {
+        item
+          .setTitle(option.label)
+          .setChecked(option.group === current)
+          .onClick(() => {
+            this.setSwimlaneGroup(option.group);
           });
+      });
+    });
+
+    menu.showAtMouseEvent(event);
+  }
 
-          editor.addEventListener('keydown', (event) => {
-            event.stopPropagation();
+  private setSwimlaneGroup(group: SwimlaneGroup): void {
+    if (!this.store || this.store.getBoard().swimlanes === group) {
+      return;
+    }
+
+    this.collapsedSwimlaneKeys.clear();
+    this.store.setSwimlaneGroup(group);
+    this.schedulePersist();
+  }
+
+  private openLayoutMenu(event: MouseEvent): void {
+    const current = this.store?.getBoard().layout || 'board';
+    const menu = new Menu();
 
-            if (event.key === 'Escape') {
-              event.preventDefault();
-              this.cancelInlineCardEdit();
+    LAYOUT_OPTIONS.forEach((option) => {
+      menu.addItem((item) => {
+        item
+          .setTitle(option.label)
+          .setIcon(option.icon)
+          .setChecked(option.layout === current)
+          .onClick(() => {
+            if (!this.store || this.store.getBoard().layout === option.layout) {
               return;
             }
 
-            if (this.isInlineCardSubmitShortcut(event)) {
-              event.preventDefault();
-              this.commitInlineCardEdit();
-            }
+            this.store.setLayout(option.layout);
+            this.schedulePersist();
           });
+      });
+    });
 
-          editor.addEventListener('blur', () => {
-            this.commitInlineCardEdit();
-          });
-        } else {
-          const cardHeader = cardEl.createDiv({ cls: 'kanban-next-card-header' });
-          const cardBodyEl = cardHeader.createDiv({
-            cls: 'kanban-next-card-body',
-          });
-          this.renderCardBody(cardBodyEl, toEditableCardText({ title: card.title, description: card.description }));
-
-          const cardActions = cardHeader.createDiv({ cls: 'kanban-next-card-actions' });
-          const cardMenuButton = this.createIconButton(
-            cardActions,
-            'ellipsis',
-            'Card actions',
-            (event) => {
-              this.openCardMenu(event, visibleColumn.id, card.id);
-            },
-            'kanban-next-ghost-icon-button'
-          );
+    menu.showAtMouseEvent(event);
+  }
 
-          cardMenuButton.addEventListener('mousedown', (event) => {
-            event.stopPropagation();
-          });
+  private renderCalendar(snapshot: BoardStoreSnapshot): void {
+    const calendarEl = this.calendarEl;
+    if (!calendarEl) {
+      return;
+    }
 
-          cardMenuButton.addEventListener('dragstart', (event) => {
-            event.preventDefault();
-            event.stopPropagation();
-          });
+    calendarEl.empty();
+    const today = formatLocalDate(new Date());
+    const grid = buildCalendarGrid(snapshot.visibleColumns, this.calendarAnchor, this.calendarScale);
+    const firstDay = grid.weeks[0]?.[0]?.date || this.calendarAnchor;
 
-          cardEl.addEventListener('click', () => {
-            this.beginInlineCardEdit(visibleColumn.id, card.id);
-          });
-        }
+    const navEl = calendarEl.createDiv({ cls: 'kanban-next-calendar-nav' });
+    this.createIconButton(
+      navEl,
+      'chevron-left',
+      this.calendarScale === 'month' ? 'Previous month' : 'Previous week',
+      () => this.moveCalendar(shiftCalendarAnchor(this.calendarAnchor, this.calendarScale, -1)),
+      'kanban-next-ghost-icon-button'
+    );
+    this.createButton(navEl, 'Today', () => this.moveCalendar(today));
+    this.createIconButton(
+      navEl,
+      'chevron-right',
+      this.calendarScale === 'month' ? 'Next month' : 'Next week',
+      () => this.moveCalendar(shiftCalendarAnchor(this.calendarAnchor, this.calendarScale, 1)),
+      'kanban-next-ghost-icon-button'
+    );
+    navEl.createEl('h3', {
+      cls: 'kanban-next-calendar-title',
+      text: this.formatCalendarTitle(firstDay, grid.weeks[grid.weeks.length - 1]?.[6]?.date || firstDay),
+    });
+
+    const scaleEl = navEl.createDiv({ cls: 'kanban-next-calendar-scale' });
+    (['month', 'week'] as CalendarScale[]).forEach((scale) => {
+      const button = this.createButton(scaleEl, scale === 'month' ? 'Month' : 'Week', () => {
+        this.calendarScale = scale;
+        this.moveCalendar(this.calendarAnchor);
       });
+      button.toggleClass('is-active', scale === this.calendarScale);
+    });
 
-      const laneFooter = laneEl.createDiv({ cls: 'kanban-next-lane-footer' });
-      const addCardButton = this.createButton(
-        laneFooter,
-        'Add Card',
-        async () => {
-          const created = this.createBlankCard();
-          this.store?.addCard(visibleColumn.id, created, 'bottom');
-          this.schedulePersist();
-          this.beginInlineCardEdit(visibleColumn.id, created.id, '');
-        },
-        'kanban-next-button kanban-next-lane-add-card'
-      );
+    const bodyEl = calendarEl.createDiv({ cls: 'kanban-next-calendar-body' });
+    const gridEl = bodyEl.createDiv({ cls: `kanban-next-calendar-grid is-${this.calendarScale}` });
+    (grid.weeks[0] || []).forEach((day) => {
+      gridEl.createDiv({
+        cls: 'kanban-next-calendar-weekday',
+        text: new Date(`${day.date}T00:00:00Z`).toLocaleDateString(undefined, {
+          weekday: 'short',
+          timeZone: 'UTC',
+        }),
+      });
+    });
 
-      const addIcon = addCardButton.createSpan({ cls: 'kanban-next-inline-icon' });
-      setIcon(addIcon, 'plus');
-      addCardButton.prepend(addIcon);
+    grid.weeks.forEach((week) => {
+      week.forEach((day) => {
+        const dayEl = gridEl.createDiv({ cls: 'kanban-next-calendar-day' });
+        dayEl.toggleClass('is-today', day.date === today);
+        dayEl.toggleClass('is-outside-range', !day.inRange);
+        dayEl.createDiv({ cls: 'kanban-next-calendar-date', text: String(Number(day.date.slice(8))) });
+        day.entries.forEach((entry) => this.renderCalendarEntry(dayEl, entry, today));
+        this.registerCalendarDropTarget(dayEl, day.date);
+      });
+    });
 
-      addCardButton.setAttr('aria-label', `Add card to ${visibleColumn.title}`);
-      addCardButton.setAttr('title', 'Add card');
+    const trayEl = bodyEl.createDiv({ cls: 'kanban-next-calendar-tray' });
+    trayEl.createDiv({
+      cls: 'kanban-next-calendar-tray-title',
+      text: `Unscheduled (${grid.unscheduled.length})`,
     });
+    grid.unscheduled.forEach((entry) => this.renderCalendarEntry(trayEl, entry, today));
+    this.registerCalendarDropTarget(trayEl, null);
   }
 
-  private beginInlineCardEdit(columnId: string, cardId: string, initialDraft?: string): void {
-    if (!this.store) {
+  private renderTable(snapshot: BoardStoreSnapshot): void {
+    const tableEl = this.tableEl;
+    if (!tableEl) {
       return;
     }
 
-    const card = this.store.getCard(columnId, cardId);
-    if (!card) {
+    const activeElement = document.activeElement;
+    const focusedCell =
+      activeElement instanceof HTMLElement && tableEl.contains(activeElement)
+        ? `${activeElement.dataset.cardId || ''}|${activeElement.dataset.cell || ''}`
+        : null;
+
+    tableEl.empty();
+    const board = snapshot.board;
+    const fieldKeys = collectTableFieldKeys(board.columns);
+    const rows = buildTableRows(snapshot.visibleColumns, this.tableSort);
+    const headers: Array<{ key: TableSortKey; label: string }> = [
+      { key: 'checked', label: 'Done' },
+      { key: 'title', label: 'Title' },
+      { key: 'column', label: 'Column' },
+      { key: 'tags', label: 'Tags' },
+      { key: 'due', label: 'Due' },
+      ...fieldKeys.map((key) => ({ key: `field:${key}` as TableSortKey, label: key })),
+    ];
+
+    if (board.columns.length === 0) {
+      const empty = tableEl.createDiv({ cls: 'kanban-next-empty-state' });
+      empty.createEl('p', { text: 'No columns yet.' });
+      this.createButton(empty, 'Add column', async () => this.promptAddColumn());
       return;
     }
 
-    const original = toEditableCardText({
-      title: card.title,
-      description: card.description,
+    const table = tableEl.createEl('table', { cls: 'kanban-next-table' });
+    const headRow = table.createEl('thead').createEl('tr');
+    headers.forEach((header) => {
+      const sorted = this.tableSort?.key === header.key ? this.tableSort.direction : null;
+      const cell = headRow.createEl('th');
+      const button = cell.createEl('button', { cls: 'kanban-next-table-sort', text: header.label });
+      button.toggleClass('is-sorted', sorted !== null);
+      if (sorted) {
+        const iconEl = button.createSpan({ cls: 'kanban-next-table-sort-icon' });
+        setIcon(iconEl, sorted === 'asc' ? 'arrow-up' : 'arrow-down');
+      }
+      button.addEventListener('click', () => {
+        this.tableSort =
+          sorted === null
+            ? { key: header.key, direction: 'asc' }
+            : sorted === 'asc'
+              ? { key: header.key, direction: 'desc' }
+              : null;
+        this.renderTable(this.store?.getSnapshot() || snapshot);
+      });
     });
 
-    this.editingCard = {
-      columnId,
-      cardId,
-      draft: this.clampCardText(initialDraft ?? original),
-      original,
-      showCounter: false,
+    const body = table.createEl('tbody');
+    rows.forEach((row) => this.renderTableRow(body, row, board.columns, fieldKeys));
+
+    tableEl.createDiv({
+      cls: 'kanban-next-table-count',
+      text: `${rows.length} ${rows.length === 1 ? 'card' : 'cards'}`,
+    });
+
+    if (focusedCell) {
+      const target = Array.from(tableEl.querySelectorAll<HTMLElement>('[data-cell]')).find(
+        (element) => `${element.dataset.cardId || ''}|${element.dataset.cell || ''}` === focusedCell
+      );
+      target?.focus();
+    }
+  }
+
+  private renderTableRow(body: HTMLElement, row: TableRow, columns: Column[], fieldKeys: string[]): void {
+    const { card, columnId } = row;
+    const rowEl = body.createEl('tr', { cls: 'kanban-next-table-row' });
+    rowEl.dataset.cardId = card.id;
+    rowEl.toggleClass('is-complete', card.checked);
+
+    const createCellInput = (cell: string, type: string, value: string): HTMLInputElement => {
+      const input = rowEl.createEl('td').createEl('input', { cls: 'kanban-next-table-input', type });
+      input.dataset.cardId = card.id;
+      input.dataset.cell = cell;
+      input.value = value;
+      input.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter') {
+          input.blur();
+        } else if (event.key === 'Escape') {
+          input.value = value;
+          input.blur();
+        }
+      });
+      return input;
     };
 
-    this.renderLanes(this.store.getSnapshot());
+    const checkbox = createCellInput('checked', 'checkbox', '');
+    checkbox.checked = card.checked;
+    checkbox.addEventListener('change', () => this.toggleCardChecked(columnId, card.id));
 
-    window.setTimeout(() => {
-      const editor = this.rootEl?.querySelector(
-        `[data-card-editor-id="${cardId}"]`
-      ) as HTMLTextAreaElement | null;
-      if (!editor) {
+    const titleInput = createCellInput('title', 'text', card.title);
+    titleInput.addEventListener('change', () => {
+      const title = titleInput.value.trim();
+      if (!title) {
+        titleInput.value = card.title;
+        return;
+      }
+
+      this.updateTableCard(row, (current) => ({ ...current, title }));
+    });
+
+    const columnCell = rowEl.createEl('td');
+    const columnSelect = columnCell.createEl('select', { cls: 'dropdown kanban-next-table-input' });
+    columnSelect.dataset.cardId = card.id;
+    columnSelect.dataset.cell = 'column';
+    columns.forEach((column) => {
+      columnSelect.createEl('option', { text: column.title, value: column.id });
+    });
+    columnSelect.value = columnId;
+    columnSelect.addEventListener('change', () => {
+      const target = columns.find((column) => column.id === columnSelect.value);
+      if (!this.store || !target || target.id === columnId) {
+        return;
+      }
+
+      const targetColumn = this.store.getBoard().columns.find((column) => column.id === target.id);
+      this.store.moveCard(columnId, card.id, target.id, targetColumn?.cards.length || 0);
+      this.schedulePersist();
+    });
+
+    const tagsInput = createCellInput('tags', 'text', card.tags.join(' '));
+    tagsInput.addEventListener('change', () => {
+      this.updateTableCard(row, (current) => ({
+        ...current,
+        ...replaceCardTags(current, parseTagList(tagsInput.value)),
+      }));
+    });
+
+    const dueInput = createCellInput('due', 'date', card.dueDate || '');
+    dueInput.addEventListener('change', () => {
+      this.updateTableCard(row, (current) => ({ ...current, dueDate: normalizeDueDate(dueInput.value) }));
+    });
+
+    fieldKeys.forEach((key) => {
+      const fieldInput = createCellInput(`field:${key}`, 'text', getField(card.fields, key) || '');
+      fieldInput.addEventListener('change', () => {
+        this.updateTableCard(row, (current) => ({
+          ...current,
+          fields: setField(current.fields, key, fieldInput.value),
+        }));
+      });
+    });
+  }
+
+  private updateTableCard(row: TableRow, updater: (card: Card) => Card): void {
+    if (!this.store) {
+      return;
+    }
+
+    const current = this.store.getCard(row.columnId, row.card.id);
+    if (!current) {
+      return;
+    }
+
+    const next = updater(current);
+    if (
+      next.title === current.title &&
+      next.description === current.description &&
+      next.dueDate === current.dueDate &&
+      JSON.stringify(next.fields) === JSON.stringify(current.fields)
+    ) {
+      return;
+    }
+
+    this.store.updateCard(row.columnId, row.card.id, () => next);
+    this.schedulePersist();
+  }
+
+  private renderTimeline(snapshot: BoardStoreSnapshot): void {
+    const timelineEl = this.timelineEl;
+    if (!timelineEl) {
+      return;
+    }
+
+    timelineEl.empty();
+    const today = formatLocalDate(new Date());
+    const timeline = buildTimeline(snapshot.visibleColumns, this.timelineGroupBy, today);
+    const dayWidth = TIMELINE_DAY_WIDTHS[this.timelineZoom];
+    const todayOffset = (toDayNumber(today) ?? timeline.start) - timeline.start;
+    const formatDay = (day: number, options: Intl.DateTimeFormatOptions) =>
+      new Date(`${fromDayNumber(day)}T00:00:00Z`).toLocaleDateString(undefined, {
+        ...options,
+        timeZone: 'UTC',
+      });
+
+    const controlsEl = timelineEl.createDiv({ cls: 'kanban-next-timeline-controls' });
+    const zoomEl = controlsEl.createDiv({ cls: 'kanban-next-timeline-zoom' });
+    (['day', 'week', 'month'] as TimelineZoom[]).forEach((zoom) => {
+      const label = zoom === 'day' ? 'Day' : zoom === 'week' ? 'Week' : 'Month';
+      const button = this.createButton(zoomEl, label, () => {
+        this.timelineZoom = zoom;
+        this.renderTimeline(this.store?.getSnapshot() || snapshot);
+      });
+      button.toggleClass('is-active', zoom === this.timelineZoom);
+    });
+
+    const groupSelect = controlsEl.createEl('select', { cls: 'dropdown' });
+    groupSelect.createEl('option', { text: 'Group by column', value: 'column' });
+    groupSelect.createEl('option', { text: 'Group by first tag', value: 'tag' });
+    groupSelect.value = this.timelineGroupBy;
+    groupSelect.addEventListener('change', () => {
+      this.timelineGroupBy = groupSelect.value === 'tag' ? 'tag' : 'column';
+      this.renderTimeline(this.store?.getSnapshot() || snapshot);
+    });
+
+    const chartEl = timelineEl.createDiv({ cls: 'kanban-next-timeline-chart' });
+    const trackWidth = `${(timeline.end - timeline.start + 1) * dayWidth}px`;
+    const headerEl = chartEl.createDiv({ cls: 'kanban-next-timeline-row is-header' });
+    headerEl.createDiv({ cls: 'kanban-next-timeline-label' });
+    const scaleEl = headerEl.createDiv({ cls: 'kanban-next-timeline-track' });
+    scaleEl.setCssStyles({ width: trackWidth });
+    listTimelineTicks(timeline.start, timeline.end, this.timelineZoom).forEach((day) => {
+      const tickEl = scaleEl.createDiv({
+        cls: 'kanban-next-timeline-tick',
+        text:
+          this.timelineZoom === 'day'
+            ? formatDay(day, { day: 'numeric' })
+            : this.timelineZoom === 'week'
+              ? formatDay(day, { month: 'short', day: 'numeric' })
+              : formatDay(day, { month: 'short', year: 'numeric' }),
+      });
+      tickEl.toggleClass('is-today', day - timeline.start === todayOffset);
+      tickEl.setCssStyles({ left: `${(day - timeline.start) * dayWidth}px` });
+    });
+
+    timeline.groups
+      .filter((group) => group.bars.length > 0)
+      .forEach((group) => {
+        chartEl.createDiv({
+          cls: 'kanban-next-timeline-group',
+          text: `${group.label} (${group.bars.length})`,
+        });
+
+        group.bars.forEach((bar) => {
+          const rowEl = chartEl.createDiv({ cls: 'kanban-next-timeline-row' });
+          const labelEl = rowEl.createDiv({ cls: 'kanban-next-timeline-label', text: bar.card.title });
+          labelEl.addEventListener('click', () => {
+            void this.openCardDetails(bar.columnId, bar.card.id);
+          });
+
+          const trackEl = rowEl.createDiv({ cls: 'kanban-next-timeline-track' });
+          trackEl.setCssStyles({ width: trackWidth });
+          trackEl
+            .createDiv({ cls: 'kanban-next-timeline-today' })
+            .setCssStyles({ left: `${todayOffset * dayWidth}px`, width: `${dayWidth}px` });
+
+          const barEl = trackEl.createDiv({ cls: 'kanban-next-timeline-bar' });
+          barEl.dataset.cardId = bar.card.id;
+          barEl.toggleClass('is-complete', bar.card.checked);
+          barEl.setAttr(
+            'title',
+            `${bar.card.title}\n${fromDayNumber(bar.start)} → ${fromDayNumber(bar.end)}`
+          );
+          this.positionTimelineBar(barEl, bar.start - timeline.start, bar.end - bar.start + 1, dayWidth);
+
+          const startHandle = barEl.createDiv({ cls: 'kanban-next-timeline-handle is-start' });
+          barEl.createSpan({ cls: 'kanban-next-timeline-bar-title', text: bar.card.title });
+          const endHandle = barEl.createDiv({ cls: 'kanban-next-timeline-handle is-end' });
+
+          const begin = (event: MouseEvent, edge: TimelineEdge) =>
+            this.beginTimelineDrag(event, bar, edge, barEl, timeline.start, dayWidth);
+          startHandle.addEventListener('mousedown', (event) => begin(event, 'start'));
+          endHandle.addEventListener('mousedown', (event) => begin(event, 'end'));
+          barEl.addEventListener('mousedown', (event) => begin(event, 'both'));
+        });
+      });
+
+    if (timeline.groups.every((group) => group.bars.length === 0)) {
+      chartEl.createDiv({
+        cls: 'kanban-next-timeline-empty',
+        text: 'No cards have a start:: or due:: date yet.',
+      });
+    }
+
+    if (timeline.unscheduled.length > 0) {
+      const unscheduledEl = timelineEl.createDiv({ cls: 'kanban-next-timeline-unscheduled' });
+      unscheduledEl.createSpan({
+        cls: 'kanban-next-timeline-unscheduled-title',
+        text: `Unscheduled (${timeline.unscheduled.length})`,
+      });
+      timeline.unscheduled.forEach(({ card, columnId }) => {
+        const chip = unscheduledEl.createEl('button', { cls: 'kanban-next-timeline-chip', text: card.title });
+        chip.dataset.cardId = card.id;
+        chip.addEventListener('click', () => {
+          void this.openCardDetails(columnId, card.id);
+        });
+      });
+    }
+  }
+
+  private positionTimelineBar(barEl: HTMLElement, offset: number, length: number, dayWidth: number): void {
+    barEl.setCssStyles({
+      left: `${offset * dayWidth}px`,
+      width: `${Math.max(length * dayWidth, 4)}px`,
+    });
+  }
+
+  private beginTimelineDrag(
+    event: MouseEvent,
+    bar: TimelineBar,
+    edge: TimelineEdge,
+    barEl: HTMLElement,
+    rangeStart: number,
+    dayWidth: number
+  ): void {
+    if (event.button !== 0 || this.timelineDrag || this.boardFormat?.readOnly) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const onMove = (moveEvent: MouseEvent) => this.updateTimelineDrag(moveEvent);
+    const onUp = () => this.endTimelineDrag(true);
+
+    this.timelineDrag = {
+      bar,
+      edge,
+      barEl,
+      originX: event.clientX,
+      rangeStart,
+      dayWidth,
+      delta: 0,
+      onMove,
+      onUp,
+    };
+    barEl.addClass('is-dragging');
+
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  }
+
+  private updateTimelineDrag(event: MouseEvent): void {
+    const drag = this.timelineDrag;
+    if (!drag) {
+      return;
+    }
+
+    drag.delta = Math.round((event.clientX - drag.originX) / drag.dayWidth);
+    const span = getCardSpan({ ...drag.bar.card, ...shiftCardSpan(drag.bar.card, drag.edge, drag.delta) });
+    if (span) {
+      const offset = span.start - drag.rangeStart;
+      this.positionTimelineBar(drag.barEl, offset, span.end - span.start + 1, drag.dayWidth);
+    }
+  }
+
+  private endTimelineDrag(commit = false): void {
+    const drag = this.timelineDrag;
+    if (!drag) {
+      return;
+    }
+
+    document.removeEventListener('mousemove', drag.onMove);
+    document.removeEventListener('mouseup', drag.onUp);
+    drag.barEl.removeClass('is-dragging');
+    this.timelineDrag = null;
+
+    if (!commit || !this.store) {
+      return;
+    }
+
+    const { bar, edge, delta } = drag;
+    if (delta === 0) {
+      if (edge === 'both') {
+        void this.openCardDetails(bar.columnId, bar.card.id);
+      }
+      return;
+    }
+
+    this.store.updateCard(bar.columnId, bar.card.id, (card) => ({
+      ...card,
+      ...shiftCardSpan(card, edge, delta),
+    }));
+    this.schedulePersist();
+  }
+
+  private formatCalendarTitle(firstDay: string, lastDay: string): string {
+    const format = (date: string, options: Intl.DateTimeFormatOptions) =>
+      new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+
+    if (this.calendarScale === 'month') {
+      return format(this.calendarAnchor, { month: 'long', year: 'numeric' });
+    }
+
+    const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+    return `${format(firstDay, options)} – ${format(lastDay, options)}`;
+  }
+
+  private moveCalendar(anchor: string): void {
+    this.calendarAnchor = anchor;
+    if (this.store) {
+      this.renderCalendar(this.store.getSnapshot());
+    }
+  }
+
+  private renderCalendarEntry(parent: HTMLElement, entry: CalendarEntry, today: string): void {
+    const { card } = entry;
+    const entryEl = parent.createDiv({ cls: 'kanban-next-calendar-card' });
+    entryEl.dataset.cardId = card.id;
+    entryEl.draggable = !this.boardFormat?.readOnly;
+    entryEl.toggleClass('is-complete', card.checked);
+    entryEl.toggleClass('is-overdue', Boolean(card.dueDate && !card.checked && card.dueDate < today));
+    entryEl.setAttr('title', `${card.title} · ${entry.columnTitle}`);
+    entryEl.createSpan({ cls: 'kanban-next-calendar-card-title', text: card.title });
+    entryEl.createSpan({ cls: 'kanban-next-calendar-card-column', text: entry.columnTitle });
+
+    entryEl.addEventListener('click', () => {
+      void this.openCardDetails(entry.columnId, card.id);
+    });
+    entryEl.addEventListener('dragstart', (event) => {
+      this.calendarDragEntry = entry;
+      event.dataTransfer?.setData('text/plain', card.title);
+      if (event.dataTransfer) {
+        event.dataTransfer.effectAllowed = 'move';
+      }
+      entryEl.addClass('is-dragging');
+    });
+    entryEl.addEventListener('dragend', () => {
+      this.calendarDragEntry = null;
+      entryEl.removeClass('is-dragging');
+    });
+  }
+
+  private registerCalendarDropTarget(targetEl: HTMLElement, date: string | null): void {
+    targetEl.addEventListener('dragover', (event) => {
+      if (!this.calendarDragEntry) {
+        return;
+      }
+
+      event.preventDefault();
+      if (event.dataTransfer) {
+        event.dataTransfer.dropEffect = 'move';
+      }
+      targetEl.addClass('is-drop-target');
+    });
+    targetEl.addEventListener('dragleave', (event) => {
+      const related = event.relatedTarget;
+      if (!(related instanceof Node) || !targetEl.contains(related)) {
+        targetEl.removeClass('is-drop-target');
+      }
+    });
+    targetEl.addEventListener('drop', (event) => {
+      const entry = this.calendarDragEntry;
+      targetEl.removeClass('is-drop-target');
+      if (!entry || !this.store) {
+        return;
+      }
+
+      event.preventDefault();
+      this.calendarDragEntry = null;
+      if ((entry.card.dueDate || null) === date) {
+        return;
+      }
+
+      this.store.updateCard(entry.columnId, entry.card.id, (card) => ({ ...card, dueDate: date }));
+      this.schedulePersist();
+    });
+  }
+
+  private createCardsContainer(
+    parent: HTMLElement,
+    columnId: string,
+    swimlaneKey: string | null = null
+  ): HTMLElement {
+    const cardsEl = parent.createDiv({ cls: 'kanban-next-cards' });
+    cardsEl.dataset.columnId = columnId;
+    cardsEl.tabIndex = -1;
+
+    cardsEl.addEventListener('dragover', (event) => {
+      if (!this.cardDragState) {
+        return;
+      }
+
+      event.preventDefault();
+      this.updateCardDropIndicatorFromPointer(cardsEl, columnId, event.clientY);
+    });
+
+    cardsEl.addEventListener('dragleave', (event) => {
+      const target = event.relatedTarget as Node | null;
+      if (target && cardsEl.contains(target)) {
+        return;
+      }
+      this.clearCardDropIndicator();
+    });
+
+    cardsEl.addEventListener('drop', (event) => {
+      if (!this.cardDragState) {
         return;
       }
 
+      event.preventDefault();
+
+      if (this.cardDropTargetColumnId === columnId) {
+        this.handleCardDrop(columnId, this.cardDropTargetCardId, swimlaneKey);
+        return;
+      }
+
+      const targetCard = (event.target as HTMLElement).closest('.kanban-next-card');
+      if (targetCard instanceof HTMLElement && targetCard.dataset.cardId) {
+        this.handleCardDrop(columnId, targetCard.dataset.cardId, swimlaneKey);
+        return;
+      }
+
+      this.handleCardDrop(columnId, null, swimlaneKey);
+    });
+
+    return cardsEl;
+  }
+
+  private renderCard(cardsEl: HTMLElement, columnId: string, card: Card, today: string): void {
+    const cardEl = cardsEl.createDiv({ cls: 'kanban-next-card' });
+    cardEl.dataset.cardId = card.id;
+    cardEl.toggleClass('is-selected', this.selectedCardIds.has(card.id));
+    cardEl.tabIndex = -1;
+    const isEditingCard =
+      this.editingCard?.columnId === columnId && this.editingCard.cardId === card.id;
+
+    cardEl.draggable = !isEditingCard && !this.boardFormat?.readOnly;
+
+    if (!isEditingCard) {
+      cardEl.addEventListener('dragstart', (event) => {
+        this.clearCardDropIndicator();
+        const cardIds =
+          this.selectedCardIds.has(card.id) && this.selectedCardIds.size > 1
+            ? this.getSelectedCardIds()
+            : [card.id];
+        this.cardDragState = {
+          cardId: card.id,
+          sourceColumnId: columnId,
+          cardIds,
+        };
+        this.cardDragPreviewHeight = cardEl.getBoundingClientRect().height;
+
+        event.dataTransfer?.setData('text/plain', cardIds.join('\n'));
+        if (event.dataTransfer) {
+          event.dataTransfer.effectAllowed = 'move';
+        }
+
+        cardEl.addClass('is-dragging');
+        if (cardIds.length > 1) {
+          this.forEachRenderedCard((el, id) => {
+            el.toggleClass('is-dragging', cardIds.includes(id));
+          });
+        }
+      });
+
+      cardEl.addEventListener('dragend', () => {
+        this.cardDragState = null;
+        this.cardDragPreviewHeight = 64;
+        this.clearCardDropIndicator();
+        cardEl.removeClass('is-dragging');
+        this.forEachRenderedCard((el) => el.removeClass('is-dragging'));
+        this.clearDropTargetStyles();
+      });
+    }
+
+    if (isEditingCard) {
+      cardEl.addClass('is-editing');
+
+      const currentDraft = this.editingCard?.draft || '';
+      const editor = cardEl.createEl('textarea', {
+        cls: 'kanban-next-card-editor',
+      });
+      editor.dataset.cardEditorId = card.id;
+      editor.value = this.clampCardText(currentDraft);
+      editor.maxLength = CARD_TEXT_MAX_LENGTH;
+      editor.rows = Math.max(1, editor.value.split('\n').length);
+      editor.setAttr('aria-label', 'Edit card text');
+      editor.setAttr('placeholder', 'Write card text…');
       this.syncCardEditorHeight(editor);
-      editor.focus();
-      const caretPosition = editor.value.length;
-      editor.setSelectionRange(caretPosition, caretPosition);
-    }, 0);
+
+      cardEl.createSpan({
+        cls: 'kanban-next-card-shortcut-hint',
+        text: Platform.isMacOS ? 'Cmd+Enter to finish' : 'Ctrl+Enter to finish',
+      });
+
+      let counterEl: HTMLSpanElement | null = null;
+
+      const ensureCounter = () => {
+        if (!counterEl) {
+          counterEl = cardEl.createSpan({
+            cls: 'kanban-next-card-counter',
+          });
+        }
+        counterEl.setText(`${this.countCharacters(editor.value)}/${CARD_TEXT_MAX_LENGTH}`);
+      };
+
+      if (this.editingCard && this.editingCard.showCounter) {
+        ensureCounter();
+      }
+
+      editor.addEventListener('mousedown', (event) => {
+        event.stopPropagation();
+      });
+
+      editor.addEventListener('click', (event) => {
+        event.stopPropagation();
+      });
+
+      editor.addEventListener('input', () => {
+        if (
+          this.editingCard &&
+          this.editingCard.columnId === columnId &&
+          this.editingCard.cardId === card.id
+        ) {
+          const clamped = this.clampCardText(editor.value);
+          if (clamped !== editor.value) {
+            editor.value = clamped;
+          }
+
+          this.editingCard.draft = clamped;
+          this.editingCard.showCounter = true;
+          this.syncCardEditorHeight(editor);
+          ensureCounter();
+        }
+      });
+
+      editor.addEventListener('focus', () => {
+        if (
+          this.editingCard &&
+          this.editingCard.columnId === columnId &&
+          this.editingCard.cardId === card.id
+        ) {
+          this.editingCard.showCounter = true;
+          ensureCounter();
+        }
+      });
+
+      editor.addEventListener('keydown', (event) => {
+        event.stopPropagation();
+
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          this.cancelInlineCardEdit();
+          return;
+        }
+
+        if (this.isInlineCardSubmitShortcut(event)) {
+          event.preventDefault();
+          this.commitInlineCardEdit();
+        }
+      });
+
+      editor.addEventListener('blur', () => {
+        this.commitInlineCardEdit();
+      });
+    } else {
+      const cardHeader = cardEl.createDiv({ cls: 'kanban-next-card-header' });
+      const checkbox = cardHeader.createEl('input', {
+        type: 'checkbox',
+        cls: 'task-list-item-checkbox kanban-next-card-checkbox',
+      });
+      checkbox.checked = card.checked;
+      checkbox.setAttr('aria-label', card.checked ? 'Mark card as open' : 'Mark card as done');
+
+      checkbox.addEventListener('mousedown', (event) => {
+        event.stopPropagation();
+      });
+
+      checkbox.addEventListener('click', (event) => {
+        event.stopPropagation();
+        this.toggleCardChecked(columnId, card.id);
+      });
+
+      const cardBodyEl = cardHeader.createDiv({
+        cls: 'kanban-next-card-body',
+      });
+      this.renderCardBody(cardBodyEl, toEditableCardText({ title: card.title, description: card.description }));
+      this.renderCardMeta(cardEl, card, today);
+
+      const cardActions = cardHeader.createDiv({ cls: 'kanban-next-card-actions' });
+      const cardMenuButton = this.createIconButton(
+        cardActions,
+        'ellipsis',
+        'Card actions',
+        (event) => {
+          if (this.selectedCardIds.has(card.id) && this.selectedCardIds.size > 1) {
+            this.openSelectionMenu(event);
+            return;
+          }
+
+          this.openCardMenu(event, columnId, card.id);
+        },
+        'kanban-next-ghost-icon-button'
+      );
+
+      cardMenuButton.addEventListener('mousedown', (event) => {
+        event.stopPropagation();
+      });
+
+      cardMenuButton.addEventListener('dragstart', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+      });
+
+      cardEl.addEventListener('click', (event) => {
+        this.clearPendingCardClick();
+        if (this.handleSelectionClick(event, card.id)) {
+          return;
+        }
+
+        if (event.detail > 1) {
+          return;
+        }
+
+        this.pendingCardClickHandle = window.setTimeout(() => {
+          this.pendingCardClickHandle = null;
+          this.beginInlineCardEdit(columnId, card.id);
+        }, CARD_DOUBLE_CLICK_DELAY_MS);
+      });
+
+      cardEl.addEventListener('dblclick', (event) => {
+        event.preventDefault();
+        this.clearPendingCardClick();
+        void this.openCardDetails(columnId, card.id);
+      });
+    }
+  }
+
+  private beginInlineCardEdit(columnId: string, cardId: string, initialDraft?: string): void {
+    if (!this.store || this.boardFormat?.readOnly) {
+      return;
+    }
+
+    const card = this.store.getCard(columnId, cardId);
+    if (!card) {
+      return;
+    }
+
+    const original = toEditableCardText({
+      title: card.title,
+      description: card.description,
+    });
+
+    this.editingCard = {
+      columnId,
+      cardId,
+      draft: this.clampCardText(initialDraft ?? original),
+      original,
+      showCounter: false,
+    };
+
+    this.renderLanes(this.store.getSnapshot());
+
+    window.setTimeout(() => {
+      const editor = this.rootEl?.querySelector(
+        `[data-card-editor-id="${cardId}"]`
+      ) as HTMLTextAreaElement | null;
+      if (!editor) {
+        return;
+      }
+
+      this.syncCardEditorHeight(editor);
+      editor.focus();
+      const caretPosition = editor.value.length;
+      editor.setSelectionRange(caretPosition, caretPosition);
+    }, 0);
+  }
+
+  private commitInlineCardEdit(): void {
+    if (!this.store || !this.editingCard) {
+      return;
+    }
+
+    const { columnId, cardId, draft } = this.editingCard;
+    const nextContent = fromEditableCardText(draft);
+    const current = this.store.getCard(columnId, cardId);
+
+    this.editingCard = null;
+
+    if (!current) {
+      this.renderLanes(this.store.getSnapshot());
+      return;
+    }
+
+    if (current.title === nextContent.title && current.description === nextContent.description) {
+      this.renderLanes(this.store.getSnapshot());
+      return;
+    }
+
+    this.store.updateCard(columnId, cardId, (card) => ({
+      ...card,
+      title: nextContent.title,
+      description: nextContent.description,
+    }));
+
+    this.schedulePersist();
+  }
+
+  private cancelInlineCardEdit(): void {
+    if (!this.store || !this.editingCard) {
+      return;
+    }
+
+    this.editingCard = null;
+    this.renderLanes(this.store.getSnapshot());
+  }
+
+  private syncCardEditorHeight(editor: HTMLTextAreaElement): void {
+    editor.setCssProps({ height: '0px' });
+    editor.setCssProps({ height: `${editor.scrollHeight}px` });
+  }
+
+  private countCharacters(value: string): number {
+    return value.length;
+  }
+
+  private isInlineCardSubmitShortcut(event: KeyboardEvent): boolean {
+    const key = (event.key || '').toLowerCase();
+    const code = (event.code || '').toLowerCase();
+    const isEnterKey =
+      key === 'enter' ||
+      key === 'numpadenter' ||
+      key === 'return' ||
+      code === 'enter' ||
+      code === 'numpadenter';
+
+    if (!isEnterKey) {
+      return false;
+    }
+
+    const hasMeta =
+      event.metaKey || (typeof event.getModifierState === 'function' && event.getModifierState('Meta'));
+    const hasCtrl =
+      event.ctrlKey ||
+      (typeof event.getModifierState === 'function' && event.getModifierState('Control'));
+
+    if (Platform.isMacOS) {
+      return hasMeta || hasCtrl;
+    }
+
+    return hasCtrl || hasMeta;
+  }
+
+  private handleHistoryShortcut(event: KeyboardEvent): void {
+    if (!this.store || !this.rootEl || this.editingCard) {
+      return;
+    }
+
+    if (this.app.workspace.getActiveViewOfType(KanbanView) !== this) {
+      return;
+    }
+
+    if (isTextEntryTarget(event.target)) {
+      return;
+    }
+
+    const hasMod = Platform.isMacOS ? event.metaKey : event.ctrlKey;
+    if (!hasMod || event.altKey || (event.key || '').toLowerCase() !== 'z') {
+      return;
+    }
+
+    event.preventDefault();
+    if (event.shiftKey) {
+      this.redo();
+    } else {
+      this.undo();
+    }
+  }
+
+  private handleKeyboardNavigation(event: KeyboardEvent): void {
+    if (!this.store || !this.rootEl || this.editingCard || event.defaultPrevented) {
+      return;
+    }
+
+    if (this.app.workspace.getActiveViewOfType(KanbanView) !== this) {
+      return;
+    }
+
+    const target = event.target;
+    if (
+      isTextEntryTarget(target) ||
+      !(target === document.body || (target instanceof Node && this.rootEl.contains(target)))
+    ) {
+      return;
+    }
+
+    if (event.ctrlKey || event.metaKey) {
+      return;
+    }
+
+    if (event.key === '?') {
+      event.preventDefault();
+      openShortcutHelpModal(this.app);
+      return;
+    }
+
+    if (event.key === '/') {
+      event.preventDefault();
+      this.setActivePopover('search');
+      window.setTimeout(() => this.queryInputEl?.focus(), 0);
+      return;
+    }
+
+    if (event.shiftKey) {
+      return;
+    }
+
+    const direction =
+      KEY_DIRECTIONS[event.key] ?? (event.altKey ? CODE_DIRECTIONS[event.code] : undefined);
+    if (direction) {
+      event.preventDefault();
+      if (event.altKey) {
+        this.moveFocusedCard(direction);
+      } else {
+        this.moveKeyboardFocus(direction);
+      }
+      return;
+    }
+
+    if (event.altKey) {
+      return;
+    }
+
+    if (event.key === 'n') {
+      event.preventDefault();
+      this.addCardFromKeyboard();
+      return;
+    }
+
+    const focus = this.keyboardFocus;
+    const isCardTarget = target instanceof HTMLElement && target.hasClass('kanban-next-card');
+    if (!focus?.cardId || !isCardTarget) {
+      return;
+    }
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.beginInlineCardEdit(focus.columnId, focus.cardId);
+      return;
+    }
+
+    if (event.key === ' ') {
+      event.preventDefault();
+      this.toggleCardChecked(focus.columnId, focus.cardId);
+    }
+  }
+
+  private getNavigationGrid(): Array<{ columnId: string; cardIds: string[] }> {
+    const grid: Array<{ columnId: string; cardIds: string[] }> = [];
+
+    this.lanesEl?.querySelectorAll<HTMLElement>('.kanban-next-cards[data-column-id]').forEach((cardsEl) => {
+      const columnId = cardsEl.dataset.columnId || '';
+      let entry = grid.find((candidate) => candidate.columnId === columnId);
+      if (!entry) {
+        entry = { columnId, cardIds: [] };
+        grid.push(entry);
+      }
+
+      const cardIds = entry.cardIds;
+      cardsEl.querySelectorAll<HTMLElement>('.kanban-next-card[data-card-id]').forEach((cardEl) => {
+        cardIds.push(cardEl.dataset.cardId || '');
+      });
+    });
+
+    return grid;
+  }
+
+  private trackKeyboardFocus(target: EventTarget | null): void {
+    if (!(target instanceof HTMLElement)) {
+      return;
+    }
+
+    const cardsEl = target.closest<HTMLElement>('.kanban-next-cards[data-column-id]');
+    if (!cardsEl?.dataset.columnId) {
+      return;
+    }
+
+    const cardEl = target.closest<HTMLElement>('.kanban-next-card[data-card-id]');
+    this.keyboardFocus = {
+      columnId: cardsEl.dataset.columnId,
+      cardId: cardEl?.dataset.cardId || null,
+    };
+  }
+
+  private findKeyboardFocusElement(focus: KeyboardFocus): HTMLElement | null {
+    if (!this.lanesEl) {
+      return null;
+    }
+
+    if (focus.cardId) {
+      const cardEl = this.lanesEl.querySelector<HTMLElement>(
+        `.kanban-next-card[data-card-id="${CSS.escape(focus.cardId)}"]`
+      );
+      if (cardEl) {
+        return cardEl;
+      }
+    }
+
+    return this.lanesEl.querySelector<HTMLElement>(
+      `.kanban-next-cards[data-column-id="${CSS.escape(focus.columnId)}"]`
+    );
+  }
+
+  private syncKeyboardFocus(restoreFocus: boolean): void {
+    if (!this.lanesEl) {
+      return;
+    }
+
+    const focusEl = this.keyboardFocus ? this.findKeyboardFocusElement(this.keyboardFocus) : null;
+    const rovingEl =
+      focusEl ||
+      this.lanesEl.querySelector<HTMLElement>('.kanban-next-card') ||
+      this.lanesEl.querySelector<HTMLElement>('.kanban-next-cards');
+    if (rovingEl) {
+      rovingEl.tabIndex = 0;
+    }
+
+    if (restoreFocus && focusEl && !this.editingCard) {
+      focusEl.focus();
+    }
+  }
+
+  private focusBoardItem(columnId: string, cardId: string | null): void {
+    this.lanesEl?.querySelectorAll<HTMLElement>('[tabindex="0"]').forEach((el) => {
+      if (el.hasClass('kanban-next-card') || el.hasClass('kanban-next-cards')) {
+        el.tabIndex = -1;
+      }
+    });
+
+    this.keyboardFocus = { columnId, cardId };
+    const focusEl = this.findKeyboardFocusElement(this.keyboardFocus);
+    if (!focusEl) {
+      return;
+    }
+
+    focusEl.tabIndex = 0;
+    focusEl.focus();
+    focusEl.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }
+
+  private moveKeyboardFocus(direction: NavigationDirection): void {
+    const grid = this.getNavigationGrid();
+    const focus = this.keyboardFocus;
+    const columnIndex = focus ? grid.findIndex((entry) => entry.columnId === focus.columnId) : -1;
+    const column = grid[columnIndex];
+
+    if (!focus || !column) {
+      const first = grid[0];
+      if (first) {
+        this.focusBoardItem(first.columnId, first.cardIds[0] ?? null);
+      }
+      return;
+    }
+
+    const cardIndex = focus.cardId ? column.cardIds.indexOf(focus.cardId) : -1;
+
+    if (direction === 'up' || direction === 'down') {
+      if (column.cardIds.length === 0) {
+        return;
+      }
+
+      const delta = direction === 'up' ? -1 : 1;
+      const nextIndex =
+        cardIndex < 0 ? 0 : Math.max(0, Math.min(cardIndex + delta, column.cardIds.length - 1));
+      this.focusBoardItem(column.columnId, column.cardIds[nextIndex] ?? null);
+      return;
+    }
+
+    const nextColumn = grid[columnIndex + (direction === 'left' ? -1 : 1)];
+    if (!nextColumn) {
+      return;
+    }
+
+    const nextIndex = Math.min(Math.max(cardIndex, 0), nextColumn.cardIds.length - 1);
+    this.focusBoardItem(nextColumn.columnId, nextColumn.cardIds[nextIndex] ?? null);
+  }
+
+  private moveFocusedCard(direction: NavigationDirection): void {
+    const focus = this.keyboardFocus;
+    if (!this.store || !focus?.cardId) {
+      return;
+    }
+
+    const cardId = focus.cardId;
+    const grid = this.getNavigationGrid();
+    const columnIndex = grid.findIndex((entry) => entry.columnId === focus.columnId);
+    const column = grid[columnIndex];
+    const cardIndex = column ? column.cardIds.indexOf(cardId) : -1;
+    if (!column || cardIndex < 0) {
+      return;
+    }
+
+    const board = this.store.getBoard();
+
+    if (direction === 'up' || direction === 'down') {
+      const delta = direction === 'up' ? -1 : 1;
+      const neighbourId = column.cardIds[cardIndex + delta];
+      const fullColumn = board.columns.find((entry) => entry.id === column.columnId);
+      const neighbourIndex = fullColumn?.cards.findIndex((card) => card.id === neighbourId) ?? -1;
+      if (!neighbourId || neighbourIndex < 0) {
+        return;
+      }
+
+      this.store.moveCard(column.columnId, cardId, column.columnId, neighbourIndex + (delta > 0 ? 1 : 0));
+      this.schedulePersist();
+      return;
+    }
+
+    const nextColumn = grid[columnIndex + (direction === 'left' ? -1 : 1)];
+    const fullNextColumn = board.columns.find((entry) => entry.id === nextColumn?.columnId);
+    if (!nextColumn || !fullNextColumn) {
+      return;
+    }
+
+    const beforeId = nextColumn.cardIds[cardIndex];
+    const beforeIndex = beforeId ? fullNextColumn.cards.findIndex((card) => card.id === beforeId) : -1;
+
+    this.keyboardFocus = { columnId: nextColumn.columnId, cardId };
+    this.store.moveCard(
+      column.columnId,
+      cardId,
+      nextColumn.columnId,
+      beforeIndex < 0 ? fullNextColumn.cards.length : beforeIndex
+    );
+    this.schedulePersist();
+  }
+
+  private addCardFromKeyboard(): void {
+    const columnId = this.keyboardFocus?.columnId || this.getNavigationGrid()[0]?.columnId;
+    if (!this.store || !columnId) {
+      return;
+    }
+
+    const created = this.createBlankCard();
+    this.store.addCard(columnId, created, 'bottom');
+    this.keyboardFocus = { columnId, cardId: created.id };
+    this.schedulePersist();
+    this.beginInlineCardEdit(columnId, created.id, '');
+  }
+
+  private clampCardText(value: string): string {
+    return clampEditableCardText(value, CARD_TEXT_MAX_LENGTH);
+  }
+
+  private async insertFromClipboard(
+    columnId: string,
+    position: 'before' | 'after'
+  ): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const clipboard = await this.readClipboardText();
+    if (!clipboard) {
+      return;
+    }
+
+    const cards = this.parseClipboardCards(clipboard);
+    if (cards.length === 0) {
+      return;
+    }
+
+    const inserted = this.store.insertCardsFromParsedLines(columnId, cards, position);
+    if (inserted > 0) {
+      this.schedulePersist();
+      new Notice(`Inserted ${inserted} cards.`);
+    }
+  }
+
+  private parseClipboardCards(clipboard: string): Card[] {
+    const parsed = parseClipboardList(clipboard);
+    if (parsed.length === 0) {
+      new Notice('No list items found in clipboard text.');
+      return [];
+    }
+
+    return parsed.map<Card>((entry) => {
+      return normalizeCard({
+        id: createId('card'),
+        title: entry.title,
+        description: '',
+        checked: entry.checked,
+        dueDate: null,
+        fields: {},
+      });
+    });
+  }
+
+  private async readClipboardText(): Promise<string | null> {
+    try {
+      if (navigator.clipboard && typeof navigator.clipboard.readText === 'function') {
+        const text = await navigator.clipboard.readText();
+        if (text.trim()) {
+          return text;
+        }
+      }
+    } catch {
+      // Fall back to manual paste.
+    }
+
+    return promptForMultilineText(this.app, {
+      title: 'Paste list items',
+      placeholder: 'Paste list lines here',
+      submitLabel: 'Insert',
+      rows: 12,
+    });
+  }
+
+  private openColumnMenu(
+    event: MouseEvent,
+    columnId: string,
+    columnTitle: string,
+    onRename: () => void
+  ): void {
+    if (!this.store) {
+      return;
+    }
+
+    const menu = new Menu();
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Rename column')
+        .setIcon('pencil')
+        .onClick(() => {
+          onRename();
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Clear column')
+        .setIcon('trash')
+        .onClick(async () => {
+          const cardIds = this.getColumnCardIds(columnId);
+          if (cardIds.length === 0) {
+            new Notice('No cards to clear.');
+            return;
+          }
+
+          const warning = describeBacklinkWarning(this.cardBacklinks, cardIds);
+          const confirmed = await openConfirmModal(this.app, {
+            title: 'Clear column',
+            message:
+              `Delete the ${cardIds.length} card${cardIds.length === 1 ? '' : 's'} in "${columnTitle}"?` +
+              (warning ? ` ${warning}` : ''),
+            confirmLabel: 'Clear',
+            danger: true,
+          });
+
+          if (!confirmed) {
+            return;
+          }
+
+          const cleared = this.store?.clearColumnCards(columnId) || 0;
+          if (cleared > 0) {
+            this.schedulePersist();
+            new Notice(`Cleared ${cleared} cards.`);
+          }
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Insert list before')
+        .setIcon('list-start')
+        .onClick(() => {
+          void this.insertFromClipboard(columnId, 'before');
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Insert list after')
+        .setIcon('list-end')
+        .onClick(() => {
+          void this.insertFromClipboard(columnId, 'after');
+        });
+    });
+
+    menu.addSeparator();
+
+    const sortMode =
+      this.store.getBoard().columns.find((column) => column.id === columnId)?.sortMode || 'manual';
+
+    COLUMN_SORT_MODES.forEach((mode) => {
+      menu.addItem((item) => {
+        item
+          .setTitle(`Sort: ${COLUMN_SORT_LABELS[mode]}`)
+          .setChecked(mode === sortMode)
+          .onClick(() => {
+            this.store?.setColumnSortMode(columnId, mode);
+            this.schedulePersist();
+          });
+      });
+    });
+
+    if (sortMode !== 'manual') {
+      menu.addItem((item) => {
+        item
+          .setTitle('Apply sort permanently')
+          .setIcon('arrow-down-wide-narrow')
+          .onClick(() => {
+            if (this.store?.applyColumnSort(columnId)) {
+              this.schedulePersist();
+            }
+          });
+      });
+    }
+
+    menu.addSeparator();
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Delete column')
+        .setIcon('trash-2')
+        .onClick(async () => {
+          const cardIds = this.getColumnCardIds(columnId);
+          const warning = describeBacklinkWarning(this.cardBacklinks, cardIds);
+          const confirmed = await openConfirmModal(this.app, {
+            title: 'Delete column',
+            message:
+              `Delete "${columnTitle}" and its ${cardIds.length} card${cardIds.length === 1 ? '' : 's'}?` +
+              (warning ? ` ${warning}` : ''),
+            confirmLabel: 'Delete',
+            danger: true,
+          });
+
+          if (!confirmed) {
+            return;
+          }
+
+          this.store?.deleteColumn(columnId);
+          this.schedulePersist();
+        });
+    });
+
+    menu.showAtMouseEvent(event);
+  }
+
+  private getColumnCardIds(columnId: string): string[] {
+    const column = this.store?.getBoard().columns.find((entry) => entry.id === columnId);
+    return column?.cards.map((card) => card.id) || [];
+  }
+
+  private openCardMenu(event: MouseEvent, columnId: string, cardId: string): void {
+    const menu = new Menu();
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Edit card details')
+        .setIcon('pencil')
+        .onClick(() => {
+          void this.openCardDetails(columnId, cardId);
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('New note from card')
+        .setIcon('file-plus-2')
+        .onClick(() => {
+          void this.createNoteFromCard(columnId, cardId);
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Copy link to card')
+        .setIcon('link')
+        .onClick(() => {
+          void this.copyCardLinkToClipboard(cardId);
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Duplicate card')
+        .setIcon('copy-plus')
+        .onClick(() => {
+          this.duplicateCard(columnId, cardId);
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Insert card before')
+        .setIcon('list-start')
+        .onClick(() => {
+          void this.insertCardsAroundCard(columnId, cardId, 'before');
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Insert card after')
+        .setIcon('list-end')
+        .onClick(() => {
+          void this.insertCardsAroundCard(columnId, cardId, 'after');
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Move to top')
+        .setIcon('arrow-up-to-line')
+        .onClick(() => {
+          this.moveCardToBoundary(columnId, cardId, 'top');
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Move to bottom')
+        .setIcon('arrow-down-to-line')
+        .onClick(() => {
+          this.moveCardToBoundary(columnId, cardId, 'bottom');
+        });
+    });
+
+    menu.addSeparator();
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Archive card')
+        .setIcon('archive')
+        .onClick(() => {
+          this.archiveCard(columnId, cardId);
+        });
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle('Delete card')
+        .setIcon('trash-2')
+        .onClick(() => {
+          void this.deleteCardWithConfirmation(columnId, cardId);
+        });
+    });
+
+    menu.showAtMouseEvent(event);
+  }
+
+  private getCardContext(
+    columnId: string,
+    cardId: string
+  ): {
+    column: Column;
+    card: Card;
+    cardIndex: number;
+  } | null {
+    if (!this.store) {
+      return null;
+    }
+
+    const board = this.store.getBoard();
+    const column = board.columns.find((entry) => entry.id === columnId);
+    if (!column) {
+      return null;
+    }
+
+    const cardIndex = column.cards.findIndex((entry) => entry.id === cardId);
+    if (cardIndex < 0) {
+      return null;
+    }
+
+    const card = column.cards[cardIndex];
+    if (!card) {
+      return null;
+    }
+
+    return {
+      column,
+      card,
+      cardIndex,
+    };
+  }
+
+  private async createNoteFromCard(columnId: string, cardId: string): Promise<void> {
+    if (!this.store || !this.file) {
+      return;
+    }
+
+    const context = this.getCardContext(columnId, cardId);
+    if (!context) {
+      return;
+    }
+
+    const baseName = this.sanitizeNoteBaseName(context.card.title) || 'Untitled card note';
+    const notePath = this.getNextNotePath(baseName);
+    const cardLink = this.buildCardWikiLink(cardId);
+    const noteContent = this.buildCardNoteContent(context.card, cardLink);
+
+    try {
+      const created = await this.app.vault.create(notePath, noteContent);
+      const noteLink = this.buildNoteWikiLink(created, 'Note');
+
+      if (!context.card.description.includes(noteLink)) {
+        this.store.updateCard(columnId, cardId, (card) => ({
+          ...card,
+          description: this.appendLineWithSpacing(card.description, noteLink),
+        }));
+        this.schedulePersist();
+      }
+
+      await this.openFileInSidePane(created);
+      new Notice(`Created note "${created.basename}".`);
+    } catch (error) {
+      new Notice(error instanceof Error ? error.message : 'Could not create note from card.');
+    }
+  }
+
+  private async copyCardLinkToClipboard(cardId: string): Promise<void> {
+    const link = this.buildCardWikiLink(cardId);
+    if (!link) {
+      new Notice('Board file unavailable.');
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(link);
+      new Notice('Card link copied.');
+    } catch {
+      new Notice('Could not copy card link to clipboard.');
+    }
+  }
+
+  private duplicateCard(columnId: string, cardId: string): void {
+    if (!this.store) {
+      return;
+    }
+
+    const context = this.getCardContext(columnId, cardId);
+    if (!context) {
+      return;
+    }
+
+    const duplicated = normalizeCard({
+      id: createId('card'),
+      title: context.card.title,
+      description: context.card.description,
+      checked: context.card.checked,
+      startDate: context.card.startDate,
+      dueDate: context.card.dueDate,
+      fields: context.card.fields,
+    });
+
+    const inserted = this.store.insertCardsAt(columnId, context.cardIndex + 1, [duplicated]);
+    if (inserted > 0) {
+      this.schedulePersist();
+      new Notice('Card duplicated.');
+    }
+  }
+
+  private async insertCardsAroundCard(
+    columnId: string,
+    cardId: string,
+    position: 'before' | 'after'
+  ): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const context = this.getCardContext(columnId, cardId);
+    if (!context) {
+      return;
+    }
+
+    const clipboard = await this.readClipboardText();
+    if (!clipboard) {
+      return;
+    }
+
+    const cards = this.parseClipboardCards(clipboard);
+    if (cards.length === 0) {
+      return;
+    }
+
+    const insertIndex = position === 'before' ? context.cardIndex : context.cardIndex + 1;
+    const inserted = this.store.insertCardsAt(columnId, insertIndex, cards);
+    if (inserted > 0) {
+      this.schedulePersist();
+      new Notice(`Inserted ${inserted} cards.`);
+    }
   }
 
-  private commitInlineCardEdit(): void {
-    if (!this.store || !this.editingCard) {
+  private moveCardToBoundary(columnId: string, cardId: string, boundary: 'top' | 'bottom'): void {
+    if (!this.store) {
       return;
     }
 
-    const { columnId, cardId, draft } = this.editingCard;
-    const nextContent = fromEditableCardText(draft);
-    const current = this.store.getCard(columnId, cardId);
-
-    this.editingCard = null;
-
-    if (!current) {
-      this.renderLanes(this.store.getSnapshot());
+    const context = this.getCardContext(columnId, cardId);
+    if (!context) {
       return;
     }
 
-    if (current.title === nextContent.title && current.description === nextContent.description) {
-      this.renderLanes(this.store.getSnapshot());
+    if (boundary === 'top' && context.cardIndex === 0) {
       return;
     }
 
-    this.store.updateCard(columnId, cardId, (card) => ({
-      ...card,
-      title: nextContent.title,
-      description: nextContent.description,
-    }));
+    if (boundary === 'bottom' && context.cardIndex === context.column.cards.length - 1) {
+      return;
+    }
 
+    const targetIndex = boundary === 'top' ? 0 : context.column.cards.length;
+    this.store.moveCard(columnId, cardId, columnId, targetIndex);
     this.schedulePersist();
   }
 
-  private cancelInlineCardEdit(): void {
-    if (!this.store || !this.editingCard) {
+  private async openCardDetails(columnId: string, cardId: string): Promise<void> {
+    if (!this.store) {
       return;
     }
 
-    this.editingCard = null;
-    this.renderLanes(this.store.getSnapshot());
+    const context = this.getCardContext(columnId, cardId);
+    if (!context) {
+      return;
+    }
+
+    const result = await openCardDetailModal(
+      this.app,
+      context.card,
+      columnId,
+      this.store.getBoard().columns
+    );
+    if (!result || !this.store) {
+      return;
+    }
+
+    const store = this.store;
+    store.batch('Edit card', () => {
+      store.updateCard(columnId, cardId, (card) => ({
+        ...card,
+        title: result.title,
+        description: result.description,
+        checked: result.checked,
+        startDate: result.startDate,
+        dueDate: result.dueDate,
+        fields: result.fields,
+      }));
+
+      if (result.columnId !== columnId) {
+        const targetColumn = store.getBoard().columns.find((column) => column.id === result.columnId);
+        store.moveCard(columnId, cardId, result.columnId, targetColumn?.cards.length ?? 0);
+      }
+    });
+
+    this.schedulePersist();
   }
 
-  private syncCardEditorHeight(editor: HTMLTextAreaElement): void {
-    editor.setCssProps({ height: '0px' });
-    editor.setCssProps({ height: `${editor.scrollHeight}px` });
+  private clearPendingCardClick(): void {
+    if (this.pendingCardClickHandle !== null) {
+      window.clearTimeout(this.pendingCardClickHandle);
+      this.pendingCardClickHandle = null;
+    }
   }
 
-  private countCharacters(value: string): number {
-    return value.length;
+  private archiveCard(columnId: string, cardId: string): void {
+    if (!this.store) {
+      return;
+    }
+
+    if (this.store.archiveCard(columnId, cardId)) {
+      this.schedulePersist();
+      new Notice('Card archived.');
+    }
   }
 
-  private isInlineCardSubmitShortcut(event: KeyboardEvent): boolean {
-    const key = (event.key || '').toLowerCase();
-    const code = (event.code || '').toLowerCase();
-    const isEnterKey =
-      key === 'enter' ||
-      key === 'numpadenter' ||
-      key === 'return' ||
-      code === 'enter' ||
-      code === 'numpadenter';
+  private async deleteCardWithConfirmation(columnId: string, cardId: string): Promise<void> {
+    if (!this.store) {
+      return;
+    }
 
-    if (!isEnterKey) {
-      return false;
+    const context = this.getCardContext(columnId, cardId);
+    if (!context) {
+      return;
     }
 
-    const hasMeta =
-      event.metaKey || (typeof event.getModifierState === 'function' && event.getModifierState('Meta'));
-    const hasCtrl =
-      event.ctrlKey ||
-      (typeof event.getModifierState === 'function' && event.getModifierState('Control'));
+    const warning = describeBacklinkWarning(this.cardBacklinks, [cardId]);
+    const confirmed = await openConfirmModal(this.app, {
+      title: 'Delete card',
+      message: `Delete "${context.card.title}"?${warning ? ` ${warning}` : ''}`,
+      confirmLabel: 'Delete',
+      danger: true,
+    });
 
-    if (Platform.isMacOS) {
-      return hasMeta || hasCtrl;
+    if (!confirmed) {
+      return;
     }
 
-    return hasCtrl || hasMeta;
+    this.store.deleteCard(columnId, cardId);
+    this.schedulePersist();
   }
 
-  private clampCardText(value: string): string {
-    return clampEditableCardText(value, CARD_TEXT_MAX_LENGTH);
+  private getSelectedCards(): Card[] {
+    const columns = this.store?.getBoard().columns || [];
+    return columns.flatMap((column) => column.cards.filter((card) => this.selectedCardIds.has(card.id)));
   }
 
-  private async insertFromClipboard(
-    columnId: string,
-    position: 'before' | 'after'
-  ): Promise<void> {
-    if (!this.store) {
+  private getSelectedCardIds(): string[] {
+    return this.getSelectedCards().map((card) => card.id);
+  }
+
+  private pruneSelection(board: BoardDocument): void {
+    if (this.selectedCardIds.size === 0) {
       return;
     }
 
-    const clipboard = await this.readClipboardText();
-    if (!clipboard) {
-      return;
+    const existing = new Set(board.columns.flatMap((column) => column.cards.map((card) => card.id)));
+    this.selectedCardIds.forEach((id) => {
+      if (!existing.has(id)) {
+        this.selectedCardIds.delete(id);
+      }
+    });
+
+    if (this.selectionAnchorCardId && !existing.has(this.selectionAnchorCardId)) {
+      this.selectionAnchorCardId = null;
     }
+  }
 
-    const cards = this.parseClipboardCards(clipboard);
-    if (cards.length === 0) {
+  private clearSelection(): void {
+    if (this.selectedCardIds.size === 0) {
       return;
     }
 
-    const inserted = this.store.insertCardsFromParsedLines(columnId, cards, position);
-    if (inserted > 0) {
-      this.schedulePersist();
-      new Notice(`Inserted ${inserted} cards.`);
-    }
+    this.selectedCardIds.clear();
+    this.selectionAnchorCardId = null;
+    this.applySelectionClasses();
   }
 
-  private parseClipboardCards(clipboard: string): Card[] {
-    const parsed = parseClipboardList(clipboard);
-    if (parsed.length === 0) {
-      new Notice('No list items found in clipboard text.');
-      return [];
-    }
+  private forEachRenderedCard(callback: (cardEl: HTMLElement, cardId: string) => void): void {
+    this.lanesEl?.querySelectorAll<HTMLElement>('.kanban-next-card[data-card-id]').forEach((cardEl) => {
+      callback(cardEl, cardEl.dataset.cardId || '');
+    });
+  }
 
-    return parsed.map<Card>((entry) => {
-      return normalizeCard({
-        id: createId('card'),
-        title: entry.title,
-        description: '',
-        checked: entry.checked,
-        dueDate: null,
-      });
+  private applySelectionClasses(): void {
+    this.forEachRenderedCard((cardEl, cardId) => {
+      cardEl.toggleClass('is-selected', this.selectedCardIds.has(cardId));
     });
+    this.renderSelectionBar();
   }
 
-  private async readClipboardText(): Promise<string | null> {
-    try {
-      if (navigator.clipboard && typeof navigator.clipboard.readText === 'function') {
-        const text = await navigator.clipboard.readText();
-        if (text.trim()) {
-          return text;
-        }
+  private handleSelectionClick(event: MouseEvent, cardId: string): boolean {
+    const hasMod = Platform.isMacOS ? event.metaKey : event.ctrlKey;
+    if (!hasMod && !event.shiftKey) {
+      this.clearSelection();
+      return false;
+    }
+
+    event.preventDefault();
+
+    if (event.shiftKey && this.selectionAnchorCardId) {
+      const renderedIds: string[] = [];
+      this.forEachRenderedCard((_cardEl, id) => renderedIds.push(id));
+
+      const anchorIndex = renderedIds.indexOf(this.selectionAnchorCardId);
+      const targetIndex = renderedIds.indexOf(cardId);
+      if (anchorIndex >= 0 && targetIndex >= 0) {
+        const start = Math.min(anchorIndex, targetIndex);
+        const end = Math.max(anchorIndex, targetIndex);
+        renderedIds.slice(start, end + 1).forEach((id) => this.selectedCardIds.add(id));
+        this.applySelectionClasses();
+        return true;
       }
-    } catch {
-      // Fall back to manual paste.
     }
 
-    return promptForMultilineText(this.app, {
-      title: 'Paste list items',
-      placeholder: 'Paste list lines here',
-      submitLabel: 'Insert',
-      rows: 12,
-    });
+    if (this.selectedCardIds.has(cardId)) {
+      this.selectedCardIds.delete(cardId);
+    } else {
+      this.selectedCardIds.add(cardId);
+    }
+
+    this.selectionAnchorCardId = cardId;
+    this.applySelectionClasses();
+    return true;
   }
 
-  private openColumnMenu(
-    event: MouseEvent,
-    columnId: string,
-    columnTitle: string,
-    onRename: () => void
-  ): void {
-    if (!this.store) {
+  private beginLasso(event: MouseEvent): void {
+    if (event.button !== 0 || this.editingCard || this.lassoState || !this.rootEl) {
       return;
     }
 
-    const menu = new Menu();
+    const target = event.target;
+    if (
+      !(target instanceof HTMLElement) ||
+      target.closest(
+        '.kanban-next-card, button, input, textarea, select, a, .kanban-next-lane-header, .kanban-next-swimlane-header'
+      )
+    ) {
+      return;
+    }
 
-    menu.addItem((item) => {
-      item
-        .setTitle('Rename column')
-        .setIcon('pencil')
-        .onClick(() => {
-          onRename();
-        });
-    });
+    const onMove = (moveEvent: MouseEvent) => this.updateLasso(moveEvent);
+    const onUp = () => this.endLasso();
+
+    this.lassoState = {
+      startX: event.clientX,
+      startY: event.clientY,
+      additive: event.shiftKey || (Platform.isMacOS ? event.metaKey : event.ctrlKey),
+      baseIds: new Set(this.selectedCardIds),
+      active: false,
+      onMove,
+      onUp,
+    };
 
-    menu.addItem((item) => {
-      item
-        .setTitle('Clear column')
-        .setIcon('trash')
-        .onClick(() => {
-          const cleared = this.store?.clearColumnCards(columnId) || 0;
-          if (cleared > 0) {
-            this.schedulePersist();
-            new Notice(`Cleared ${cleared} cards.`);
-          } else {
-            new Notice('No cards to clear.');
-          }
-        });
-    });
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  }
 
-    menu.addItem((item) => {
-      item
-        .setTitle('Insert list before')
-        .setIcon('list-start')
-        .onClick(() => {
-          void this.insertFromClipboard(columnId, 'before');
-        });
-    });
+  private updateLasso(event: MouseEvent): void {
+    const lasso = this.lassoState;
+    if (!lasso || !this.rootEl) {
+      return;
+    }
 
-    menu.addItem((item) => {
-      item
-        .setTitle('Insert list after')
-        .setIcon('list-end')
-        .onClick(() => {
-          void this.insertFromClipboard(columnId, 'after');
-        });
-    });
+    if (
+      !lasso.active &&
+      Math.hypot(event.clientX - lasso.startX, event.clientY - lasso.startY) < LASSO_START_DISTANCE_PX
+    ) {
+      return;
+    }
 
-    menu.addSeparator();
+    event.preventDefault();
+    lasso.active = true;
 
-    menu.addItem((item) => {
-      item
-        .setTitle('Delete column')
-        .setIcon('trash-2')
-        .onClick(async () => {
-          const cardCount =
-            this.store?.getBoard().columns.find((column) => column.id === columnId)?.cards.length || 0;
-          const confirmed = await openConfirmModal(this.app, {
-            title: 'Delete column',
-            message: `Delete "${columnTitle}" and its ${cardCount} card${cardCount === 1 ? '' : 's'}? This cannot be undone.`,
-            confirmLabel: 'Delete',
-            danger: true,
-          });
+    const left = Math.min(lasso.startX, event.clientX);
+    const top = Math.min(lasso.startY, event.clientY);
+    const right = Math.max(lasso.startX, event.clientX);
+    const bottom = Math.max(lasso.startY, event.clientY);
 
-          if (!confirmed) {
-            return;
-          }
+    if (!this.lassoEl) {
+      this.lassoEl = this.rootEl.createDiv({ cls: 'kanban-next-lasso' });
+    }
 
-          this.store?.deleteColumn(columnId);
-          this.schedulePersist();
-        });
+    this.lassoEl.setCssStyles({
+      left: `${left}px`,
+      top: `${top}px`,
+      width: `${right - left}px`,
+      height: `${bottom - top}px`,
     });
 
-    menu.showAtMouseEvent(event);
+    const nextIds = lasso.additive ? new Set(lasso.baseIds) : new Set<string>();
+    this.forEachRenderedCard((cardEl, cardId) => {
+      const rect = cardEl.getBoundingClientRect();
+      if (rect.right >= left && rect.left <= right && rect.bottom >= top && rect.top <= bottom) {
+        nextIds.add(cardId);
+      }
+    });
+
+    this.selectedCardIds = nextIds;
+    this.applySelectionClasses();
   }
 
-  private openCardMenu(event: MouseEvent, columnId: string, cardId: string): void {
-    const menu = new Menu();
+  private endLasso(): void {
+    const lasso = this.lassoState;
+    if (!lasso) {
+      return;
+    }
 
-    menu.addItem((item) => {
-      item
-        .setTitle('New note from card')
-        .setIcon('file-plus-2')
-        .onClick(() => {
-          void this.createNoteFromCard(columnId, cardId);
-        });
-    });
+    document.removeEventListener('mousemove', lasso.onMove);
+    document.removeEventListener('mouseup', lasso.onUp);
+    this.lassoState = null;
+    this.lassoEl?.remove();
+    this.lassoEl = null;
 
-    menu.addItem((item) => {
-      item
-        .setTitle('Copy link to card')
-        .setIcon('link')
-        .onClick(() => {
-          void this.copyCardLinkToClipboard(cardId);
-        });
+    if (!lasso.active && !lasso.additive) {
+      this.clearSelection();
+    }
+  }
+
+  private renderSelectionBar(): void {
+    const barEl = this.selectionBarEl;
+    if (!barEl) {
+      return;
+    }
+
+    barEl.empty();
+    const count = this.selectedCardIds.size;
+    barEl.toggleClass('is-hidden', count === 0);
+    if (count === 0) {
+      return;
+    }
+
+    barEl.createSpan({
+      cls: 'kanban-next-selection-count',
+      text: `${count} card${count === 1 ? '' : 's'} selected`,
     });
 
+    const actionsEl = barEl.createDiv({ cls: 'kanban-next-selection-actions' });
+    this.createButton(actionsEl, 'Move to…', (event) => this.openSelectionMoveMenu(event));
+    this.createButton(actionsEl, 'Toggle done', () => this.toggleSelectionChecked());
+    this.createButton(actionsEl, 'Tags…', (event) => this.openSelectionTagMenu(event));
+    this.createButton(actionsEl, 'Set due date', async () => this.promptSetSelectionDueDate());
+    this.createButton(actionsEl, 'Archive', () => this.archiveSelection());
+    this.createButton(
+      actionsEl,
+      'Delete',
+      async () => this.deleteSelectionWithConfirmation(),
+      'kanban-next-button kanban-next-danger-button'
+    );
+    this.createIconButton(
+      actionsEl,
+      'x',
+      'Clear selection',
+      () => this.clearSelection(),
+      'kanban-next-ghost-icon-button'
+    );
+  }
+
+  private openSelectionMenu(event: MouseEvent): void {
+    const menu = new Menu();
+
     menu.addItem((item) => {
       item
-        .setTitle('Duplicate card')
-        .setIcon('copy-plus')
-        .onClick(() => {
-          this.duplicateCard(columnId, cardId);
-        });
+        .setTitle('Move to…')
+        .setIcon('arrow-right-left')
+        .onClick(() => this.openSelectionMoveMenu(event));
     });
 
     menu.addItem((item) => {
       item
-        .setTitle('Insert card before')
-        .setIcon('list-start')
-        .onClick(() => {
-          void this.insertCardsAroundCard(columnId, cardId, 'before');
-        });
+        .setTitle('Toggle done')
+        .setIcon('check-square')
+        .onClick(() => this.toggleSelectionChecked());
     });
 
     menu.addItem((item) => {
       item
-        .setTitle('Insert card after')
-        .setIcon('list-end')
-        .onClick(() => {
-          void this.insertCardsAroundCard(columnId, cardId, 'after');
-        });
+        .setTitle('Tags…')
+        .setIcon('tag')
+        .onClick(() => this.openSelectionTagMenu(event));
     });
 
     menu.addItem((item) => {
       item
-        .setTitle('Move to top')
-        .setIcon('arrow-up-to-line')
+        .setTitle('Set due date')
+        .setIcon('calendar')
         .onClick(() => {
-          this.moveCardToBoundary(columnId, cardId, 'top');
+          void this.promptSetSelectionDueDate();
         });
     });
 
+    menu.addSeparator();
+
     menu.addItem((item) => {
       item
-        .setTitle('Move to bottom')
-        .setIcon('arrow-down-to-line')
-        .onClick(() => {
-          this.moveCardToBoundary(columnId, cardId, 'bottom');
-        });
+        .setTitle('Archive cards')
+        .setIcon('archive')
+        .onClick(() => this.archiveSelection());
     });
 
     menu.addItem((item) => {
       item
-        .setTitle('Delete card')
+        .setTitle('Delete cards')
         .setIcon('trash-2')
         .onClick(() => {
-          void this.deleteCardWithConfirmation(columnId, cardId);
+          void this.deleteSelectionWithConfirmation();
         });
     });
 
     menu.showAtMouseEvent(event);
   }
 
-  private getCardContext(
-    columnId: string,
-    cardId: string
-  ): {
-    column: Column;
-    card: Card;
-    cardIndex: number;
-  } | null {
-    if (!this.store) {
-      return null;
-    }
-
-    const board = this.store.getBoard();
-    const column = board.columns.find((entry) => entry.id === columnId);
-    if (!column) {
-      return null;
-    }
-
-    const cardIndex = column.cards.findIndex((entry) => entry.id === cardId);
-    if (cardIndex < 0) {
-      return null;
-    }
+  private openSelectionMoveMenu(event: MouseEvent): void {
+    const menu = new Menu();
 
-    const card = column.cards[cardIndex];
-    if (!card) {
-      return null;
-    }
+    (this.store?.getBoard().columns || []).forEach((column) => {
+      menu.addItem((item) => {
+        item.setTitle(column.title).onClick(() => {
+          this.moveSelectionToColumn(column.id);
+        });
+      });
+    });
 
-    return {
-      column,
-      card,
-      cardIndex,
-    };
+    menu.showAtMouseEvent(event);
   }
 
-  private async createNoteFromCard(columnId: string, cardId: string): Promise<void> {
-    if (!this.store || !this.file) {
-      return;
-    }
-
-    const context = this.getCardContext(columnId, cardId);
-    if (!context) {
-      return;
-    }
+  private openSelectionTagMenu(event: MouseEvent): void {
+    const menu = new Menu();
 
-    const baseName = this.sanitizeNoteBaseName(context.card.title) || 'Untitled card note';
-    const notePath = this.getNextNotePath(baseName);
-    const cardLink = this.buildCardWikiLink(cardId);
-    const noteContent = this.buildCardNoteContent(context.card, cardLink);
+    menu.addItem((item) => {
+      item
+        .setTitle('Add tag…')
+        .setIcon('plus')
+        .onClick(() => {
+          void this.promptAddTagToSelection();
+        });
+    });
 
-    try {
-      const created = await this.app.vault.create(notePath, noteContent);
-      const noteLink = this.buildNoteWikiLink(created, 'Note');
+    const tags = Array.from(new Set(this.getSelectedCards().flatMap((card) => card.tags))).sort();
+    if (tags.length > 0) {
+      menu.addSeparator();
+    }
 
-      if (!context.card.description.includes(noteLink)) {
-        this.store.updateCard(columnId, cardId, (card) => ({
-          ...card,
-          description: this.appendLineWithSpacing(card.description, noteLink),
-        }));
-        this.schedulePersist();
-      }
+    tags.forEach((tag) => {
+      menu.addItem((item) => {
+        item
+          .setTitle(`Remove ${tag}`)
+          .setIcon('x')
+          .onClick(() => this.removeTagFromSelection(tag));
+      });
+    });
 
-      await this.openFileInSidePane(created);
-      new Notice(`Created note "${created.basename}".`);
-    } catch (error) {
-      new Notice(error instanceof Error ? error.message : 'Could not create note from card.');
-    }
+    menu.showAtMouseEvent(event);
   }
 
-  private async copyCardLinkToClipboard(cardId: string): Promise<void> {
-    const link = this.buildCardWikiLink(cardId);
-    if (!link) {
-      new Notice('Board file unavailable.');
+  private moveSelectionToColumn(columnId: string): void {
+    const column = this.store?.getBoard().columns.find((entry) => entry.id === columnId);
+    if (!this.store || !column) {
       return;
     }
 
-    try {
-      await navigator.clipboard.writeText(link);
-      new Notice('Card link copied.');
-    } catch {
-      new Notice('Could not copy card link to clipboard.');
+    const moved = this.store.moveCards(this.getSelectedCardIds(), columnId, column.cards.length);
+    if (moved > 0) {
+      this.schedulePersist();
+      new Notice(`Moved ${moved} card${moved === 1 ? '' : 's'} to "${column.title}".`);
     }
   }
 
-  private duplicateCard(columnId: string, cardId: string): void {
-    if (!this.store) {
+  private toggleSelectionChecked(): void {
+    const cards = this.getSelectedCards();
+    if (!this.store || cards.length === 0) {
       return;
     }
 
-    const context = this.getCardContext(columnId, cardId);
-    if (!context) {
-      return;
-    }
+    const checked = !cards.every((card) => card.checked);
+    this.store.updateCards(
+      cards.map((card) => card.id),
+      (card) => ({ ...card, checked }),
+      checked ? 'Mark cards done' : 'Mark cards open'
+    );
+    this.schedulePersist();
+  }
 
-    const duplicated = normalizeCard({
-      id: createId('card'),
-      title: context.card.title,
-      description: context.card.description,
-      checked: context.card.checked,
-      dueDate: context.card.dueDate,
+  private async promptAddTagToSelection(): Promise<void> {
+    const raw = await promptForText(this.app, {
+      title: 'Add tag',
+      placeholder: '#tag',
+      submitLabel: 'Add',
     });
 
-    const inserted = this.store.insertCardsAt(columnId, context.cardIndex + 1, [duplicated]);
-    if (inserted > 0) {
-      this.schedulePersist();
-      new Notice('Card duplicated.');
-    }
-  }
-
-  private async insertCardsAroundCard(
-    columnId: string,
-    cardId: string,
-    position: 'before' | 'after'
-  ): Promise<void> {
-    if (!this.store) {
+    const tag = normalizeTagFilter(raw || '');
+    if (!this.store || !tag || tag === '#') {
       return;
     }
 
-    const context = this.getCardContext(columnId, cardId);
-    if (!context) {
+    if (/\s/.test(tag)) {
+      new Notice('Tags cannot contain spaces.');
       return;
     }
 
-    const clipboard = await this.readClipboardText();
-    if (!clipboard) {
-      return;
-    }
+    this.store.updateCards(
+      this.getSelectedCardIds(),
+      (card) => (card.tags.includes(tag) ? card : { ...card, title: `${card.title.trimEnd()} ${tag}` }),
+      'Add tag'
+    );
+    this.schedulePersist();
+  }
 
-    const cards = this.parseClipboardCards(clipboard);
-    if (cards.length === 0) {
+  private removeTagFromSelection(tag: string): void {
+    if (!this.store) {
       return;
     }
 
-    const insertIndex = position === 'before' ? context.cardIndex : context.cardIndex + 1;
-    const inserted = this.store.insertCardsAt(columnId, insertIndex, cards);
-    if (inserted > 0) {
-      this.schedulePersist();
-      new Notice(`Inserted ${inserted} cards.`);
-    }
+    this.store.updateCards(
+      this.getSelectedCards()
+        .filter((card) => card.tags.includes(tag))
+        .map((card) => card.id),
+      (card) => ({
+        ...card,
+        title: removeTagFromText(card.title, tag).trim() || card.title,
+        description: removeTagFromText(card.description, tag),
+      }),
+      'Remove tag'
+    );
+    this.schedulePersist();
   }
 
-  private moveCardToBoundary(columnId: string, cardId: string, boundary: 'top' | 'bottom'): void {
-    if (!this.store) {
+  private async promptSetSelectionDueDate(): Promise<void> {
+    const cards = this.getSelectedCards();
+    if (cards.length === 0) {
       return;
     }
 
-    const context = this.getCardContext(columnId, cardId);
-    if (!context) {
-      return;
-    }
+    const shared = cards.every((card) => card.dueDate === cards[0]?.dueDate) ? cards[0]?.dueDate : null;
+    const raw = await promptForText(this.app, {
+      title: 'Set due date',
+      value: shared || '',
+      placeholder: 'YYYY-MM-DD (leave empty to clear)',
+      submitLabel: 'Apply',
+    });
 
-    if (boundary === 'top' && context.cardIndex === 0) {
+    if (raw === null || !this.store) {
       return;
     }
 
-    if (boundary === 'bottom' && context.cardIndex === context.column.cards.length - 1) {
+    const dueDate = normalizeDueDate(raw);
+    if (raw && !dueDate) {
+      new Notice('Due date must use the YYYY-MM-DD format.');
       return;
     }
 
-    const targetIndex = boundary === 'top' ? 0 : context.column.cards.length;
-    this.store.moveCard(columnId, cardId, columnId, targetIndex);
+    this.store.updateCards(
+      cards.map((card) => card.id),
+      (card) => ({ ...card, dueDate }),
+      dueDate ? 'Set due date' : 'Clear due date'
+    );
     this.schedulePersist();
   }
 
-  private async deleteCardWithConfirmation(columnId: string, cardId: string): Promise<void> {
+  private archiveSelection(): void {
     if (!this.store) {
       return;
     }
 
-    const context = this.getCardContext(columnId, cardId);
-    if (!context) {
+    const archived = this.store.archiveCards(this.getSelectedCardIds());
+    if (archived > 0) {
+      this.schedulePersist();
+      new Notice(`Archived ${archived} card${archived === 1 ? '' : 's'}.`);
+    }
+  }
+
+  private async deleteSelectionWithConfirmation(): Promise<void> {
+    const cardIds = this.getSelectedCardIds();
+    if (cardIds.length === 0) {
       return;
     }
 
+    const warning = describeBacklinkWarning(this.cardBacklinks, cardIds);
     const confirmed = await openConfirmModal(this.app, {
-      title: 'Delete card',
-      message: `Delete "${context.card.title}"? This cannot be undone.`,
+      title: 'Delete cards',
+      message:
+        `Delete ${cardIds.length} selected card${cardIds.length === 1 ? '' : 's'}?` +
+        (warning ? ` ${warning}` : ''),
       confirmLabel: 'Delete',
       danger: true,
     });
 
-    if (!confirmed) {
+    if (!confirmed || !this.store) {
       return;
     }
 
-    this.store.deleteCard(columnId, cardId);
-    this.schedulePersist();
+    if (this.store.deleteCards(cardIds) > 0) {
+      this.schedulePersist();
+    }
   }
 
   private buildCardWikiLink(cardId: string): string {
@@ -2099,7 +4848,11 @@ export class KanbanView extends TextFileView {
     }
   }
 
-  private handleCardDrop(targetColumnId: string, targetCardId: string | null): void {
+  private handleCardDrop(
+    targetColumnId: string,
+    targetCardId: string | null,
+    swimlaneKey: string | null = null
+  ): void {
     if (!this.store || !this.cardDragState) {
       return;
     }
@@ -2110,17 +4863,40 @@ export class KanbanView extends TextFileView {
       return;
     }
 
-    const targetIndex =
+    let targetIndex =
       targetCardId === null
         ? targetColumn.cards.length
         : targetColumn.cards.findIndex((card) => card.id === targetCardId);
 
-    this.store.moveCard(
-      this.cardDragState.sourceColumnId,
-      this.cardDragState.cardId,
-      targetColumnId,
-      targetIndex < 0 ? targetColumn.cards.length : targetIndex
-    );
+    if (targetCardId === null && swimlaneKey !== null) {
+      const draggedIds = this.cardDragState.cardIds;
+      const lastInLane = targetColumn.cards.reduce(
+        (last, card, index) =>
+          !draggedIds.includes(card.id) && getSwimlaneKey(card, board.swimlanes) === swimlaneKey
+            ? index
+            : last,
+        -1
+      );
+      if (lastInLane >= 0) {
+        targetIndex = lastInLane + 1;
+      }
+    }
+
+    const { sourceColumnId, cardId, cardIds } = this.cardDragState;
+    const store = this.store;
+    const insertIndex = targetIndex < 0 ? targetColumn.cards.length : targetIndex;
+
+    store.batch(cardIds.length > 1 ? 'Move cards' : 'Move card', () => {
+      if (cardIds.length > 1) {
+        store.moveCards(cardIds, targetColumnId, insertIndex);
+      } else {
+        store.moveCard(sourceColumnId, cardId, targetColumnId, insertIndex);
+      }
+
+      if (swimlaneKey !== null && board.swimlanes !== 'none') {
+        store.updateCards(cardIds, (card) => applySwimlaneKey(card, board.swimlanes, swimlaneKey));
+      }
+    });
 
     this.cardDragState = null;
     this.cardDragPreviewHeight = 64;
@@ -2253,6 +5029,7 @@ export class KanbanView extends TextFileView {
       description: '',
       checked: false,
       dueDate: null,
+      fields: {},
     });
   }
 
@@ -2261,16 +5038,102 @@ export class KanbanView extends TextFileView {
       return;
     }
 
+    if (this.boardFormat?.readOnly) {
+      // The store ignored the edit; render again so inputs drop whatever was typed into them.
+      this.renderSnapshot(this.store.getSnapshot());
+      new Notice(
+        `This board is read-only because ${this.describeReadOnlyReason()}. Your change was not saved.`
+      );
+      return;
+    }
+
     this.saveQueue.request(this.store.toMarkdown());
   }
 
+  private toggleCardChecked(columnId: string, cardId: string): void {
+    if (!this.store) {
+      return;
+    }
+
+    this.store.updateCard(columnId, cardId, (card) => ({
+      ...card,
+      checked: !card.checked,
+    }));
+    this.schedulePersist();
+  }
+
+  private renderCardMeta(cardEl: HTMLElement, card: Card, today: string): void {
+    cardEl.toggleClass('is-complete', card.checked);
+
+    const due = card.dueDate ? describeDueDate(card.dueDate, today) : null;
+    const fieldEntries = Object.entries(card.fields);
+    const backlinks = this.cardBacklinks.get(card.id);
+
+    if (!due && fieldEntries.length === 0 && !backlinks) {
+      return;
+    }
+
+    const metaEl = cardEl.createDiv({ cls: 'kanban-next-card-meta' });
+
+    if (due && card.dueDate) {
+      if (!card.checked) {
+        cardEl.toggleClass('is-overdue', due.state === 'overdue');
+        cardEl.toggleClass('is-due-today', due.state === 'today');
+      }
+
+      const chip = this.createChip(metaEl, 'calendar', due.label, `kanban-next-due-chip is-${due.state}`);
+      chip.setAttr('title', `Due ${card.dueDate}`);
+    }
+
+    fieldEntries.forEach(([key, value]) => {
+      const normalizedKey = normalizeFieldKey(key);
+      const icon = CARD_FIELD_ICONS[normalizedKey];
+      const chip = this.createChip(
+        metaEl,
+        icon || null,
+        icon ? value : `${key}: ${value}`,
+        `kanban-next-field-chip kanban-next-field-chip--${normalizedKey.replace(/[^a-z0-9-]/g, '-')}`
+      );
+      chip.setAttr('title', `${key}:: ${value}`);
+
+      if (normalizedKey === 'priority') {
+        chip.dataset.priority = value.toLowerCase();
+      }
+    });
+
+    if (backlinks) {
+      const chip = this.createChip(metaEl, 'link', String(backlinks.count), 'kanban-next-backlink-chip');
+      const notes = backlinks.sourcePaths.length;
+      chip.setAttr(
+        'title',
+        `Linked ${backlinks.count} ${backlinks.count === 1 ? 'time' : 'times'} from ` +
+          `${notes} ${notes === 1 ? 'note' : 'notes'}: ${backlinks.sourcePaths.join(', ')}`
+      );
+    }
+  }
+
+  private createChip(
+    parent: HTMLElement,
+    icon: string | null,
+    label: string,
+    className: string
+  ): HTMLElement {
+    const chip = parent.createSpan({ cls: `kanban-next-chip ${className}` });
+    if (icon) {
+      const chipIcon = chip.createSpan({ cls: 'kanban-next-inline-icon' });
+      setIcon(chipIcon, icon);
+    }
+    chip.createSpan({ text: label });
+    return chip;
+  }
+
   private clearDropTargetStyles(): void {
     this.lanesEl?.removeClass('is-column-dragging');
     this.clearColumnDropIndicator();
     this.clearCardDropIndicator();
   }
 
-  private renderError(message: string): void {
+  private renderError(message: string, line: number | null = null): void {
     if (!this.rootEl) {
       return;
     }
@@ -2279,8 +5142,13 @@ export class KanbanView extends TextFileView {
 
     const panel = this.rootEl.createDiv({ cls: 'kanban-next-error' });
     panel.createEl('h3', { text: 'Kanban board could not be parsed' });
-    panel.createEl('p', { text: message });
+    panel.createEl('p', { text: line === null ? message : `Line ${line}: ${message}` });
 
+    if (line !== null) {
+      this.createButton(panel, `Go to line ${line}`, async () =>
+        this.plugin.openMarkdownAtLine(this.leaf, line)
+      );
+    }
     this.createButton(panel, 'Open as markdown', async () => this.plugin.setMarkdownView(this.leaf));
   }
 
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { parseColumnRules } from '../src/model/automation';
+import { createDefaultBoard } from '../src/model/boardTemplate';
+import { normalizeCard } from '../src/model/card';
+import { parseBoardMarkdown } from '../src/model/parse';
+import { serializeBoardMarkdown } from '../src/model/serialize';
+import { BoardStore } from '../src/state/BoardStore';
+
+function makeStore() {
+  return new BoardStore({
+    ...createDefaultBoard('Ops'),
+    columns: [
+      {
+        id: 'todo',
+        title: 'To Do',
+        wipLimit: null,
+        cards: [
+          normalizeCard({
+            id: 'task',
+            title: 'Ship it #blocked',
+            description: '',
+            checked: false,
+            dueDate: null,
+            fields: {},
+          }),
+        ],
+      },
+      {
+        id: 'doing',
+        title: 'Doing',
+        wipLimit: null,
+        rules: [{ type: 'set-due', days: 3 }, { type: 'add-tag', tag: '#active' }],
+        cards: [],
+      },
+      {
+        id: 'done',
+        title: 'Done',
+        wipLimit: null,
+        rules: [
+          { type: 'check' },
+          { type: 'remove-tag', tag: '#blocked' },
+          { type: 'stamp-completed' },
+          { type: 'archive-after', days: 7 },
+        ],
+        cards: [],
+      },
+    ],
+  });
+}
+
+describe('column automation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date(2026, 2, 10, 12) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses rules from frontmatter and writes them back', () => {
+    expect(
+      parseColumnRules(['check', { 'set-due': 2 }, { 'add-tag': 'Urgent' }, { 'set-due': 'soon' }, 'explode'])
+    ).toEqual([{ type: 'check' }, { type: 'set-due', days: 2 }, { type: 'add-tag', tag: '#urgent' }]);
+
+    const markdown = serializeBoardMarkdown(makeStore().getBoard());
+    expect(markdown).toContain('rules:\n      - check\n      - remove-tag: "#blocked"');
+
+    const reparsed = parseBoardMarkdown(markdown);
+    expect(reparsed.columns[2].rules).toHaveLength(4);
+    expect(reparsed.columns[0].rules).toBeUndefined();
+    expect(serializeBoardMarkdown(reparsed)).toBe(markdown);
+  });
+
+  it('runs the target column rules when a card enters it', () => {
+    const store = makeStore();
+    store.moveCard('todo', 'task', 'doing', 0);
+    expect(store.getCard('doing', 'task')).toMatchObject({
+      dueDate: '2026-03-13',
+      tags: ['#active', '#blocked'],
+    });
+
+    store.moveCard('doing', 'task', 'done', 0);
+    const done = store.getCard('done', 'task');
+    expect(done).toMatchObject({ checked: true, tags: ['#active'] });
+    expect(done?.fields).toEqual({ completed: '2026-03-10', 'auto-archive': '2026-03-17' });
+
+    store.moveCard('done', 'task', 'todo', 0);
+    expect(store.getCard('todo', 'task')?.fields).toEqual({ completed: '2026-03-10' });
+
+    const hotfix = normalizeCard({
+      id: 'hotfix',
+      title: 'Hotfix',
+      description: '',
+      checked: false,
+      dueDate: null,
+      fields: {},
+    });
+    const added = store.addCard('done', hotfix);
+    expect(added.checked).toBe(true);
+  });
+
+  it('archives cards once their auto-archive date arrives', () => {
+    const store = makeStore();
+    store.moveCard('todo', 'task', 'done', 0);
+
+    expect(store.archiveExpiredCards('2026-03-16')).toBe(0);
+    expect(store.archiveExpiredCards('2026-03-17')).toBe(1);
+    expect(store.getBoard().archive.map((card) => card.id)).toEqual(['task']);
+    expect(store.getBoard().archive[0].fields).toEqual({ completed: '2026-03-10' });
+  });
+
+  it('archives expired cards on load without adding an undo step', () => {
+    const store = makeStore();
+    store.moveCard('todo', 'task', 'done', 0);
+    store.setBoard(store.getBoard());
+
+    expect(store.archiveExpiredCards('2026-03-17', { recordHistory: false })).toBe(1);
+    expect(store.getBoard().archive).toHaveLength(1);
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('repeats a recurring card without the changes made by entry rules', () => {
+    const store = makeStore();
+    store.updateCard('todo', 'task', (card) => ({
+      ...card,
+      dueDate: '2026-03-10',
+      fields: { repeat: 'daily' },
+    }));
+    store.moveCard('todo', 'task', 'done', 0);
+
+    const [fresh] = store.getBoard().columns[0].cards;
+    expect(fresh).toMatchObject({ title: 'Ship it #blocked', checked: false, dueDate: '2026-03-11' });
+    expect(fresh.fields).toEqual({ repeat: 'daily' });
+    expect(store.getCard('done', 'task')?.fields).toMatchObject({ completed: '2026-03-10' });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { collectCardBacklinks, describeBacklinkWarning, parseBlockLink } from '../src/model/backlinks';
+
+const resolve = (linkpath: string) =>
+  linkpath === 'Boards/Plan' || linkpath === 'Plan' ? 'Boards/Plan.md' : null;
+
+describe('card backlinks', () => {
+  it('parses block links with and without a linkpath', () => {
+    expect(parseBlockLink('Boards/Plan#^card-1')).toEqual({ linkpath: 'Boards/Plan', blockId: 'card-1' });
+    expect(parseBlockLink('#^card-2')).toEqual({ linkpath: '', blockId: 'card-2' });
+    expect(parseBlockLink('Plan#Heading')).toBeNull();
+    expect(parseBlockLink('Plan#^')).toBeNull();
+  });
+
+  it('counts links to cards of one board per card and source note', () => {
+    const backlinks = collectCardBacklinks(
+      [
+        { path: 'Notes/A.md', links: ['Boards/Plan#^card-1', 'Plan#^card-1', 'Other#^card-1'] },
+        { path: 'Notes/B.md', links: ['Plan#^card-2', 'Plan#Heading'] },
+        { path: 'Boards/Plan.md', links: ['#^card-2'] },
+      ],
+      'Boards/Plan.md',
+      resolve
+    );
+
+    expect(backlinks.get('card-1')).toEqual({ count: 2, sourcePaths: ['Notes/A.md'] });
+    expect(backlinks.get('card-2')).toEqual({ count: 2, sourcePaths: ['Notes/B.md', 'Boards/Plan.md'] });
+    expect(describeBacklinkWarning(backlinks, ['card-1'])).toBe(
+      '2 links point to this card from 1 note and will break.'
+    );
+    expect(describeBacklinkWarning(backlinks, ['card-3'])).toBe('');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import { BoardSearchFilter } from '../src/model/types';
+import { BoardIndex } from '../src/state/BoardIndex';
+
+function board(title: string, body: string): string {
+  return `---
+kanban: true
+kanbanVersion: 1
+boardTitle: ${title}
+columns:
+  - id: todo
+    title: To Do
+  - id: done
+    title: Done
+---
+
+${body}
+`;
+}
+
+const roadmap = board(
+  'Roadmap',
+  `## [todo] To Do
+
+- [ ] [r-1] Ship search #feature
+  due:: 2026-03-09
+- [ ] [r-2] Write docs #docs
+
+## [done] Done
+
+- [x] [r-3] Fix login #bug`
+);
+
+const chores = board(
+  'Chores',
+  `## [todo] To Do
+
+- [ ] [c-1] Fix sink #bug
+  due:: 2026-03-12
+
+## [done] Done
+`
+);
+
+const filter = (overrides: Partial<BoardSearchFilter>): BoardSearchFilter => ({
+  query: '',
+  tag: '',
+  status: 'any',
+  due: 'any',
+  ...overrides,
+});
+
+const ids = (index: BoardIndex, overrides: Partial<BoardSearchFilter>) =>
+  index
+    .search(filter(overrides), '2026-03-10')
+    .flatMap((result) => result.columns.flatMap((column) => column.cards.map((card) => card.id)));
+
+describe('BoardIndex', () => {
+  it('searches all indexed boards grouped by board and column', () => {
+    const index = new BoardIndex();
+    index.update('Boards/Roadmap.md', roadmap);
+    index.update('Chores.md', chores);
+
+    const results = index.search(filter({ tag: '#bug' }), '2026-03-10');
+    const groups = results.map((result) => [
+      result.boardTitle,
+      result.columns.map((column) => column.columnTitle),
+    ]);
+    expect(groups).toEqual([
+      ['Chores', ['To Do']],
+      ['Roadmap', ['Done']],
+    ]);
+
+    expect(ids(index, { query: 'fix' })).toEqual(['c-1', 'r-3']);
+    expect(ids(index, { status: 'open', query: 'column:todo' })).toEqual(['c-1', 'r-1', 'r-2']);
+    expect(ids(index, { due: 'overdue' })).toEqual(['r-1']);
+    expect(ids(index, { due: 'week' })).toEqual(['c-1']);
+    expect(ids(index, { due: 'none', status: 'done' })).toEqual(['r-3']);
+  });
+
+  it('updates incrementally on change, rename and delete', () => {
+    const index = new BoardIndex();
+    let changes = 0;
+    index.subscribe(() => {
+      changes += 1;
+    });
+
+    index.update('Roadmap.md', roadmap);
+    index.rename('Roadmap.md', 'Archive/Roadmap.md');
+    const paths = index.search(filter({}), '2026-03-10').map((result) => result.path);
+    expect(paths).toEqual(['Archive/Roadmap.md']);
+
+    expect(index.update('Archive/Roadmap.md', '# Not a board any more')).toBe(false);
+    expect(index.size).toBe(0);
+
+    index.update('Chores.md', chores);
+    index.remove('Chores.md');
+    expect(index.has('Chores.md')).toBe(false);
+    expect(changes).toBe(5);
+  });
+});
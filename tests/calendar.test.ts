@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildCalendarGrid, shiftCalendarAnchor, startOfWeek } from '../src/model/calendar';
+import { normalizeCard } from '../src/model/card';
+import { Column } from '../src/model/types';
+
+function card(id: string, dueDate: string | null) {
+  return normalizeCard({ id, title: id, description: '', checked: false, dueDate, fields: {} });
+}
+
+const columns: Column[] = [
+  {
+    id: 'todo',
+    title: 'To Do',
+    wipLimit: null,
+    cards: [card('a', '2026-03-02'), card('b', null), card('c', '2026-03-31')],
+  },
+  { id: 'done', title: 'Done', wipLimit: null, cards: [card('d', '2026-03-02'), card('e', '2026-02-30')] },
+];
+
+describe('calendar grid', () => {
+  it('computes week starts and shifts anchors by month or week', () => {
+    expect(startOfWeek('2026-03-04')).toBe('2026-03-02');
+    expect(startOfWeek('2026-03-04', 0)).toBe('2026-03-01');
+    expect(shiftCalendarAnchor('2026-01-31', 'month', 1)).toBe('2026-02-01');
+    expect(shiftCalendarAnchor('2026-01-15', 'month', -1)).toBe('2025-12-01');
+    expect(shiftCalendarAnchor('2026-03-04', 'week', 1)).toBe('2026-03-11');
+  });
+
+  it('places cards on their due day in a month grid and collects unscheduled cards', () => {
+    const grid = buildCalendarGrid(columns, '2026-03-15', 'month');
+    const days = grid.weeks.flat();
+
+    expect(grid.weeks).toHaveLength(6);
+    expect(days[0]).toMatchObject({ date: '2026-02-23', inRange: false });
+    expect(days[days.length - 1]?.date).toBe('2026-04-05');
+    expect(days.find((day) => day.date === '2026-03-02')?.entries.map((entry) => entry.card.id)).toEqual([
+      'a',
+      'd',
+    ]);
+    expect(grid.unscheduled.map((entry) => [entry.card.id, entry.columnId])).toEqual([
+      ['b', 'todo'],
+      ['e', 'done'],
+    ]);
+  });
+
+  it('builds a single week for the week scale', () => {
+    const grid = buildCalendarGrid(columns, '2026-03-31', 'week');
+
+    expect(grid.weeks).toHaveLength(1);
+    expect(grid.weeks[0]?.map((day) => day.date)).toEqual([
+      '2026-03-30',
+      '2026-03-31',
+      '2026-04-01',
+      '2026-04-02',
+      '2026-04-03',
+      '2026-04-04',
+      '2026-04-05',
+    ]);
+    expect(grid.weeks[0]?.[1]?.entries.map((entry) => entry.card.id)).toEqual(['c']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyDiagnosticFix } from '../src/model/diagnostics';
+import { BoardParseError, parseBoardDocument } from '../src/model/parse';
+
+const board = `---
+kanban: true
+kanbanVersion: 1
+boardTitle: Diagnostics
+columns:
+  # Lanes in display order
+  - id: todo
+    title: To Do
+  - id: ghost
+    title: Ghost
+    rules:
+      - check
+---
+
+## [todo] To Do
+
+- [ ] [card-1] First
+  due:: next week
+    stray
+- [ ] [card-1] Second
+  ^card-1
+
+## [todo] Copy
+
+  orphan line
+`;
+
+describe('board diagnostics', () => {
+  it('reports problems with their line and column', () => {
+    const { diagnostics } = parseBoardDocument(board);
+
+    expect(diagnostics.map(({ kind, line, column }) => ({ kind, line, column }))).toEqual([
+      { kind: 'missing-column-section', line: 9, column: 9 },
+      { kind: 'invalid-due-date', line: 18, column: 3 },
+      { kind: 'duplicate-card-id', line: 20, column: 8 },
+      { kind: 'duplicate-column-id', line: 23, column: 5 },
+      { kind: 'orphaned-line', line: 25, column: 1 },
+    ]);
+  });
+
+  it('applies one-click fixes to the markdown', () => {
+    const { diagnostics } = parseBoardDocument(board);
+    let content = board;
+    for (const diagnostic of [...diagnostics].reverse()) {
+      if (diagnostic.fix) {
+        content = applyDiagnosticFix(content, diagnostic.fix);
+      }
+    }
+
+    const fixed = parseBoardDocument(content);
+    expect(fixed.diagnostics.map((diagnostic) => diagnostic.kind)).toEqual([
+      'invalid-due-date',
+      'duplicate-card-id',
+      'orphaned-line',
+    ]);
+    expect(content).not.toContain('ghost');
+    expect(content).toContain('columns:\n  # Lanes in display order\n  - id: todo\n    title: To Do\n---');
+    expect(fixed.board.columns.map((column) => column.title)).toEqual(['To Do', 'Copy']);
+  });
+
+  it('reports the line of fatal YAML errors', () => {
+    let caught: unknown = null;
+    try {
+      parseBoardDocument('---\nkanban: true\nboardTitle: "open\n---\n');
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(BoardParseError);
+    expect((caught as BoardParseError).line).toBe(3);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { addDays, daysBetween, describeDueDate } from '../src/model/dueDate';
+
+describe('dueDate', () => {
+  it('describes upcoming, today and overdue dates', () => {
+    expect(describeDueDate('2026-03-04', '2026-03-01')).toEqual({
+      label: 'in 3 days',
+      state: 'upcoming',
+      days: 3,
+    });
+    expect(describeDueDate('2026-03-02', '2026-03-01')?.label).toBe('due tomorrow');
+    expect(describeDueDate('2026-03-01', '2026-03-01')?.state).toBe('today');
+    expect(describeDueDate('2026-02-27', '2026-03-01')).toEqual({
+      label: 'overdue 2d',
+      state: 'overdue',
+      days: -2,
+    });
+  });
+
+  it('rejects impossible calendar dates', () => {
+    expect(describeDueDate('2026-02-30', '2026-03-01')).toBeNull();
+    expect(daysBetween('2026-13-01', '2026-03-01')).toBeNull();
+  });
+
+  it('adds days across month and year boundaries', () => {
+    expect(addDays('2026-12-30', 3)).toBe('2027-01-02');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+  });
+});
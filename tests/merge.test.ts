@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeCard } from '../src/model/card';
+import { createDefaultBoard } from '../src/model/boardTemplate';
+import { mergeBoards, mergeOrder } from '../src/model/merge';
+import { BoardDocument, Card } from '../src/model/types';
+
+function makeCard(id: string, title: string, overrides: Partial<Card> = {}) {
+  return normalizeCard({
+    id,
+    title,
+    description: '',
+    checked: false,
+    dueDate: null,
+    fields: {},
+    ...overrides,
+  });
+}
+
+function makeBoard(columns: Record<string, Card[]>, archive: Card[] = []): BoardDocument {
+  return {
+    ...createDefaultBoard('Board'),
+    columns: Object.entries(columns).map(([id, cards]) => ({
+      id,
+      title: id.toUpperCase(),
+      wipLimit: null,
+      sortMode: 'manual',
+      cards,
+    })),
+    archive,
+  };
+}
+
+function titles(board: BoardDocument): Record<string, string[]> {
+  return Object.fromEntries(
+    board.columns.map((column) => [column.id, column.cards.map((card) => card.title)])
+  );
+}
+
+describe('mergeBoards', () => {
+  const a = makeCard('a', 'A');
+  const b = makeCard('b', 'B');
+  const c = makeCard('c', 'C');
+  const base = makeBoard({ todo: [a, b], done: [c] });
+
+  it('combines non-conflicting card edits, moves and additions from both sides', () => {
+    const local = makeBoard({ todo: [{ ...a, checked: true }, b, makeCard('l', 'Local new')], done: [c] });
+    const incoming = makeBoard({ todo: [makeCard('a', 'A', { dueDate: '2026-05-01' })], done: [b, c] });
+
+    const result = mergeBoards(base, local, incoming);
+
+    expect(result.conflicts).toEqual([]);
+    expect(titles(result.board)).toEqual({ todo: ['A', 'Local new'], done: ['B', 'C'] });
+    expect(result.board.columns[0].cards[0]).toMatchObject({ checked: true, dueDate: '2026-05-01' });
+  });
+
+  it('applies deletions and archiving from either side when the other side left the card alone', () => {
+    const local = makeBoard({ todo: [a], done: [c] });
+    const incoming = makeBoard({ todo: [a, b], done: [] }, [c]);
+
+    const result = mergeBoards(base, local, incoming);
+
+    expect(result.conflicts).toEqual([]);
+    expect(titles(result.board)).toEqual({ todo: ['A'], done: [] });
+    expect(result.board.archive.map((card) => card.title)).toEqual(['C']);
+  });
+
+  it('reports conflicting card edits and honours the chosen side', () => {
+    const local = makeBoard({ todo: [makeCard('a', 'A local'), b], done: [c] });
+    const incoming = makeBoard({ todo: [makeCard('a', 'A disk'), b], done: [c] });
+
+    const result = mergeBoards(base, local, incoming);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ id: 'card:a', kind: 'card', label: 'Card "A local"' });
+    expect(titles(result.board).todo).toEqual(['A local', 'B']);
+
+    const resolved = mergeBoards(base, local, incoming, { 'card:a': 'incoming' });
+    expect(titles(resolved.board).todo).toEqual(['A disk', 'B']);
+  });
+
+  it('treats deleting a card that the other side edited as a conflict', () => {
+    const local = makeBoard({ todo: [a], done: [c] });
+    const incoming = makeBoard({ todo: [a, makeCard('b', 'B edited')], done: [c] });
+
+    const result = mergeBoards(base, local, incoming);
+
+    expect(result.conflicts.map((conflict) => conflict.id)).toEqual(['card:b']);
+    expect(result.conflicts[0].local).toBe('Deleted');
+    expect(titles(result.board).todo).toEqual(['A']);
+    expect(titles(mergeBoards(base, local, incoming, { 'card:b': 'incoming' }).board).todo).toEqual([
+      'A',
+      'B edited',
+    ]);
+  });
+
+  it('merges column and board settings and drops cards of a deleted column', () => {
+    const local = { ...makeBoard({ todo: [a, b] }), boardTitle: 'Renamed' };
+    const incoming = makeBoard({ todo: [a, b], done: [c, makeCard('d', 'D')] });
+    incoming.columns[0].wipLimit = 3;
+
+    const result = mergeBoards(base, local, incoming);
+
+    expect(result.conflicts.map((conflict) => conflict.id)).toEqual(['column:done']);
+    expect(result.board.boardTitle).toBe('Renamed');
+    expect(result.board.columns.map((column) => [column.id, column.wipLimit])).toEqual([['todo', 3]]);
+    expect(result.board.columns[0].cards.map((card) => card.title)).toEqual(['A', 'B']);
+  });
+});
+
+describe('mergeOrder', () => {
+  it('keeps the reordered side and slots in ids only the other side knows about', () => {
+    const keep = new Set(['a', 'b', 'c', 'x', 'y']);
+
+    expect(mergeOrder(['a', 'b', 'c'], ['c', 'b', 'a', 'x'], ['a', 'y', 'b', 'c'], keep)).toEqual([
+      'c',
+      'b',
+      'a',
+      'y',
+      'x',
+    ]);
+    expect(mergeOrder(['a', 'b', 'c'], ['a', 'b', 'c', 'x'], ['b', 'a', 'y', 'c'], keep)).toEqual([
+      'b',
+      'a',
+      'y',
+      'c',
+      'x',
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { BoardMigration, BoardMigrationError, migrateBoardDocument } from '../src/model/migrations';
+import { parseBoardDocument } from '../src/model/parse';
+import { serializeBoardMarkdown } from '../src/model/serialize';
+
+const legacyBoard = `---
+kanban: true
+boardTitle: Legacy
+columns:
+  - id: todo
+    title: To Do
+---
+
+## [todo] To Do
+
+- [ ] [card-1] Old card
+`;
+
+describe('board format migrations', () => {
+  it('upgrades unversioned boards and stamps the current version on save', () => {
+    const { board, format } = parseBoardDocument(legacyBoard);
+
+    expect(format.sourceVersion).toBe(0);
+    expect(format.migrations).toHaveLength(1);
+    expect(format.readOnly).toBe(false);
+    expect(board.columns[0].cards[0].title).toBe('Old card');
+    expect(serializeBoardMarkdown(board)).toContain('kanbanVersion: 1');
+
+    const upgraded = parseBoardDocument(serializeBoardMarkdown(board));
+    expect(upgraded.format.sourceVersion).toBe(1);
+    expect(upgraded.format.migrations).toEqual([]);
+  });
+
+  it('applies registered migrations step by step', () => {
+    const migrations: BoardMigration[] = [
+      {
+        from: 1,
+        description: 'Rename title',
+        migrate: (document) => ({
+          ...document,
+          frontmatter: { ...document.frontmatter, boardTitle: document.frontmatter.title },
+        }),
+      },
+      {
+        from: 2,
+        description: 'Uppercase title',
+        migrate: (document) => ({
+          ...document,
+          frontmatter: {
+            ...document.frontmatter,
+            boardTitle: String(document.frontmatter.boardTitle).toUpperCase(),
+          },
+        }),
+      },
+    ];
+
+    const result = migrateBoardDocument(
+      { frontmatter: { kanbanVersion: 1, title: 'Plan' }, body: '' },
+      migrations,
+      3
+    );
+
+    expect(result.sourceVersion).toBe(1);
+    expect(result.applied.map((migration) => migration.description)).toEqual([
+      'Rename title',
+      'Uppercase title',
+    ]);
+    expect(result.document.frontmatter).toMatchObject({ kanbanVersion: 3, boardTitle: 'PLAN' });
+    expect(() =>
+      migrateBoardDocument({ frontmatter: { kanbanVersion: 0 }, body: '' }, migrations, 3)
+    ).toThrow(BoardMigrationError);
+  });
+
+  it('marks boards from a newer format as read-only without migrating them', () => {
+    const future = legacyBoard.replace('kanban: true', 'kanban: true\nkanbanVersion: 99');
+    const { board, format } = parseBoardDocument(future);
+
+    expect(format).toEqual({ sourceVersion: 99, migrations: [], readOnly: true });
+    expect(board.boardTitle).toBe('Legacy');
+  });
+
+  it('opens boards with a malformed kanbanVersion read-only instead of upgrading them', () => {
+    const malformed = legacyBoard.replace('kanban: true', 'kanban: true\nkanbanVersion: "2.x"');
+    const { format, diagnostics } = parseBoardDocument(malformed);
+
+    expect(format).toEqual({ sourceVersion: null, migrations: [], readOnly: true });
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: 'invalid-format-version', severity: 'error', line: 3 }),
+    ]);
+
+    const withVersion = (value: string) =>
+      parseBoardDocument(legacyBoard.replace('kanban: true', `kanban: true\nkanbanVersion: ${value}`)).format;
+    expect(withVersion('foo')).toMatchObject({ sourceVersion: null, readOnly: true });
+    expect(withVersion("'1'")).toMatchObject({ sourceVersion: 1, readOnly: false });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertObsidianKanbanMarkdown, isObsidianKanbanMarkdown } from '../src/model/obsidianKanban';
+import { parseBoardMarkdown } from '../src/model/parse';
+import { serializeBoardMarkdown } from '../src/model/serialize';
+
+const source = `---
+
+kanban-plugin: basic
+tags: [planning]
+aliases:
+  - Roadmap board
+
+---
+
+Board for the Q2 roadmap.
+See [[Planning]].
+
+## Backlog
+
+- [ ] Write docs @{2026-03-01} #docs
+- [ ] Plan sprint<br>with the whole team @@{10:30}
+	Bring the roadmap
+- [ ] Linked card ^abc123
+
+## Doing (2)
+
+- [ ] Build importer @[[2026-02-20]]
+
+## Done
+
+**Complete**
+- [x] Ship v1
+
+***
+
+## Archive
+
+- [x] Old task
+
+%% kanban:settings
+\`\`\`
+{"kanban-plugin":"basic","lane-width":300}
+\`\`\`
+%%
+`;
+
+describe('obsidian-kanban importer', () => {
+  it('detects obsidian-kanban boards', () => {
+    expect(isObsidianKanbanMarkdown(source)).toBe(true);
+    expect(isObsidianKanbanMarkdown('---\nkanban: true\n---\n')).toBe(false);
+    expect(isObsidianKanbanMarkdown('# Notes')).toBe(false);
+  });
+
+  it('converts lanes, cards, dates, WIP limits and the archive', () => {
+    const board = convertObsidianKanbanMarkdown(source, 'Imported');
+
+    expect(board.boardTitle).toBe('Imported');
+    expect(board.columns.map((column) => column.title)).toEqual(['Backlog', 'Doing', 'Done']);
+    expect(board.columns[1].wipLimit).toBe(2);
+
+    const [docs, plan, linked] = board.columns[0].cards;
+    expect(docs.title).toBe('Write docs #docs');
+    expect(docs.dueDate).toBe('2026-03-01');
+    expect(plan.title).toBe('Plan sprint');
+    expect(plan.description).toBe('with the whole team\nBring the roadmap');
+    expect(plan.fields).toEqual({ time: '10:30' });
+    expect(linked.id).toBe('abc123');
+    expect(linked.title).toBe('Linked card');
+
+    expect(board.columns[1].cards[0].dueDate).toBe('2026-02-20');
+    expect(board.columns[2].cards[0].checked).toBe(true);
+    expect(board.archive.map((card) => card.title)).toEqual(['Old task']);
+  });
+
+  it('keeps other frontmatter properties and text before the first lane', () => {
+    const board = convertObsidianKanbanMarkdown(source, 'Imported');
+
+    expect(board.extraFrontmatter).toEqual({ tags: ['planning'], aliases: ['Roadmap board'] });
+    expect(board.preamble).toBe('Board for the Q2 roadmap.\nSee [[Planning]].');
+
+    const reparsed = parseBoardMarkdown(serializeBoardMarkdown(board));
+    expect(reparsed.extraFrontmatter).toEqual(board.extraFrontmatter);
+    expect(reparsed.preamble).toBe(board.preamble);
+  });
+
+  it('produces a board that round-trips through the gx-kanban format', () => {
+    const markdown = serializeBoardMarkdown(convertObsidianKanbanMarkdown(source, 'Imported'));
+    const reparsed = parseBoardMarkdown(markdown);
+
+    expect(markdown).toContain('due:: 2026-03-01');
+    expect(markdown).not.toContain('kanban:settings');
+    expect(reparsed.columns).toHaveLength(3);
+    expect(reparsed.archive).toHaveLength(1);
+    expect(serializeBoardMarkdown(reparsed)).toBe(markdown);
+  });
+});
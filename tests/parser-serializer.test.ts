@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { parseBoardMarkdown } from '../src/model/parse';
+import { parseBoardDocument, parseBoardMarkdown } from '../src/model/parse';
 import { serializeBoardMarkdown } from '../src/model/serialize';
 
 const fixture = `---
@@ -135,4 +135,248 @@ columns:
     const board = parseBoardMarkdown(raw);
     expect(board.columns[0].cards[0].description).toBe('Keep this line');
   });
+
+  it('reassigns colliding card ids deterministically across columns and the archive', () => {
+    const raw = `---
+kanban: true
+kanbanVersion: 1
+boardTitle: Collisions
+columns:
+  - id: todo
+    title: To Do
+  - id: done
+    title: Done
+---
+
+## [todo] To Do
+
+- [ ] [card-1] First
+  ^card-1
+- [ ] [card-1] Pasted copy
+  ^card-1
+
+## [done] Done
+
+- [x] [card-1-2] Already taken
+- [x] [card-1] Another copy
+
+%% kanban-next:archive:start %%
+- [x] [card-1] Archived copy
+%% kanban-next:archive:end %%
+`;
+
+    const { board, idRepairs } = parseBoardDocument(raw);
+    const ids = [...board.columns.flatMap((column) => column.cards), ...board.archive].map((card) => card.id);
+
+    expect(ids).toEqual(['card-1', 'card-1-3', 'card-1-2', 'card-1-4', 'card-1-5']);
+    expect(idRepairs.map((repair) => [repair.previousId, repair.id, repair.line])).toEqual([
+      ['card-1', 'card-1-3', 16],
+      ['card-1', 'card-1-4', 22],
+      ['card-1', 'card-1-5', 25],
+    ]);
+    expect(parseBoardDocument(raw).board).toEqual(board);
+
+    const markdown = serializeBoardMarkdown(board);
+    expect(markdown).toContain('- [ ] [card-1-3] Pasted copy\n  ^card-1-3');
+    expect(markdown).toContain('- [x] [card-1-2] Already taken');
+    expect(parseBoardDocument(markdown).idRepairs).toEqual([]);
+  });
+
+  it('parses inline fields and writes them back in a stable order', () => {
+    const raw = `---
+kanban: true
+kanbanVersion: 1
+boardTitle: Fields
+density: normal
+columns:
+  - id: lane
+    title: Lane
+    wipLimit: null
+---
+
+## [lane] Lane
+
+- [ ] [card-1] Task
+  Sprint:: 12
+  estimate:: 3h
+  Keep this line
+  Assignee:: @sam
+  priority:: high
+  due:: 2026-02-20
+  start:: 2026-02-10
+`;
+
+    const board = parseBoardMarkdown(raw);
+    const card = board.columns[0].cards[0];
+
+    expect(card.description).toBe('Sprint:: 12\nKeep this line');
+    expect(card.startDate).toBe('2026-02-10');
+    expect(card.dueDate).toBe('2026-02-20');
+    expect(card.fields).toEqual({
+      Assignee: '@sam',
+      priority: 'high',
+      estimate: '3h',
+    });
+    expect(Object.keys(card.fields)).toEqual(['Assignee', 'priority', 'estimate']);
+
+    const serialized = serializeBoardMarkdown(board);
+    expect(serialized).toContain(
+      '  Sprint:: 12\n  Keep this line\n  Assignee:: @sam\n  priority:: high\n  estimate:: 3h\n' +
+        '  start:: 2026-02-10\n  due:: 2026-02-20'
+    );
+    expect(serializeBoardMarkdown(parseBoardMarkdown(serialized))).toBe(serialized);
+  });
+
+  it('leaves repeated and empty field lines in the description', () => {
+    const raw = `---
+kanban: true
+kanbanVersion: 1
+boardTitle: Fields
+density: normal
+columns:
+  - id: lane
+    title: Lane
+    wipLimit: null
+---
+
+## [lane] Lane
+
+- [ ] [card-1] Task
+  assignee:: @sam
+  assignee:: @alex
+  notes::
+`;
+
+    const card = parseBoardMarkdown(raw).columns[0].cards[0];
+    expect(card.fields).toEqual({ assignee: '@sam' });
+    expect(card.description).toBe('assignee:: @alex\nnotes::');
+  });
+
+  it('keeps custom Dataview lines where they were written', () => {
+    const raw = `---
+kanban: true
+kanbanVersion: 1
+boardTitle: Fields
+density: normal
+columns:
+  - id: lane
+    title: Lane
+    wipLimit: null
+---
+
+## [lane] Lane
+
+- [ ] [card-1] Task
+  ^card-1
+  Intro line
+  ReviewedBy:: [[Sam]]
+  Closing line
+  Priority:: high
+  Sprint:: 12
+  due:: 2026-02-20
+`;
+
+    const board = parseBoardMarkdown(raw);
+    const card = board.columns[0].cards[0];
+    expect(card.description).toBe('Intro line\nReviewedBy:: [[Sam]]\nClosing line');
+    expect(card.fields).toEqual({ Priority: 'high', Sprint: '12' });
+    expect(serializeBoardMarkdown(board)).toBe(raw);
+  });
+
+  it('round-trips the swimlane grouping in frontmatter', () => {
+    const raw = fixture.replace('density: compact\n', 'density: compact\nswimlanes: assignee\n');
+    const board = parseBoardMarkdown(raw);
+
+    expect(board.swimlanes).toBe('assignee');
+    expect(serializeBoardMarkdown(board)).toContain('density: compact\nswimlanes: assignee\n');
+    expect(parseBoardMarkdown(fixture).swimlanes).toBe('none');
+    expect(serializeBoardMarkdown(parseBoardMarkdown(fixture))).not.toContain('swimlanes:');
+  });
+
+  it('round-trips the board layout in frontmatter', () => {
+    const withLayout = (layout: string) =>
+      fixture.replace('density: compact\n', `density: compact\nlayout: ${layout}\n`);
+    const board = parseBoardMarkdown(withLayout('calendar'));
+
+    expect(board.layout).toBe('calendar');
+    expect(serializeBoardMarkdown(board)).toContain('layout: calendar\n');
+    expect(parseBoardMarkdown(withLayout('grid')).layout).toBe('board');
+    expect(serializeBoardMarkdown(parseBoardMarkdown(fixture))).not.toContain('layout:');
+  });
+
+  it('round-trips saved filter views in frontmatter', () => {
+    const board = parseBoardMarkdown(fixture);
+    board.views = [{ name: 'Open bugs', query: 'tag:#bug is:open' }];
+
+    const reparsed = parseBoardMarkdown(serializeBoardMarkdown(board));
+    expect(reparsed.views).toEqual([{ name: 'Open bugs', query: 'tag:#bug is:open' }]);
+    expect(serializeBoardMarkdown(parseBoardMarkdown(fixture))).not.toContain('views:');
+  });
+
+  it('round-trips column sort modes in frontmatter', () => {
+    const board = parseBoardMarkdown(fixture);
+    expect(board.columns.every((column) => column.sortMode === 'manual')).toBe(true);
+
+    board.columns[0].sortMode = 'due';
+    const markdown = serializeBoardMarkdown(board);
+
+    expect(markdown.match(/sortMode: due/g)).toHaveLength(1);
+    expect(markdown).not.toContain('sortMode: manual');
+    expect(parseBoardMarkdown(markdown).columns[0].sortMode).toBe('due');
+  });
+
+  it('keeps unrecognized content in place across a round-trip', () => {
+    const raw = `---
+kanban: true
+kanbanVersion: 1
+boardTitle: Notes Board
+density: normal
+columns:
+  - id: todo
+    title: To Do
+    wipLimit: null
+cssclasses:
+  - wide
+---
+
+Intro paragraph kept above the columns.
+
+## [todo] To Do
+
+Lane notes before the first card.
+
+- [ ] [card-1] First
+  ^card-1
+
+A stray paragraph after the first card.
+- plain list item
+
+- [ ] [card-2] Second
+  ^card-2
+
+
+
+%% kanban-next:archive:start %%
+
+- [x] [card-3] Archived
+  ^card-3
+
+%% kanban-next:archive:end %%
+
+Trailing notes.
+`;
+
+    const board = parseBoardMarkdown(raw);
+    expect(board.preamble).toBe('Intro paragraph kept above the columns.');
+    expect(board.epilogue).toBe('Trailing notes.');
+    expect(board.extraFrontmatter).toEqual({ cssclasses: ['wide'] });
+    expect(board.columns[0].notes).toEqual([
+      { afterCardId: null, text: 'Lane notes before the first card.' },
+      { afterCardId: 'card-1', text: 'A stray paragraph after the first card.\n- plain list item' },
+    ]);
+
+    const markdown = serializeBoardMarkdown(board);
+    expect(markdown).toBe(raw);
+    expect(serializeBoardMarkdown(parseBoardMarkdown(markdown))).toBe(markdown);
+  });
 });
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeCard } from '../src/model/card';
+import { matchesQuery, parseQuery, QueryContext, QuerySyntaxError } from '../src/model/query';
+
+interface CardOptions {
+  checked?: boolean;
+  dueDate?: string | null;
+  fields?: Record<string, string>;
+}
+
+function makeCard(title: string, options: CardOptions = {}) {
+  return normalizeCard({
+    id: 'card-1',
+    title,
+    description: '',
+    checked: options.checked ?? false,
+    dueDate: options.dueDate ?? null,
+    fields: options.fields ?? {},
+  });
+}
+
+const context: QueryContext = { columnId: 'doing', columnTitle: 'In Progress', today: '2026-03-10' };
+
+function matches(query: string, card: ReturnType<typeof makeCard>): boolean {
+  const node = parseQuery(query);
+  return node === null || matchesQuery(node, card, context);
+}
+
+describe('query language', () => {
+  it('returns null for an empty query', () => {
+    expect(parseQuery('   ')).toBeNull();
+  });
+
+  it('treats adjacent terms as AND and supports OR, NOT and parentheses', () => {
+    const bug = makeCard('Fix login #bug');
+    const feature = makeCard('Signup page #feature');
+
+    expect(matches('login #bug', bug)).toBe(true);
+    expect(matches('login signup', bug)).toBe(false);
+    expect(matches('tag:#bug OR tag:#feature', feature)).toBe(true);
+    expect(matches('NOT tag:#bug', feature)).toBe(true);
+    expect(matches('-tag:#bug', bug)).toBe(false);
+    expect(matches('(tag:bug OR tag:feature) AND page', feature)).toBe(true);
+    expect(matches('(tag:bug OR tag:feature) AND page', bug)).toBe(false);
+  });
+
+  it('matches quoted phrases against card text', () => {
+    const card = makeCard('Fix the login form');
+
+    expect(matches('"login form"', card)).toBe(true);
+    expect(matches('"form login"', card)).toBe(false);
+  });
+
+  it('compares due dates including relative days', () => {
+    const card = makeCard('Ship', { dueDate: '2026-03-11' });
+
+    expect(matches('due:<2026-03-12', card)).toBe(true);
+    expect(matches('due:<=today', card)).toBe(false);
+    expect(matches('due:tomorrow', card)).toBe(true);
+    expect(matches('due:any', card)).toBe(true);
+    expect(matches('due:none', makeCard('No date'))).toBe(true);
+    expect(matches('due:>2026-01-01', makeCard('No date'))).toBe(false);
+  });
+
+  it('filters by status, column and fields', () => {
+    const overdue = makeCard('Late', { dueDate: '2026-03-01', fields: { assignee: '@sam' } });
+    const done = makeCard('Finished', { checked: true, dueDate: '2026-03-01' });
+
+    expect(matches('is:overdue', overdue)).toBe(true);
+    expect(matches('is:overdue', done)).toBe(false);
+    expect(matches('is:done', done)).toBe(true);
+    expect(matches('is:open', overdue)).toBe(true);
+    expect(matches('column:doing', overdue)).toBe(true);
+    expect(matches('col:"in progress"', overdue)).toBe(true);
+    expect(matches('assignee:@SAM', overdue)).toBe(true);
+    expect(matches('has:assignee', done)).toBe(false);
+    expect(matches('has:due', done)).toBe(true);
+  });
+
+  it('reports syntax errors with a position', () => {
+    const cases = ['(tag:bug', 'tag:bug)', 'due:someday', 'is:maybe', 'tag:', 'bug OR', 'NOT', '"open'];
+
+    cases.forEach((query) => {
+      expect(() => parseQuery(query), query).toThrow(QuerySyntaxError);
+    });
+
+    expect(() => parseQuery('bug AND (feature')).toThrow(
+      expect.objectContaining({ position: 8, message: 'Missing ")" for "(" at position 9.' })
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+
+import { createDefaultBoard } from '../src/model/boardTemplate';
+import { normalizeCard } from '../src/model/card';
+import { applyRecurrence, nextOccurrence, parseRecurrence } from '../src/model/recurrence';
+import { BoardStore } from '../src/state/BoardStore';
+
+function makeChore(repeat: string, dueDate: string | null, startDate: string | null = null) {
+  return normalizeCard({
+    id: 'chore',
+    title: 'Water plants',
+    description: '',
+    checked: false,
+    startDate,
+    dueDate,
+    fields: { repeat },
+  });
+}
+
+function makeStore(repeat: string, dueDate: string | null, startDate: string | null = null) {
+  return (recurringCompletion: 'keep' | 'archive' = 'keep') =>
+    new BoardStore(
+      {
+        ...createDefaultBoard('Ops'),
+        columns: [
+          { id: 'todo', title: 'To Do', wipLimit: null, cards: [makeChore(repeat, dueDate, startDate)] },
+          { id: 'done', title: 'Done', wipLimit: null, cards: [] },
+        ],
+      },
+      { recurringCompletion }
+    );
+}
+
+describe('recurrence rules', () => {
+  it('parses interval, weekday and month-day rules', () => {
+    expect(parseRecurrence('every week')).toEqual({
+      interval: 1,
+      unit: 'week',
+      weekdays: [],
+      monthDay: null,
+    });
+    expect(parseRecurrence('Every 2 weeks on Mon')).toEqual({
+      interval: 2,
+      unit: 'week',
+      weekdays: [1],
+      monthDay: null,
+    });
+    expect(parseRecurrence('weekly on fri, tuesday')?.weekdays).toEqual([2, 5]);
+    expect(parseRecurrence('monthly on 1')?.monthDay).toBe(1);
+    expect(parseRecurrence('every 3 days')?.interval).toBe(3);
+    expect(parseRecurrence('yearly')?.unit).toBe('year');
+
+    expect(parseRecurrence('every 0 days')).toBeNull();
+    expect(parseRecurrence('every week on someday')).toBeNull();
+    expect(parseRecurrence('monthly on 32')).toBeNull();
+    expect(parseRecurrence('every day on mon')).toBeNull();
+    expect(parseRecurrence('sometimes')).toBeNull();
+  });
+
+  it('computes the next occurrence after a date', () => {
+    const next = (rule: string, from: string) => nextOccurrence(parseRecurrence(rule)!, from);
+
+    expect(next('every day', '2026-02-28')).toBe('2026-03-01');
+    expect(next('every week', '2026-03-04')).toBe('2026-03-11');
+    expect(next('weekly on mon, thu', '2026-03-03')).toBe('2026-03-05');
+    expect(next('every 2 weeks on mon', '2026-03-02')).toBe('2026-03-16');
+    expect(next('every week on sun', '2026-03-08')).toBe('2026-03-15');
+    expect(next('monthly on 1', '2026-03-01')).toBe('2026-04-01');
+    expect(next('monthly on 20', '2026-03-15')).toBe('2026-03-20');
+    expect(next('every month', '2026-01-31')).toBe('2026-02-28');
+    expect(next('yearly', '2028-02-29')).toBe('2029-02-28');
+  });
+});
+
+describe('recurring cards', () => {
+  it('inserts the next instance when a card is checked', () => {
+    const store = makeStore('every week', '2026-03-04', '2026-03-02')();
+    store.updateCard('todo', 'chore', (card) => ({ ...card, checked: true }));
+
+    const [done, fresh] = store.getBoard().columns[0].cards;
+    expect(done).toMatchObject({ id: 'chore', checked: true });
+    expect(fresh).toMatchObject({ checked: false, startDate: '2026-03-09', dueDate: '2026-03-11' });
+    expect(fresh.id).not.toBe('chore');
+    expect(fresh.fields).toEqual({ repeat: 'every week' });
+
+    store.undo();
+    expect(store.getBoard().columns[0].cards.map((card) => card.id)).toEqual(['chore']);
+  });
+
+  it('archives the completed instance when moved into a done column', () => {
+    const store = makeStore('monthly on 1', '2026-03-01')('archive');
+    store.moveCard('todo', 'chore', 'done', 0);
+
+    const board = store.getBoard();
+    expect(board.columns[0].cards.map((card) => card.dueDate)).toEqual(['2026-04-01']);
+    expect(board.columns[1].cards).toEqual([]);
+    expect(board.archive.map((card) => card.id)).toEqual(['chore']);
+
+    store.updateCards(['chore'], (card) => ({ ...card, checked: true }));
+    expect(store.getBoard().columns[0].cards).toHaveLength(1);
+  });
+
+  it('uses the completion setting in effect when the card is completed', () => {
+    const store = makeStore('every day', '2026-03-01')('archive');
+    store.setRecurringCompletion('keep');
+    store.moveCard('todo', 'chore', 'done', 0);
+
+    expect(store.getBoard().columns[1].cards.map((card) => card.id)).toEqual(['chore']);
+    expect(store.getBoard().archive).toEqual([]);
+  });
+
+  it('copies the card as it was before column rules changed it', () => {
+    const chore = makeChore('every day', '2026-03-01');
+    const stamped = normalizeCard({
+      ...chore,
+      title: `${chore.title} #shipped`,
+      checked: true,
+      fields: { ...chore.fields, completed: '2026-03-01' },
+    });
+    const board = createDefaultBoard('Ops');
+    const previous = {
+      ...board,
+      columns: [
+        { id: 'todo', title: 'To Do', wipLimit: null, cards: [chore] },
+        { id: 'done', title: 'Done', wipLimit: null, cards: [] },
+      ],
+    };
+    const next = {
+      ...board,
+      columns: [
+        { id: 'todo', title: 'To Do', wipLimit: null, cards: [] },
+        { id: 'done', title: 'Done', wipLimit: null, cards: [stamped] },
+      ],
+    };
+
+    const result = applyRecurrence(previous, next, '2026-03-01', 'keep', new Map([[chore.id, chore]]));
+    const [fresh] = result.columns[0].cards;
+    expect(fresh).toMatchObject({ title: 'Water plants', checked: false, dueDate: '2026-03-02' });
+    expect(fresh.fields).toEqual({ repeat: 'every day' });
+    expect(result.columns[1].cards).toEqual([stamped]);
+  });
+});
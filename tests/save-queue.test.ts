@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DataAdapter } from 'obsidian';
+
+import { SaveJournal } from '../src/state/SaveJournal';
+import { SaveQueue } from '../src/state/SaveQueue';
+
+function createMemoryAdapter(): { adapter: DataAdapter; files: Map<string, string> } {
+  const files = new Map<string, string>();
+  const adapter = {
+    exists: async (path: string) => files.has(path),
+    mkdir: async (path: string) => {
+      files.set(path, '');
+    },
+    read: async (path: string) => files.get(path) || '',
+    write: async (path: string, data: string) => {
+      files.set(path, data);
+    },
+    remove: async (path: string) => {
+      files.delete(path);
+    },
+  };
+
+  return { adapter: adapter as unknown as DataAdapter, files };
+}
+
+describe('SaveQueue', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('journals pending payloads and clears the journal after a successful flush', async () => {
+    const written: string[] = [];
+    const journal = { write: vi.fn(async () => undefined), clear: vi.fn(async () => undefined) };
+    const queue = new SaveQueue((payload) => {
+      written.push(payload);
+    }, 100, 500, { journal });
+
+    queue.request('one');
+    queue.request('two');
+    expect(journal.write).toHaveBeenCalledTimes(2);
+    expect(journal.clear).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(written).toEqual(['two']);
+    expect(journal.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports pending, writing and saved states', async () => {
+    let finishWrite: () => void = () => undefined;
+    const states: string[] = [];
+    const queue = new SaveQueue(
+      () =>
+        new Promise<void>((resolve) => {
+          finishWrite = resolve;
+        }),
+      100,
+      500,
+      { onStatusChange: (status) => states.push(status.state) }
+    );
+
+    queue.request('one');
+    queue.request('two');
+    expect(queue.getStatus().state).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(queue.getStatus().state).toBe('writing');
+
+    const flushed = queue.flushNow();
+    finishWrite();
+    await flushed;
+    expect(states).toEqual(['pending', 'writing', 'saved']);
+  });
+
+  it('retries failed writes with backoff and reports the error until a write succeeds', async () => {
+    let attempts = 0;
+    const statuses: Array<{ state: string; error: unknown }> = [];
+    const queue = new SaveQueue(
+      () => {
+        attempts += 1;
+        if (attempts < 3) {
+          throw new Error('disk full');
+        }
+      },
+      100,
+      500,
+      { retryDelaysMs: [1000, 5000], onStatusChange: (status) => statuses.push(status) }
+    );
+
+    queue.request('payload');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(attempts).toBe(1);
+    expect(queue.getStatus().state).toBe('failed');
+    expect(queue.getStatus().error).toBeInstanceOf(Error);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(attempts).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(attempts).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(attempts).toBe(3);
+    expect(queue.getStatus()).toEqual({ state: 'saved', error: null });
+    expect(statuses.map((status) => status.state)).toEqual([
+      'pending',
+      'writing',
+      'failed',
+      'writing',
+      'failed',
+      'writing',
+      'saved',
+    ]);
+  });
+
+  it('returns the write error from flushNow and keeps the journal entry', async () => {
+    const journal = { write: vi.fn(async () => undefined), clear: vi.fn(async () => undefined) };
+    const queue = new SaveQueue(
+      () => {
+        throw new Error('disk full');
+      },
+      100,
+      500,
+      { journal }
+    );
+
+    queue.request('payload');
+    const status = await queue.flushNow();
+    queue.destroy();
+
+    expect(status.state).toBe('failed');
+    expect(status.error).toEqual(new Error('disk full'));
+    expect(journal.clear).not.toHaveBeenCalled();
+  });
+});
+
+describe('SaveJournal', () => {
+  it('stores, reads and clears entries per board path', async () => {
+    const { adapter, files } = createMemoryAdapter();
+    const journal = new SaveJournal(adapter, 'plugin/journal');
+
+    void journal.write('Boards/One.md', 'first');
+    void journal.write('Boards/One.md', 'second');
+    void journal.write('Boards/Two.md', 'other');
+
+    expect((await journal.read('Boards/One.md'))?.payload).toBe('second');
+    expect((await journal.read('Boards/Two.md'))?.payload).toBe('other');
+    expect(await journal.read('Boards/Three.md')).toBeNull();
+
+    await journal.clear('Boards/One.md');
+    expect(await journal.read('Boards/One.md')).toBeNull();
+    expect(Array.from(files.keys()).filter((path) => path.endsWith('.json'))).toHaveLength(1);
+  });
+});
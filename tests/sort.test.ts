@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeCard } from '../src/model/card';
+import { getCardCreatedAt, sortCards } from '../src/model/sort';
+
+function makeCard(id: string, title: string, dueDate: string | null = null, priority = '') {
+  return normalizeCard({
+    id,
+    title,
+    description: '',
+    checked: false,
+    dueDate,
+    fields: priority ? { priority } : {},
+  });
+}
+
+describe('column sorting', () => {
+  const older = `card-${Date.UTC(2026, 0, 1).toString(36)}-aaaaa`;
+  const newer = `card-${Date.UTC(2026, 1, 1).toString(36)}-bbbbb`;
+  const cards = [
+    makeCard(newer, 'Task 10', null, 'low'),
+    makeCard('card-001', 'task 2', '2026-03-05', 'urgent'),
+    makeCard(older, 'Alpha', '2026-03-01'),
+  ];
+
+  it('reads the creation time from generated card ids', () => {
+    expect(getCardCreatedAt(older)).toBe(Date.UTC(2026, 0, 1));
+    expect(getCardCreatedAt('card-001')).toBeNull();
+  });
+
+  it('sorts by due date, title, creation time and priority with missing values last', () => {
+    const titles = (mode: Parameters<typeof sortCards>[1]) =>
+      sortCards(cards, mode).map((card) => card.title);
+
+    expect(titles('manual')).toEqual(['Task 10', 'task 2', 'Alpha']);
+    expect(titles('due')).toEqual(['Alpha', 'task 2', 'Task 10']);
+    expect(titles('title')).toEqual(['Alpha', 'task 2', 'Task 10']);
+    expect(titles('created')).toEqual(['Alpha', 'Task 10', 'task 2']);
+    expect(titles('priority')).toEqual(['task 2', 'Task 10', 'Alpha']);
+    expect(cards.map((card) => card.title)).toEqual(['Task 10', 'task 2', 'Alpha']);
+  });
+});
@@ -12,6 +12,7 @@ function makeCard(title: string) {
     description: '',
     checked: false,
     dueDate: null,
+    fields: {},
   });
 }
 
@@ -156,4 +157,332 @@ describe('BoardStore', () => {
       'First',
     ]);
   });
+
+  it('undoes and redoes card moves', () => {
+    const board = createDefaultBoard('Board');
+    const first = makeCard('First');
+    const second = makeCard('Second');
+
+    const store = new BoardStore({
+      ...board,
+      columns: [
+        { id: 'todo', title: 'To Do', wipLimit: null, cards: [first, second] },
+        { id: 'done', title: 'Done', wipLimit: null, cards: [] },
+      ],
+    });
+
+    store.moveCard('todo', first.id, 'done', 0);
+    expect(store.getUndoLabel()).toBe('Move card');
+
+    expect(store.undo()).toBe('Move card');
+    expect(store.getBoard().columns[0].cards.map((card) => card.title)).toEqual(['First', 'Second']);
+    expect(store.getBoard().columns[1].cards).toHaveLength(0);
+
+    expect(store.redo()).toBe('Move card');
+    expect(store.getBoard().columns[1].cards.map((card) => card.title)).toEqual(['First']);
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it('restores cleared columns and drops redo after a new change', () => {
+    const board = createDefaultBoard('Board');
+    const store = new BoardStore({
+      ...board,
+      columns: [{ id: 'lane', title: 'Lane', wipLimit: null, cards: [makeCard('A'), makeCard('B')] }],
+    });
+
+    store.clearColumnCards('lane');
+    store.undo();
+    expect(store.getBoard().columns[0].cards).toHaveLength(2);
+    expect(store.canRedo()).toBe(true);
+
+    store.renameColumn('lane', 'Renamed');
+    expect(store.canRedo()).toBe(false);
+    expect(store.getUndoLabel()).toBe('Rename column');
+  });
+
+  it('records a batch as a single undo entry and emits once', () => {
+    const board = createDefaultBoard('Board');
+    const store = new BoardStore({
+      ...board,
+      columns: [
+        { id: 'one', title: 'One', wipLimit: null, cards: [] },
+        { id: 'two', title: 'Two', wipLimit: null, cards: [] },
+      ],
+    });
+
+    let emitted = 0;
+    store.subscribe(() => {
+      emitted += 1;
+    });
+    emitted = 0;
+
+    store.batch('Edit board settings', () => {
+      store.setColumnWipLimit('one', 3);
+      store.setColumnWipLimit('two', 4);
+    });
+
+    expect(emitted).toBe(1);
+    expect(store.undo()).toBe('Edit board settings');
+    expect(store.getBoard().columns.map((column) => column.wipLimit)).toEqual([null, null]);
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('clears history when the board is replaced', () => {
+    const board = createDefaultBoard('Board');
+    const store = new BoardStore({
+      ...board,
+      columns: [{ id: 'lane', title: 'Lane', wipLimit: null, cards: [] }],
+    });
+
+    store.addCard('lane', makeCard('A'));
+    expect(store.canUndo()).toBe(true);
+
+    store.setBoard(store.getBoard());
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('keeps history and records one step when a synced board replaces the current one', () => {
+    const board = createDefaultBoard('Board');
+    const store = new BoardStore({
+      ...board,
+      columns: [{ id: 'lane', title: 'Lane', wipLimit: null, cards: [] }],
+    });
+
+    store.addCard('lane', makeCard('A'));
+    store.setBoard(store.getBoard(), 'Sync from file');
+    expect(store.getUndoLabel()).toBe('Add card');
+
+    const incoming = store.getBoard();
+    incoming.columns[0].cards.push(makeCard('B'));
+    store.setBoard(incoming, 'Sync from file');
+    expect(store.getUndoLabel()).toBe('Sync from file');
+
+    store.undo();
+    expect(store.getBoard().columns[0].cards.map((card) => card.title)).toEqual(['A']);
+    expect(store.undo()).toBe('Add card');
+  });
+
+  it('does not record an undo step for an edit that changes nothing', () => {
+    const board = createDefaultBoard('Board');
+    const card = makeCard('A');
+    const store = new BoardStore({
+      ...board,
+      columns: [{ id: 'lane', title: 'Lane', wipLimit: null, cards: [card] }],
+    });
+
+    store.updateCard('lane', card.id, (current) => ({ ...current, title: 'A' }));
+    expect(store.canUndo()).toBe(false);
+
+    store.updateCard('lane', card.id, (current) => ({ ...current, title: 'B' }));
+    expect(store.getUndoLabel()).toBe('Edit card');
+  });
+
+  it('archives a single card and restores it at a chosen position', () => {
+    const board = createDefaultBoard('Board');
+    const first = makeCard('First');
+    const second = makeCard('Second');
+    const third = makeCard('Third');
+    const store = new BoardStore({
+      ...board,
+      columns: [{ id: 'lane', title: 'Lane', wipLimit: null, cards: [first, second, third] }],
+    });
+
+    expect(store.archiveCard('lane', second.id)).toBe(true);
+    expect(store.getBoard().archive.map((card) => card.title)).toEqual(['Second']);
+
+    expect(store.restoreArchivedCards([second.id], 'lane', 0)).toBe(1);
+    expect(store.getBoard().columns[0].cards.map((card) => card.title)).toEqual([
+      'Second',
+      'First',
+      'Third',
+    ]);
+    expect(store.getBoard().archive).toHaveLength(0);
+  });
+
+  it('permanently deletes selected archived cards', () => {
+    const board = createDefaultBoard('Board');
+    const kept = makeCard('Kept');
+    const dropped = makeCard('Dropped');
+    const store = new BoardStore({
+      ...board,
+      columns: [],
+      archive: [kept, dropped],
+    });
+
+    expect(store.deleteArchivedCards([dropped.id, 'missing'])).toBe(1);
+    expect(store.getBoard().archive.map((card) => card.title)).toEqual(['Kept']);
+    expect(store.deleteArchivedCards(['missing'])).toBe(0);
+  });
+
+  it('filters cards with the query language and reports query errors', () => {
+    const board = createDefaultBoard('Board');
+    const store = new BoardStore({
+      ...board,
+      columns: [
+        {
+          id: 'lane',
+          title: 'Lane',
+          wipLimit: null,
+          cards: [makeCard('Login #bug'), makeCard('Signup #feature'), makeCard('Docs')],
+        },
+      ],
+    });
+
+    store.setFilterQuery('tag:#bug OR tag:#feature');
+    let snapshot = store.getSnapshot();
+    expect(snapshot.visibleColumns[0].cards.map((card) => card.title)).toEqual([
+      'Login #bug',
+      'Signup #feature',
+    ]);
+    expect(snapshot.queryError).toBeNull();
+
+    store.setFilterQuery('(tag:#bug');
+    snapshot = store.getSnapshot();
+    expect(snapshot.queryError).toContain('Missing ")"');
+    expect(snapshot.visibleColumns[0].cards).toHaveLength(3);
+  });
+
+  it('saves, replaces and deletes named filter views', () => {
+    const store = new BoardStore(createDefaultBoard('Board'));
+
+    store.saveFilterView('Bugs', 'tag:#bug');
+    store.saveFilterView('Mine', 'assignee:@me is:open');
+    store.saveFilterView('Bugs', 'tag:#bug is:open');
+
+    expect(store.getBoard().views).toEqual([
+      { name: 'Bugs', query: 'tag:#bug is:open' },
+      { name: 'Mine', query: 'assignee:@me is:open' },
+    ]);
+
+    store.deleteFilterView('Mine');
+    expect(store.getBoard().views.map((view) => view.name)).toEqual(['Bugs']);
+
+    store.undo();
+    expect(store.getBoard().views).toHaveLength(2);
+  });
+
+  it('shows sorted columns without rewriting manual order until applied', () => {
+    const board = createDefaultBoard('Board');
+    const store = new BoardStore({
+      ...board,
+      columns: [
+        {
+          id: 'lane',
+          title: 'Lane',
+          wipLimit: null,
+          cards: [makeCard('Charlie'), makeCard('Alpha'), makeCard('Bravo')],
+        },
+      ],
+    });
+
+    store.setColumnSortMode('lane', 'title');
+    expect(store.getSnapshot().visibleColumns[0].cards.map((card) => card.title)).toEqual([
+      'Alpha',
+      'Bravo',
+      'Charlie',
+    ]);
+    expect(store.getBoard().columns[0].cards.map((card) => card.title)).toEqual([
+      'Charlie',
+      'Alpha',
+      'Bravo',
+    ]);
+
+    expect(store.applyColumnSort('lane')).toBe(true);
+    expect(store.getBoard().columns[0].sortMode).toBe('manual');
+    expect(store.getBoard().columns[0].cards.map((card) => card.title)).toEqual([
+      'Alpha',
+      'Bravo',
+      'Charlie',
+    ]);
+    expect(store.applyColumnSort('lane')).toBe(false);
+  });
+
+  it('moves selected cards across columns in one step while keeping their order', () => {
+    const board = createDefaultBoard('Board');
+    const a = makeCard('A');
+    const b = makeCard('B');
+    const c = makeCard('C');
+    const d = makeCard('D');
+    const store = new BoardStore({
+      ...board,
+      columns: [
+        { id: 'left', title: 'Left', wipLimit: null, cards: [a, b] },
+        { id: 'right', title: 'Right', wipLimit: null, cards: [c, d] },
+      ],
+    });
+
+    let emits = 0;
+    const unsubscribe = store.subscribe(() => {
+      emits += 1;
+    });
+    emits = 0;
+
+    expect(store.moveCards([d.id, a.id], 'right', 1)).toBe(2);
+    expect(emits).toBe(1);
+    expect(store.getBoard().columns.map((column) => column.cards.map((card) => card.title))).toEqual([
+      ['B'],
+      ['C', 'A', 'D'],
+    ]);
+
+    store.undo();
+    expect(store.getBoard().columns[1].cards.map((card) => card.title)).toEqual(['C', 'D']);
+    expect(store.canUndo()).toBe(false);
+    unsubscribe();
+  });
+
+  it('applies bulk edits, archive and delete as single undo entries', () => {
+    const board = createDefaultBoard('Board');
+    const a = makeCard('A');
+    const b = makeCard('B');
+    const c = makeCard('C');
+    const store = new BoardStore({
+      ...board,
+      columns: [{ id: 'lane', title: 'Lane', wipLimit: null, cards: [a, b, c] }],
+    });
+
+    const checked = store.updateCards(
+      [a.id, c.id],
+      (card) => ({ ...card, checked: true }),
+      'Mark cards done'
+    );
+    expect(checked).toBe(2);
+    expect(store.getBoard().columns[0].cards.map((card) => card.checked)).toEqual([true, false, true]);
+    expect(store.getUndoLabel()).toBe('Mark cards done');
+
+    expect(store.archiveCards([a.id, b.id])).toBe(2);
+    expect(store.getBoard().archive.map((card) => card.title)).toEqual(['A', 'B']);
+
+    expect(store.deleteCards([c.id, 'missing'])).toBe(1);
+    expect(store.getBoard().columns[0].cards).toHaveLength(0);
+
+    store.undo();
+    store.undo();
+    expect(store.getBoard().columns[0].cards.map((card) => card.title)).toEqual(['A', 'B', 'C']);
+    expect(store.deleteCards(['missing'])).toBe(0);
+  });
+
+  it('ignores edits while the board is read-only', () => {
+    const board = createDefaultBoard('Board');
+    const store = new BoardStore({
+      ...board,
+      columns: [
+        { id: 'todo', title: 'To Do', wipLimit: null, cards: [makeCard('A')] },
+        { id: 'done', title: 'Done', wipLimit: null, cards: [] },
+      ],
+    });
+    const before = store.toMarkdown();
+    const cardId = store.getBoard().columns[0].cards[0].id;
+
+    store.setReadOnly(true);
+    store.moveCard('todo', cardId, 'done', 0);
+    store.renameColumn('todo', 'Backlog');
+    expect(store.addCard('todo', makeCard('B')).title).toBe('B');
+    expect(store.archiveCards([cardId])).toBe(0);
+    expect(store.toMarkdown()).toBe(before);
+    expect(store.canUndo()).toBe(false);
+
+    store.setReadOnly(false);
+    store.moveCard('todo', cardId, 'done', 0);
+    expect(store.getBoard().columns[1].cards).toHaveLength(1);
+  });
 });
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeCard } from '../src/model/card';
+import { applySwimlaneKey, getSwimlaneKey, groupIntoSwimlanes } from '../src/model/swimlanes';
+import { Column } from '../src/model/types';
+
+function makeCard(id: string, title: string, fields: Record<string, string> = {}) {
+  return normalizeCard({
+    id,
+    title,
+    description: '',
+    checked: false,
+    dueDate: null,
+    fields,
+  });
+}
+
+describe('swimlanes', () => {
+  const columns: Column[] = [
+    {
+      id: 'todo',
+      title: 'To Do',
+      wipLimit: null,
+      cards: [
+        makeCard('a', 'Login #backend #auth', { priority: 'low' }),
+        makeCard('b', 'Styles', { priority: 'high' }),
+      ],
+    },
+    {
+      id: 'doing',
+      title: 'Doing',
+      wipLimit: null,
+      cards: [makeCard('c', 'API #backend', { assignee: '@sam' })],
+    },
+  ];
+
+  it('groups by the first tag in text order with the empty lane last', () => {
+    const lanes = groupIntoSwimlanes(columns, 'tag');
+
+    expect(lanes.map((lane) => lane.label)).toEqual(['#backend', 'No tag']);
+    expect(lanes[0].count).toBe(2);
+    expect(lanes[0].cardsByColumnId.doing?.map((card) => card.id)).toEqual(['c']);
+  });
+
+  it('orders priority lanes by rank', () => {
+    const lanes = groupIntoSwimlanes(columns, 'priority');
+    expect(lanes.map((lane) => lane.key)).toEqual(['high', 'low', '']);
+  });
+
+  it('rewrites the grouping key when a card changes lane', () => {
+    const card = columns[0].cards[0];
+
+    const retagged = applySwimlaneKey(card, 'tag', '#frontend');
+    expect(retagged.title).toBe('Login #frontend #auth');
+    expect(getSwimlaneKey(retagged, 'tag')).toBe('#frontend');
+
+    const untagged = applySwimlaneKey(card, 'tag', '');
+    expect(untagged.title).toBe('Login #auth');
+
+    const assigned = applySwimlaneKey(card, 'assignee', '@alex');
+    expect(assigned.fields.assignee).toBe('@alex');
+    expect(applySwimlaneKey(assigned, 'assignee', '').fields).toEqual({ priority: 'low' });
+  });
+});
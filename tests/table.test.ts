@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeCard } from '../src/model/card';
+import { buildTableRows, collectTableFieldKeys, parseTagList, replaceCardTags } from '../src/model/table';
+import { Column } from '../src/model/types';
+
+function card(id: string, title: string, dueDate: string | null, fields: Record<string, string> = {}) {
+  return normalizeCard({ id, title, description: '', checked: false, dueDate, fields });
+}
+
+const columns: Column[] = [
+  {
+    id: 'todo',
+    title: 'To Do',
+    wipLimit: null,
+    cards: [card('a', 'Write docs #docs', '2026-03-04', { assignee: '@sam' }), card('b', 'Card 10', null)],
+  },
+  {
+    id: 'done',
+    title: 'Done',
+    wipLimit: null,
+    cards: [card('c', 'Card 9', '2026-03-01', { priority: 'high', team: 'ops' })],
+  },
+];
+
+describe('table rows', () => {
+  it('keeps board order without a sort and sorts by the selected column', () => {
+    const ids = (sort: Parameters<typeof buildTableRows>[1]) =>
+      buildTableRows(columns, sort).map((row) => row.card.id);
+
+    expect(ids(null)).toEqual(['a', 'b', 'c']);
+    expect(ids({ key: 'title', direction: 'asc' })).toEqual(['c', 'b', 'a']);
+    expect(ids({ key: 'due', direction: 'asc' })).toEqual(['c', 'a', 'b']);
+    expect(ids({ key: 'due', direction: 'desc' })).toEqual(['a', 'c', 'b']);
+    expect(ids({ key: 'column', direction: 'desc' })).toEqual(['c', 'a', 'b']);
+    expect(ids({ key: 'field:assignee', direction: 'asc' })).toEqual(['a', 'b', 'c']);
+    expect(collectTableFieldKeys(columns)).toEqual(['assignee', 'priority', 'team']);
+  });
+
+  it('rewrites inline tags when the tag cell is edited', () => {
+    const source = normalizeCard({
+      id: 'x',
+      title: 'Fix login #bug',
+      description: 'Details #backend',
+      checked: false,
+      dueDate: null,
+      fields: {},
+    });
+
+    expect(parseTagList('bug, #Urgent  urgent')).toEqual(['#bug', '#urgent']);
+    expect(replaceCardTags(source, parseTagList('#bug #urgent'))).toEqual({
+      title: 'Fix login #bug #urgent',
+      description: 'Details',
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeCard } from '../src/model/card';
+import { toDayNumber } from '../src/model/dueDate';
+import { buildTimeline, listTimelineTicks, shiftCardSpan } from '../src/model/timeline';
+import { Column } from '../src/model/types';
+
+function card(id: string, title: string, startDate: string | null, dueDate: string | null) {
+  return normalizeCard({ id, title, description: '', checked: false, startDate, dueDate, fields: {} });
+}
+
+const day = (date: string) => toDayNumber(date) as number;
+
+const columns: Column[] = [
+  {
+    id: 'todo',
+    title: 'To Do',
+    wipLimit: null,
+    cards: [
+      card('a', 'Design #ux', '2026-03-02', '2026-03-06'),
+      card('b', 'Backlog idea', null, null),
+      card('c', 'Review', null, '2026-03-10'),
+    ],
+  },
+  { id: 'done', title: 'Done', wipLimit: null, cards: [card('d', 'Kickoff #ux', '2026-02-27', null)] },
+];
+
+describe('timeline', () => {
+  it('builds bars from start and due dates grouped by column or tag', () => {
+    const byColumn = buildTimeline(columns, 'column', '2026-03-04', 2);
+
+    expect(byColumn.groups.map((group) => group.bars.map((bar) => bar.card.id))).toEqual([['a', 'c'], ['d']]);
+    expect(byColumn.groups[0].bars[0]).toMatchObject({ start: day('2026-03-02'), end: day('2026-03-06') });
+    expect(byColumn.groups[0].bars[1]).toMatchObject({ start: day('2026-03-10'), end: day('2026-03-10') });
+    expect(byColumn.unscheduled.map((entry) => entry.card.id)).toEqual(['b']);
+    expect([byColumn.start, byColumn.end]).toEqual([day('2026-02-25'), day('2026-03-12')]);
+
+    const byTag = buildTimeline(columns, 'tag', '2026-03-04');
+    expect(byTag.groups.map((group) => [group.label, group.bars.map((bar) => bar.card.id)])).toEqual([
+      ['#ux', ['d', 'a']],
+      ['No tag', ['c']],
+    ]);
+  });
+
+  it('moves and resizes spans and writes both dates', () => {
+    const design = columns[0].cards[0];
+
+    expect(shiftCardSpan(design, 'both', 3)).toEqual({ startDate: '2026-03-05', dueDate: '2026-03-09' });
+    expect(shiftCardSpan(design, 'start', -2)).toEqual({ startDate: '2026-02-28', dueDate: '2026-03-06' });
+    expect(shiftCardSpan(design, 'end', -10)).toEqual({ startDate: '2026-03-02', dueDate: '2026-03-02' });
+    expect(shiftCardSpan(columns[0].cards[2], 'end', 1)).toEqual({
+      startDate: '2026-03-10',
+      dueDate: '2026-03-11',
+    });
+    expect(listTimelineTicks(day('2026-02-27'), day('2026-03-10'), 'week').length).toBe(2);
+    expect(listTimelineTicks(day('2026-02-27'), day('2026-03-10'), 'month')).toEqual([day('2026-03-01')]);
+  });
+});